@@ -8,11 +8,13 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import TimelinePage from "./pages/TimelinePage";
 import { AuthProvider, useAuth } from "@/components/providers/AuthProvider"; 
+import { MailSyncProvider } from "@/components/providers/MailSyncProvider";
 import RootLayout from "./app/layout";
 import EmailsPage from "./app/emails/page";
 import EmailsList from "@/components/emails/EmailsList";
 import EmailView from "@/components/emails/EmailView";
 import CalendarPage from "./app/calendar/page";
+import InsightsPage from "./app/insights/page";
 import AuthPage from "./app/auth/page"; 
 
 import AuthCallback from "./app/auth/callback/page"; 
@@ -41,6 +43,7 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
+        <MailSyncProvider>
         <BrowserRouter>
           <Routes>
             {/* Auth Page - Redirect authenticated users away */}
@@ -82,12 +85,19 @@ const App = () => (
               element={<ProtectedRoute><RootLayout><TimelinePage /></RootLayout></ProtectedRoute>}
             />
 
+            {/* Insights Protected Route */}
+            <Route
+              path="/insights"
+              element={<ProtectedRoute><RootLayout><InsightsPage /></RootLayout></ProtectedRoute>}
+            />
+
             {/* ADD ALL OTHER CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
           <Toaster />
           <Sonner />
         </BrowserRouter>
+        </MailSyncProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -9,6 +9,7 @@ import {
   fetchCalendarEvents,
   GoogleCalendarEvent,
 } from '@/lib/googleCalendarClient';
+import { isTokenExpiredError } from '@/lib/googleApiClient';
 import {
   EventInput,
   DatesSetArg,
@@ -92,7 +93,7 @@ const CalendarPage = () => {
           description: err.message || 'Could not fetch calendar events.',
           variant: 'destructive',
         });
-        if (err.message === 'Google API token expired') {
+        if (isTokenExpiredError(err)) {
           navigate('/auth');
         }
       } finally {
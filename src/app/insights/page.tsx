@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, startOfDay, subDays } from 'date-fns';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useMailSync } from '@/hooks/useMailSync';
+import { AdvancedSearch, EMPTY_SEARCH, writeAdvancedSearch } from '@/lib/gmailSearch';
+import {
+  BacklogPoint,
+  bucketEndDate,
+  InsightsBucket,
+  loadMailInsights,
+  MailInsights,
+  SenderCount,
+  TagShare,
+  VolumePoint,
+} from '@/lib/mailInsights';
+
+const RANGE_OPTIONS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+const volumeConfig = {
+  received: { label: 'Received', color: '#9333ea' },
+  sent: { label: 'Sent', color: '#94a3b8' },
+} satisfies ChartConfig;
+
+const backlogConfig = {
+  unread: { label: 'Unread', color: '#9333ea' },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: 'Emails', color: '#9333ea' },
+} satisfies ChartConfig;
+
+const tagConfig = {
+  share: { label: 'Share of mail', color: '#9333ea' },
+} satisfies ChartConfig;
+
+// Horizontal bar chart of the most frequent senders or domains
+const TopCountsChart: React.FC<{ data: SenderCount[]; onSelect: (entry: SenderCount) => void }> = ({ data, onSelect }) => {
+  if (data.length === 0) return <p className="text-sm text-muted-foreground py-6 text-center">No mail in this range.</p>;
+  return (
+    <ChartContainer config={countConfig} className="aspect-auto h-[320px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="key" width={180} tickLine={false} axisLine={false} tick={{ fontSize: 12 }} />
+        <ChartTooltip content={<ChartTooltipContent labelKey="name" />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} className="cursor-pointer" onClick={(entry) => onSelect(entry.payload)} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const InsightsPage = () => {
+  const { user } = useAuth();
+  const { storeVersion } = useMailSync();
+  const navigate = useNavigate();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [bucket, setBucket] = useState<InsightsBucket>('day');
+  const [insights, setInsights] = useState<MailInsights | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const since = useMemo(() => startOfDay(subDays(new Date(), rangeDays - 1)), [rangeDays]);
+  const sinceDate = format(since, 'yyyy-MM-dd');
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    loadMailInsights(user.id, since, bucket, controller.signal)
+      .then(loaded => {
+        if (!controller.signal.aborted) setInsights(loaded);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [user?.id, since, bucket, storeVersion]);
+
+  // Every chart element opens the email list searched down to the mail it stands for
+  const openEmails = (search: Partial<AdvancedSearch>) => {
+    const params = writeAdvancedSearch(new URLSearchParams(), { ...EMPTY_SEARCH, after: sinceDate, ...search });
+    navigate(`/emails?${params.toString()}`);
+  };
+
+  const openVolume = (point: VolumePoint, series: 'received' | 'sent') =>
+    openEmails({
+      text: series === 'sent' ? 'in:sent' : '-in:sent',
+      after: point.date,
+      before: bucketEndDate(point.date, bucket),
+    });
+
+  const openBacklog = (point: BacklogPoint) =>
+    openEmails({ text: 'is:unread -in:sent', before: bucketEndDate(point.date, bucket) });
+
+  return (
+    <div className="p-4 md:p-6 h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h1 className="text-2xl font-bold font-bebas">Insights</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+            <SelectTrigger className="w-40 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ToggleGroup type="single" size="sm" value={bucket} onValueChange={(value) => value && setBucket(value as InsightsBucket)}>
+            <ToggleGroupItem value="day">Day</ToggleGroupItem>
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 text-center text-red-600 bg-red-100 border border-red-300 rounded-md">
+          Error: {error}
+        </div>
+      )}
+
+      {!insights && isLoading && (
+        <div className="flex-grow flex justify-center items-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {insights && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {insights.received} received · {insights.sent} sent
+            {isLoading && <Loader2 className="inline ml-2 h-3 w-3 animate-spin" />}
+            {!insights.complete && ' · Only the most recent mail is synced, so the start of this range is incomplete.'}
+          </p>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Received and sent</CardTitle>
+                <CardDescription>Emails per {bucket}.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={volumeConfig} className="aspect-auto h-[260px] w-full">
+                  <BarChart data={insights.volume}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="received" fill="var(--color-received)" radius={4} className="cursor-pointer" onClick={(entry) => openVolume(entry.payload, 'received')} />
+                    <Bar dataKey="sent" fill="var(--color-sent)" radius={4} className="cursor-pointer" onClick={(entry) => openVolume(entry.payload, 'sent')} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Unread backlog</CardTitle>
+                <CardDescription>Mail that is still unread, added up by when it arrived.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={backlogConfig} className="aspect-auto h-[260px] w-full">
+                  <AreaChart
+                    data={insights.backlog}
+                    className="cursor-pointer"
+                    onClick={(state) => {
+                      const point = insights.backlog[state?.activeTooltipIndex ?? -1];
+                      if (point) openBacklog(point);
+                    }}
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Area dataKey="unread" type="monotone" fill="var(--color-unread)" fillOpacity={0.3} stroke="var(--color-unread)" />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top senders</CardTitle>
+                <CardDescription>Who sent you the most mail.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TopCountsChart data={insights.topSenders} onSelect={(sender) => openEmails({ from: sender.key })} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top domains</CardTitle>
+                <CardDescription>Which organizations sent you the most mail.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TopCountsChart data={insights.topDomains} onSelect={(domain) => openEmails({ from: `@${domain.key}` })} />
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Tagged mail</CardTitle>
+                <CardDescription>Share of the mail in this range carrying each tag.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {insights.tags.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-6 text-center">No tagged mail in this range.</p>
+                ) : (
+                  <ChartContainer config={tagConfig} className="aspect-auto w-full" style={{ height: 48 + insights.tags.length * 36 }}>
+                    <BarChart data={insights.tags} layout="vertical" margin={{ left: 8, right: 16 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickFormatter={(value: number) => `${Math.round(value * 100)}%`} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="name" width={140} tickLine={false} axisLine={false} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            formatter={(_, __, item) => {
+                              const tag = item.payload as TagShare;
+                              return `${tag.count} emails (${Math.round(tag.share * 100)}%)`;
+                            }}
+                          />
+                        }
+                      />
+                      <Bar dataKey="share" radius={4} className="cursor-pointer" onClick={(entry) => openEmails({ tagIds: [entry.payload.tagId] })}>
+                        {insights.tags.map(tag => (
+                          <Cell key={tag.tagId} fill={tag.color} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InsightsPage;
@@ -4,6 +4,8 @@ import { Toaster } from "@/components/ui/sonner";
 import Sidebar from "@/components/sidebar/Sidebar";
 import { cn } from '@/lib/utils'; 
 import { ThemeProvider } from "@/components/providers/ThemeProvider";
+import CommandPalette from "@/components/search/CommandPalette";
+import { UndoSendPrompts } from "@/components/emails/UndoSendPrompts";
 
 interface RootLayoutProps {
   children: ReactNode;
@@ -37,6 +39,8 @@ export default function RootLayout({ children }: RootLayoutProps) {
               {children}
             </main>
             <Toaster />
+            <CommandPalette />
+            <UndoSendPrompts />
           </div>
         </ThemeProvider>
       </body>
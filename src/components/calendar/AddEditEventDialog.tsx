@@ -28,6 +28,8 @@ import {
     createCalendarEvent,
     updateCalendarEvent,
     deleteCalendarEvent,
+    CalendarEventDraft,
+    GoogleCalendarEventAttendee,
     GoogleCalendarEventInput,
     GoogleCalendarEvent 
 } from '@/lib/googleCalendarClient';
@@ -60,6 +62,7 @@ interface AddEditEventDialogProps {
   onOpenChange: (open: boolean) => void;
   event: EventInputWithTags | null; // Use the extended type
   dateRange: { start: Date, end: Date } | null;
+  initialValues?: CalendarEventDraft | null; // Pre-fills a new event (ignored when editing)
   onSaveSuccess: (savedEvent: GoogleCalendarEvent) => void; // Use the specific type
   onDeleteSuccess: (eventId: string) => void;
 }
@@ -91,6 +94,7 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
   onOpenChange,
   event,
   dateRange,
+  initialValues,
   onSaveSuccess,
   onDeleteSuccess,
 }) => {
@@ -102,6 +106,9 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
   const [endDate, setEndDate] = useState('');     // YYYY-MM-DD
   const [endTime, setEndTime] = useState('');     // HH:mm
   const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  const [attendeeOptions, setAttendeeOptions] = useState<GoogleCalendarEventAttendee[]>([]);
+  const [selectedAttendees, setSelectedAttendees] = useState<string[]>([]); // Emails
   const [isAllDay, setIsAllDay] = useState(false); // TODO: Add checkbox for all-day events
   const [isProcessing, setIsProcessing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -119,6 +126,11 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
         setIsAllDay(event.allDay || false);
         // Initialize selected tags from event props if editing
         setSelectedTagIds(event.extendedProps?.tags?.map(tag => tag.id) || []);
+        // Location and attendees are kept as they are on Google's side
+        const googleEvent = event.extendedProps?.googleEvent as GoogleCalendarEvent | undefined;
+        setLocation(googleEvent?.location || '');
+        setAttendeeOptions(googleEvent?.attendees || []);
+        setSelectedAttendees(googleEvent?.attendees?.map(attendee => attendee.email) || []);
 
         // event.start/end should be Date objects or ISO strings from FullCalendar
         const start = event.start ? new Date(event.start as string | number | Date) : new Date();
@@ -139,10 +151,27 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
         // Reset tags when opening in edit mode (will be set above if event has tags)
         // setSelectedTagIds(event.extendedProps?.tags?.map(tag => tag.id) || []); // Moved up
 
+      } else if (initialValues) {
+        // --- Adding Mode (pre-filled, e.g. from an email) ---
+        setTitle(initialValues.title);
+        setDescription(initialValues.description);
+        setLocation(initialValues.location);
+        setAttendeeOptions(initialValues.suggestedAttendees);
+        setSelectedAttendees([]);
+        setIsAllDay(false);
+        setSelectedTagIds(initialValues.tagIds);
+        setStartDate(formatDateForInput(initialValues.start));
+        setStartTime(initialValues.start.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }));
+        setEndDate(formatDateForInput(initialValues.end));
+        setEndTime(initialValues.end.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }));
+
       } else if (dateRange) {
         // --- Adding Mode (from date selection) ---
         setTitle('');
         setDescription('');
+        setLocation('');
+        setAttendeeOptions([]);
+        setSelectedAttendees([]);
         setIsAllDay(false); // Default to not all-day
         setSelectedTagIds([]); // Reset tags for new event
 
@@ -161,6 +190,9 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
         // --- Adding Mode (from button click - default values) ---
         setTitle('');
         setDescription('');
+        setLocation('');
+        setAttendeeOptions([]);
+        setSelectedAttendees([]);
         setIsAllDay(false);
         setSelectedTagIds([]); // Reset tags for new event
         const now = new Date();
@@ -172,7 +204,7 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
         setEndTime(oneHourLater.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }));
       }
     }
-  }, [isOpen, event, dateRange, isEditing]);
+  }, [isOpen, event, dateRange, initialValues, isEditing]);
 
   // --- Fetch Available Tags ---
   useEffect(() => {
@@ -208,6 +240,14 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
   }, []);
 
 
+  const handleAttendeeToggle = useCallback((email: string) => {
+    setSelectedAttendees(prev =>
+      prev.includes(email)
+        ? prev.filter(selected => selected !== email)
+        : [...prev, email]
+    );
+  }, []);
+
   const handleSave = async () => {
     if (!title.trim()) {
       toast({ title: "Title Required", description: "Please enter an event title.", variant: "destructive" });
@@ -228,9 +268,12 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
 
     setIsProcessing(true);
 
+    const attendees = attendeeOptions.filter(attendee => selectedAttendees.includes(attendee.email));
     const eventData: GoogleCalendarEventInput = {
       summary: title,
       description: description,
+      location: location.trim() || undefined,
+      attendees,
       start: isAllDay ? { date: startDate } : { dateTime: startDateTime?.toISOString() },
       end: isAllDay ? { date: endDate } : { dateTime: endDateTime?.toISOString() },
     };
@@ -242,7 +285,8 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
         savedEvent = await updateCalendarEvent('primary', event.id, eventData);
         toast({ title: "Success", description: "Event updated successfully!" });
       } else {
-        savedEvent = await createCalendarEvent('primary', eventData);
+        // New attendees get an invitation email from Google
+        savedEvent = await createCalendarEvent('primary', eventData, attendees.length > 0 ? 'all' : 'none');
         toast({ title: "Success", description: "Event created successfully!" });
       }
 
@@ -398,6 +442,19 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
              )}
           </div>
 
+          {/* Location */}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="location" className="text-right">Location</Label>
+            <Input
+              id="location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Room, address or meeting link (optional)"
+              className="col-span-3"
+              disabled={isProcessing || isDeleting}
+            />
+          </div>
+
           {/* Description */}
           <div className="grid grid-cols-4 items-start gap-4"> {/* Use items-start for alignment */}
             <Label htmlFor="description" className="text-right pt-2">Description</Label>
@@ -411,6 +468,31 @@ const AddEditEventDialog: React.FC<AddEditEventDialogProps> = ({
             />
           </div>
 
+          {/* Attendees */}
+          {attendeeOptions.length > 0 && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-1">Attendees</Label>
+              <div className="col-span-3 grid gap-1.5">
+                {attendeeOptions.map(attendee => (
+                  <label key={attendee.email} htmlFor={`attendee-${attendee.email}`} className="flex items-center gap-2 text-sm cursor-pointer min-w-0">
+                    <Checkbox
+                      id={`attendee-${attendee.email}`}
+                      checked={selectedAttendees.includes(attendee.email)}
+                      onCheckedChange={() => handleAttendeeToggle(attendee.email)}
+                      disabled={isProcessing || isDeleting}
+                    />
+                    <span className="truncate">
+                      {attendee.displayName ? `${attendee.displayName} <${attendee.email}>` : attendee.email}
+                    </span>
+                  </label>
+                ))}
+                {!isEditing && (
+                  <p className="text-xs text-muted-foreground">Checked attendees are sent an invitation.</p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Tags */}
           <div className="grid grid-cols-4 items-center gap-4">
             <Label className="text-right">Tags</Label>
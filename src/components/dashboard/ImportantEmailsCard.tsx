@@ -7,12 +7,12 @@ import { useAuth } from '@/components/providers/AuthProvider';
 import { useNavigate } from 'react-router-dom'; 
 import {
   fetchEmailIdsTaggedToday,
-  fetchFullEmailDetails,
   fetchSupabaseEmailData,
   getHeaderValue,
   GmailFullMessage,
   SupabaseEmailData,
 } from '@/lib/supabaseClient'
+import { getMessageDetails } from '@/lib/mailSync';
 import { Badge } from '@/components/ui/badge'; 
 
 interface DashboardEmailItem {
@@ -111,7 +111,7 @@ const ImportantEmailsCard = () => {
 
         // Fetch details for these emails
         const [gmailDetails, supabaseDetails] = await Promise.all([
-          fetchFullEmailDetails(emailIds),
+          getMessageDetails(user.id, emailIds),
           fetchSupabaseEmailData(user.id, emailIds)
         ]);
 
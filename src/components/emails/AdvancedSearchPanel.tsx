@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CardTag } from '@/lib/cardApi';
+import { fetchGmailUserLabels, GmailUserLabel } from '@/lib/supabaseClient';
+import { AdvancedSearch, countSearchFilters, EMPTY_SEARCH, SizeComparison } from '@/lib/gmailSearch';
+
+interface AdvancedSearchPanelProps {
+  /** The search currently in the URL; the form starts from it each time it opens. */
+  search: AdvancedSearch;
+  availableTags: CardTag[];
+  onSearch: (search: AdvancedSearch) => void;
+}
+
+// Select items can't have an empty value
+const ANY_LABEL = '__any__';
+
+export const AdvancedSearchPanel: React.FC<AdvancedSearchPanelProps> = ({ search, availableTags, onSearch }) => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<AdvancedSearch>(search);
+  const [labels, setLabels] = useState<GmailUserLabel[] | null>(null);
+  const filterCount = countSearchFilters(search);
+
+  useEffect(() => {
+    if (open) setForm(search);
+  }, [open, search]);
+
+  // Labels are only needed once the panel is opened
+  useEffect(() => {
+    if (!open || labels) return;
+    const controller = new AbortController();
+    fetchGmailUserLabels(controller.signal)
+      .then(setLabels)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          console.warn('Failed to load Gmail labels for search:', err);
+          setLabels([]);
+        }
+      });
+    return () => controller.abort();
+  }, [open, labels]);
+
+  const update = <K extends keyof AdvancedSearch>(key: K, value: AdvancedSearch[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleTag = (tagId: string, checked: boolean | 'indeterminate') => {
+    setForm(prev => ({
+      ...prev,
+      tagIds: checked === true ? [...prev.tagIds, tagId] : prev.tagIds.filter(id => id !== tagId),
+    }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSearch(form);
+    setOpen(false);
+  };
+
+  // The label list may not include a label that came in through a shared link
+  const labelOptions = labels && form.label && !labels.some(l => l.name === form.label)
+    ? [{ id: form.label, name: form.label }, ...labels]
+    : labels || [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-shrink-0">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Advanced
+          {filterCount > 0 && (
+            <Badge variant="secondary" className="ml-2 px-1.5">{filterCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[420px]">
+        <form onSubmit={handleSubmit} className="grid gap-3">
+          <div className="grid grid-cols-[80px_1fr] items-center gap-2">
+            <Label htmlFor="search-words">Has words</Label>
+            <Input id="search-words" value={form.text} onChange={(e) => update('text', e.target.value)} className="h-8" />
+            <Label htmlFor="search-from">From</Label>
+            <Input id="search-from" value={form.from} onChange={(e) => update('from', e.target.value)} className="h-8" />
+            <Label htmlFor="search-to">To</Label>
+            <Input id="search-to" value={form.to} onChange={(e) => update('to', e.target.value)} className="h-8" />
+            <Label htmlFor="search-subject">Subject</Label>
+            <Input id="search-subject" value={form.subject} onChange={(e) => update('subject', e.target.value)} className="h-8" />
+            <Label htmlFor="search-after">Date</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="search-after"
+                type="date"
+                value={form.after}
+                max={form.before || undefined}
+                onChange={(e) => update('after', e.target.value)}
+                className="h-8"
+                aria-label="From date"
+              />
+              <span className="text-xs text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={form.before}
+                min={form.after || undefined}
+                onChange={(e) => update('before', e.target.value)}
+                className="h-8"
+                aria-label="To date"
+              />
+            </div>
+            <Label htmlFor="search-label">Label</Label>
+            <Select
+              value={form.label || ANY_LABEL}
+              onValueChange={(value) => update('label', value === ANY_LABEL ? '' : value)}
+            >
+              <SelectTrigger id="search-label" className="h-8">
+                <SelectValue placeholder={labels ? 'Any label' : 'Loading labels...'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_LABEL}>Any label</SelectItem>
+                {labelOptions.map(label => (
+                  <SelectItem key={label.id} value={label.name}>{label.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Label htmlFor="search-size">Size</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={form.sizeComparison}
+                onValueChange={(value) => update('sizeComparison', value as SizeComparison)}
+              >
+                <SelectTrigger className="h-8 w-[130px]" aria-label="Size comparison">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="larger">Greater than</SelectItem>
+                  <SelectItem value="smaller">Less than</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                id="search-size"
+                type="number"
+                min={0}
+                step="any"
+                value={form.size}
+                onChange={(e) => update('size', e.target.value)}
+                className="h-8"
+              />
+              <span className="text-xs text-muted-foreground">MB</span>
+            </div>
+          </div>
+
+          <label htmlFor="search-attachment" className="flex items-center gap-2 text-sm">
+            <Checkbox
+              id="search-attachment"
+              checked={form.hasAttachment}
+              onCheckedChange={(checked) => update('hasAttachment', checked === true)}
+            />
+            Has attachment
+          </label>
+
+          {availableTags.length > 0 && (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Tags</Label>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="search-tag-mode" className="text-xs text-muted-foreground">Any</Label>
+                  <Switch
+                    id="search-tag-mode"
+                    checked={form.tagMode === 'all'}
+                    onCheckedChange={(checked) => update('tagMode', checked ? 'all' : 'any')}
+                    aria-label="Toggle between matching any tag or all tags"
+                    className="h-4 w-7 [&>span]:h-3 [&>span]:w-3"
+                  />
+                  <Label htmlFor="search-tag-mode" className="text-xs text-muted-foreground">All</Label>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 max-h-24 overflow-y-auto">
+                {availableTags.map(tag => (
+                  <label key={tag.id} htmlFor={`search-tag-${tag.id}`} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`search-tag-${tag.id}`}
+                      checked={form.tagIds.includes(tag.id)}
+                      onCheckedChange={(checked) => toggleTag(tag.id, checked)}
+                    />
+                    {tag.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between pt-1">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setForm(EMPTY_SEARCH)}>
+              Reset
+            </Button>
+            <Button type="submit" size="sm" className="bg-purple hover:bg-purple/90">
+              Search
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
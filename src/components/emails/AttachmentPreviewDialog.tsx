@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Loader2 } from 'lucide-react';
+import { downloadAttachment, getAttachmentBlob, getPreviewKind, MessageAttachment } from '@/lib/gmailAttachments';
+
+interface AttachmentPreviewDialogProps {
+  attachment: MessageAttachment | null;
+  onClose: () => void;
+}
+
+// Text previews beyond this size are cut off; the full file is still downloadable.
+const MAX_TEXT_PREVIEW_CHARS = 200_000;
+
+const AttachmentPreviewDialog: React.FC<AttachmentPreviewDialogProps> = ({ attachment, onClose }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const kind = attachment ? getPreviewKind(attachment) : null;
+
+  useEffect(() => {
+    if (!attachment) return;
+    const controller = new AbortController();
+    let url: string | null = null;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setText(null);
+      setObjectUrl(null);
+      try {
+        const blob = await getAttachmentBlob(attachment, controller.signal);
+        if (controller.signal.aborted) return;
+        if (getPreviewKind(attachment) === 'text') {
+          setText((await blob.text()).slice(0, MAX_TEXT_PREVIEW_CHARS));
+        } else {
+          url = URL.createObjectURL(blob);
+          setObjectUrl(url);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError((err as Error).message || 'Failed to load attachment.');
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment]);
+
+  const handleDownload = async () => {
+    if (!attachment) return;
+    try {
+      await downloadAttachment(attachment);
+    } catch (err) {
+      toast({ title: "Download failed", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{attachment?.filename}</DialogTitle>
+          <DialogDescription>
+            {attachment?.mimeType} · {attachment ? (attachment.size / 1024).toFixed(1) : 0} KB
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center items-center min-h-[200px] max-h-[70vh] overflow-auto border rounded-md bg-muted/30">
+          {isLoading && <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />}
+          {!isLoading && error && <div className="text-sm text-red-600 p-4">Error: {error}</div>}
+          {!isLoading && !error && kind === 'image' && objectUrl && (
+            <img src={objectUrl} alt={attachment?.filename} className="max-w-full max-h-[70vh] object-contain" />
+          )}
+          {!isLoading && !error && kind === 'pdf' && objectUrl && (
+            <iframe src={objectUrl} title={attachment?.filename} className="w-full h-[70vh]" />
+          )}
+          {!isLoading && !error && kind === 'text' && text !== null && (
+            <pre className="w-full h-full p-4 text-xs whitespace-pre-wrap break-words self-start">{text}</pre>
+          )}
+          {!isLoading && !error && !kind && (
+            <div className="text-sm text-muted-foreground p-4">No preview available for this file type.</div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleDownload} disabled={!attachment}>
+            <Download className="mr-2 h-4 w-4" /> Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttachmentPreviewDialog;
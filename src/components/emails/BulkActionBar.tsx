@@ -0,0 +1,129 @@
+import React from 'react';
+import { Archive, Trash2, MailOpen, Mail, Star, StarOff, Tag, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+export type BulkAction = 'archive' | 'trash' | 'markRead' | 'markUnread' | 'star' | 'unstar';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  availableTags: { id: string; name: string; type: string; color: string }[];
+  onAction: (action: BulkAction) => void;
+  onTagChange: (tagId: string, add: boolean) => void;
+  isRunning: boolean;
+  /** Whole page selected: offer to extend the selection to everything matching. */
+  pageSelected: boolean;
+  matchingEstimate: number | null;
+  allMatchingSelected: boolean;
+  matchingTruncated: boolean;
+  isSelectingAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+}
+
+const ACTION_BUTTONS: { action: BulkAction; label: string; icon: React.ElementType }[] = [
+  { action: 'archive', label: 'Archive', icon: Archive },
+  { action: 'trash', label: 'Move to Trash', icon: Trash2 },
+  { action: 'markRead', label: 'Mark as read', icon: MailOpen },
+  { action: 'markUnread', label: 'Mark as unread', icon: Mail },
+  { action: 'star', label: 'Star', icon: Star },
+  { action: 'unstar', label: 'Unstar', icon: StarOff },
+];
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  availableTags,
+  onAction,
+  onTagChange,
+  isRunning,
+  pageSelected,
+  matchingEstimate,
+  allMatchingSelected,
+  matchingTruncated,
+  isSelectingAllMatching,
+  onSelectAllMatching,
+  onClearSelection,
+}) => {
+  const canSelectAllMatching = pageSelected && !allMatchingSelected
+    && matchingEstimate !== null && matchingEstimate > selectedCount;
+
+  return (
+    <div className="px-4 pb-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        <span className="text-sm text-muted-foreground mr-2">{selectedCount} selected</span>
+        <TooltipProvider delayDuration={100}>
+          {ACTION_BUTTONS.map(({ action, label, icon: Icon }) => (
+            <Tooltip key={action}>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onAction(action)} disabled={isRunning} aria-label={label}>
+                  <Icon className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{label}</TooltipContent>
+            </Tooltip>
+          ))}
+        </TooltipProvider>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isRunning || availableTags.length === 0}>
+              <Tag className="mr-2 h-4 w-4" /> Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+            <DropdownMenuLabel>Add tag</DropdownMenuLabel>
+            {availableTags.map(tag => (
+              <DropdownMenuItem key={`add-${tag.id}`} onSelect={() => onTagChange(tag.id, true)}>
+                <span className="inline-block w-3 h-3 mr-2 rounded-full" style={{ backgroundColor: tag.color }}></span>
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Remove tag</DropdownMenuLabel>
+            {availableTags.map(tag => (
+              <DropdownMenuItem key={`remove-${tag.id}`} onSelect={() => onTagChange(tag.id, false)}>
+                <span className="inline-block w-3 h-3 mr-2 rounded-full" style={{ backgroundColor: tag.color }}></span>
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {isRunning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground ml-2" />}
+      </div>
+
+      {(canSelectAllMatching || allMatchingSelected || isSelectingAllMatching) && (
+        <div className="mt-2 text-sm text-center bg-muted rounded-md py-1.5">
+          {isSelectingAllMatching && (
+            <span className="inline-flex items-center text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" /> Finding all matching emails...
+            </span>
+          )}
+          {!isSelectingAllMatching && allMatchingSelected && (
+            <>
+              All {selectedCount} matching emails are selected
+              {matchingTruncated && ' (the most recent ones; selection is capped)'}.{' '}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={onClearSelection}>
+                Clear selection
+              </Button>
+            </>
+          )}
+          {!isSelectingAllMatching && canSelectAllMatching && (
+            <>
+              All {selectedCount} emails on this page are selected.{' '}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching} disabled={isRunning}>
+                Select all {matchingEstimate} matching emails
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
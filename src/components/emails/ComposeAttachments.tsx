@@ -0,0 +1,72 @@
+import React, { useRef } from 'react';
+import { Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+// Gmail rejects messages whose attachments add up to more than 25 MB.
+const MAX_ATTACHMENTS_TOTAL_BYTES = 25 * 1024 * 1024;
+
+interface ComposeAttachmentsProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/** Attach button plus the list of attached files, shared by the compose dialog and the reply box. */
+export const ComposeAttachments: React.FC<ComposeAttachmentsProps> = ({ files, onChange, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow picking the same file again after removing it
+    if (selected.length === 0) return;
+
+    const next = [...files, ...selected];
+    const totalSize = next.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_ATTACHMENTS_TOTAL_BYTES) {
+      toast({
+        title: "Attachments too large",
+        description: `Attachments can add up to at most ${formatSize(MAX_ATTACHMENTS_TOTAL_BYTES)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div>
+        <input ref={inputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+        <Button type="button" variant="ghost" size="sm" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          <Paperclip className="mr-2 h-4 w-4" /> Attach files
+        </Button>
+      </div>
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center text-xs border rounded-md pl-2 bg-muted/50">
+              <span className="truncate max-w-[200px]">{file.name}</span>
+              <span className="ml-1 text-muted-foreground">({formatSize(file.size)})</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
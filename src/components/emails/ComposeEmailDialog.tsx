@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -14,20 +14,124 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2 } from 'lucide-react';
-import { sendNewGmailMessage } from '@/lib/supabaseClient'; 
+import { Loader2, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { DraftContent, loadDraftContent } from '@/lib/gmailDrafts';
+import { MessageSignature } from '@/lib/mimeBuilder';
+import {
+  cancelScheduledMessage,
+  fetchScheduledMessageForDraft,
+  scheduleMessage,
+  updateScheduledMessageDetails,
+} from '@/lib/outbox';
+import { formatSnoozeTime } from '@/lib/snooze';
+import { appendTemplateBody } from '@/lib/emailTemplates';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { useUndoSend } from '@/hooks/useUndoSend';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { ComposeAttachments } from './ComposeAttachments';
+import { ScheduleSendMenu } from './ScheduleSendMenu';
+import { SignatureEditor } from './SignatureEditor';
+import { TemplatePicker } from './TemplatePicker';
 
 interface ComposeEmailDialogProps {
-  children: React.ReactNode; 
+  children?: React.ReactNode; 
+  /** Opens the dialog with this Gmail draft loaded. */
+  draftId?: string | null;
+  /** Opens the dialog empty, e.g. for the command palette's Compose. */
+  openBlank?: boolean;
+  /** Called when a dialog opened through `draftId` or `openBlank` closes. */
+  onDraftClosed?: () => void;
 }
 
-const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children }) => {
+const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children, draftId, openBlank, onDraftClosed }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [to, setTo] = useState('');
+  const [cc, setCc] = useState('');
+  const [bcc, setBcc] = useState('');
+  const [showCcBcc, setShowCcBcc] = useState(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
+  // undefined until the default signature has been filled in
+  const [signature, setSignature] = useState<MessageSignature | null | undefined>(undefined);
   const [isSending, setIsSending] = useState(false);
+  const [isLoadingDraft, setIsLoadingDraft] = useState(false);
+  // Set while editing a message from the Scheduled view
+  const [scheduledFor, setScheduledFor] = useState<Date | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const sendWithUndo = useUndoSend();
+
+  const draftContent: DraftContent = { to, cc, bcc, subject, text: body, attachments, signature: signature ?? null };
+  const autosave = useDraftAutosave({
+    content: draftContent,
+    enabled: isOpen && !isSending && !isLoadingDraft,
+  });
+  const { load: loadDraft, reset: resetDraft } = autosave;
+
+  useEffect(() => {
+    if (openBlank) setIsOpen(true);
+  }, [openBlank]);
+
+  // Resume a draft picked from the Drafts view
+  useEffect(() => {
+    if (!draftId) return;
+    let cancelled = false;
+    setIsOpen(true);
+    setIsLoadingDraft(true);
+    Promise.all([
+      loadDraftContent(draftId),
+      userId ? fetchScheduledMessageForDraft(userId, draftId) : null,
+    ])
+      .then(([{ content }, scheduled]) => {
+        if (cancelled) return;
+        setScheduledFor(scheduled?.status === 'scheduled' || scheduled?.status === 'failed' ? new Date(scheduled.send_at) : null);
+        setTo(content.to);
+        setCc(content.cc);
+        setBcc(content.bcc);
+        setShowCcBcc(!!(content.cc || content.bcc));
+        setSubject(content.subject);
+        setBody(content.text);
+        setSignature(content.signature ?? null);
+        setAttachments(content.attachments);
+        loadDraft(draftId, content);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({ title: "Error Loading Draft", description: error.message, variant: "destructive" });
+        setIsOpen(false);
+        onDraftClosed?.();
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingDraft(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId, userId, loadDraft, toast, onDraftClosed]);
+
+  const resetFields = () => {
+    setTo('');
+    setCc('');
+    setBcc('');
+    setShowCcBcc(false);
+    setAttachments([]);
+    setSubject('');
+    setBody('');
+    setSignature(undefined);
+    setScheduledFor(null);
+  };
+
+  const closeAfterSending = () => {
+    resetDraft();
+    setIsOpen(false);
+    onDraftClosed?.();
+    setTimeout(resetFields, 300);
+    window.dispatchEvent(new CustomEvent('refreshEmails'));
+  };
 
   const handleSend = async () => {
     if (!to.trim()) {
@@ -39,23 +143,18 @@ const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children }) =>
       return;
     }
 
+    if (!userId) return;
+
     setIsSending(true);
 
     try {
-      const success = await sendNewGmailMessage(to, subject, body);
-
-      if (success) {
-        toast({
-          title: "Success",
-          description: "Email sent successfully!",
-        });
-        setIsOpen(false); 
-        setTimeout(() => {
-            setTo('');
-            setSubject('');
-            setBody('');
-        }, 300);
-      }
+      // The message goes out from its draft once the undo window has passed (a scheduled
+      // message is simply moved up); undoing brings the draft back into the composer.
+      const savedDraftId = await autosave.persist();
+      await sendWithUndo(userId, { draftId: savedDraftId, recipients: to, subject }, () => {
+        navigate(`/emails?draft=${encodeURIComponent(savedDraftId)}`);
+      });
+      closeAfterSending();
     } catch (error: any) {
       console.error("Error sending email:", error);
       toast({
@@ -68,29 +167,99 @@ const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children }) =>
     }
   };
 
-  // Reset fields when dialog is closed manually
-  const handleOpenChange = (open: boolean) => {
-    if (!open) {
-        // Reset fields if dialog is closed without sending
-        setTo('');
-        setSubject('');
-        setBody('');
+  const handleSchedule = async (sendAt: Date) => {
+    if (!to.trim()) {
+      toast({
+        title: "Missing Recipient",
+        description: "Please enter at least one recipient.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!userId) return;
+
+    setIsSending(true);
+    try {
+      // The outbox sends the draft itself, so it has to hold exactly what is on screen
+      const savedDraftId = await autosave.persist();
+      await scheduleMessage(userId, { draftId: savedDraftId, recipients: to, subject }, sendAt);
+      toast({ title: "Message scheduled", description: `It will be sent ${formatSnoozeTime(sendAt)}.` });
+      closeAfterSending();
+    } catch (error) {
+      console.error("Error scheduling email:", error);
+      toast({ title: "Error Scheduling Email", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSending(false);
     }
+  };
+
+  // Closing without sending keeps the text as a draft
+  const handleOpenChange = async (open: boolean) => {
     setIsOpen(open);
+    if (open) return;
+    onDraftClosed?.();
+    if (isLoadingDraft) {
+      resetDraft();
+      resetFields();
+      return;
+    }
+    // Save before clearing the fields, otherwise the save would see an empty message
+    await autosave.flush();
+    const savedDraftId = await autosave.settle();
+    if (savedDraftId && scheduledFor && userId) {
+      await updateScheduledMessageDetails(userId, savedDraftId, { recipients: to, subject })
+        .catch(err => console.warn('Failed to update scheduled message:', err));
+      toast({ title: "Scheduled message saved", description: `It will be sent ${formatSnoozeTime(scheduledFor)}.` });
+      window.dispatchEvent(new CustomEvent('refreshEmails'));
+    } else if (savedDraftId) {
+      toast({ title: "Draft saved" });
+      window.dispatchEvent(new CustomEvent('refreshEmails'));
+    }
+    resetDraft();
+    resetFields();
   }
 
+  const handleDiscard = async () => {
+    try {
+      const discardedDraftId = await autosave.settle();
+      await autosave.discard();
+      if (scheduledFor && discardedDraftId && userId) {
+        await cancelScheduledMessage(userId, discardedDraftId);
+      }
+      toast({ title: "Draft discarded" });
+      window.dispatchEvent(new CustomEvent('refreshEmails'));
+    } catch (error) {
+      toast({ title: "Error Discarding Draft", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
+    setIsOpen(false);
+    onDraftClosed?.();
+    resetFields();
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
-      <DialogTrigger asChild>
-        {children}
-      </DialogTrigger>
+      {children && (
+        <DialogTrigger asChild>
+          {children}
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Compose New Email</DialogTitle>
+          <DialogTitle>
+            {scheduledFor ? 'Edit Scheduled Email' : autosave.draftId ? 'Edit Draft' : 'Compose New Email'}
+          </DialogTitle>
           <DialogDescription>
-            Fill in the details below to send a new email.
+            {scheduledFor
+              ? `Scheduled for ${formatSnoozeTime(scheduledFor)}. Changes are saved to the scheduled message.`
+              : 'Fill in the details below to send a new email.'}
           </DialogDescription>
         </DialogHeader>
+        {isLoadingDraft ? (
+          <div className="flex justify-center items-center min-h-[200px]">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
         <div className="grid gap-4 py-4">
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="to" className="text-right">
@@ -101,10 +270,43 @@ const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children }) =>
               value={to}
               onChange={(e) => setTo(e.target.value)}
               placeholder="recipient@example.com"
-              className="col-span-3"
+              className="col-span-2"
               disabled={isSending}
             />
+            {!showCcBcc && (
+              <Button type="button" variant="link" size="sm" onClick={() => setShowCcBcc(true)} disabled={isSending}>
+                Cc/Bcc
+              </Button>
+            )}
           </div>
+          {showCcBcc && (
+            <>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="cc" className="text-right">
+                  Cc
+                </Label>
+                <Input
+                  id="cc"
+                  value={cc}
+                  onChange={(e) => setCc(e.target.value)}
+                  className="col-span-3"
+                  disabled={isSending}
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="bcc" className="text-right">
+                  Bcc
+                </Label>
+                <Input
+                  id="bcc"
+                  value={bcc}
+                  onChange={(e) => setBcc(e.target.value)}
+                  className="col-span-3"
+                  disabled={isSending}
+                />
+              </div>
+            </>
+          )}
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="subject" className="text-right">
               Subject
@@ -131,21 +333,52 @@ const ComposeEmailDialog: React.FC<ComposeEmailDialogProps> = ({ children }) =>
               disabled={isSending}
             />
           </div>
+          {userId && (
+            <SignatureEditor userId={userId} kind="new" value={signature} onChange={setSignature} disabled={isSending} />
+          )}
+          <ComposeAttachments files={attachments} onChange={setAttachments} disabled={isSending} />
         </div>
-        <DialogFooter>
+        )}
+        <DialogFooter className="sm:items-center">
+          {userId && (
+            <TemplatePicker
+              userId={userId}
+              context={{ subject }}
+              onInsert={(filled) => {
+                if (!subject.trim()) setSubject(filled.subject);
+                setBody(prev => appendTemplateBody(prev, filled.body));
+              }}
+              disabled={isSending || isLoadingDraft}
+            />
+          )}
+          <span className="text-xs text-muted-foreground mr-auto">
+            {autosave.status === 'saving' && 'Saving draft...'}
+            {autosave.status === 'saved' && 'Draft saved'}
+            {autosave.status === 'error' && 'Could not save draft'}
+          </span>
+          {autosave.draftId && (
+            <Button type="button" variant="ghost" onClick={handleDiscard} disabled={isSending}>
+              <Trash2 className="mr-2 h-4 w-4" /> Discard
+            </Button>
+          )}
           <DialogClose asChild>
             <Button type="button" variant="outline" disabled={isSending}>
               Cancel
             </Button>
           </DialogClose>
+          <ScheduleSendMenu
+            scheduledFor={scheduledFor}
+            onSchedule={handleSchedule}
+            disabled={isSending || isLoadingDraft}
+          />
           <Button
             type="button"
             onClick={handleSend}
-            disabled={isSending}
+            disabled={isSending || isLoadingDraft}
             className="bg-purple hover:bg-purple/90"
           >
             {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-            {isSending ? 'Sending...' : 'Send Email'}
+            {isSending ? 'Sending...' : scheduledFor ? 'Send Now' : 'Send Email'}
           </Button>
         </DialogFooter>
       </DialogContent>
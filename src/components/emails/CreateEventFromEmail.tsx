@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import AddEditEventDialog from '@/components/calendar/AddEditEventDialog';
+import { getHeaderValue, getMessagePlainText, GmailThread } from '@/lib/supabaseClient';
+import { htmlToPlainText, parseAddressList } from '@/lib/mimeBuilder';
+import { parseEventDetails } from '@/lib/dateExtraction';
+import { CalendarEventDraft, GoogleCalendarEventAttendee } from '@/lib/googleCalendarClient';
+
+interface CreateEventFromEmailProps {
+  threadId: string;
+  thread: GmailThread;
+  /** The user's own addresses, left out of the suggested attendees. */
+  ownAddresses: string[];
+  /** The thread's tags, copied onto the event. */
+  tagIds: string[];
+}
+
+// Everyone on From, To and Cc anywhere in the thread, except the user
+const collectParticipants = (thread: GmailThread, ownAddresses: string[]): GoogleCalendarEventAttendee[] => {
+  const own = new Set(ownAddresses.map(address => address.toLowerCase()));
+  const byAddress = new Map<string, GoogleCalendarEventAttendee>();
+  thread.messages.forEach(message => {
+    ['From', 'To', 'Cc'].forEach(header => {
+      parseAddressList(getHeaderValue(message.payload.headers, header)).forEach(({ name, address }) => {
+        const key = address.toLowerCase();
+        if (!key || own.has(key) || byAddress.has(key)) return;
+        byAddress.set(key, { email: address, displayName: name || undefined });
+      });
+    });
+  });
+  return Array.from(byAddress.values());
+};
+
+// The latest message is read for when and where, since replies tend to settle the details
+const buildEventDraft = (threadId: string, thread: GmailThread, ownAddresses: string[], tagIds: string[]): CalendarEventDraft => {
+  const latest = thread.messages[thread.messages.length - 1];
+  const subject = getHeaderValue(thread.messages[0].payload.headers, 'Subject');
+  const details = parseEventDetails(
+    getHeaderValue(latest.payload.headers, 'Subject') || subject,
+    getMessagePlainText(latest.payload),
+    new Date(Number(latest.internalDate || Date.now()))
+  );
+  const threadUrl = `${window.location.origin}/emails/thread/${encodeURIComponent(threadId)}`;
+  return {
+    title: subject.replace(/^((re|fwd?|aw|wg)\s*:\s*)+/i, ''),
+    description: [htmlToPlainText(latest.snippet || ''), `Email: ${threadUrl}`].filter(Boolean).join('\n\n'),
+    start: details.start,
+    end: details.end,
+    location: details.location ?? '',
+    suggestedAttendees: collectParticipants(thread, ownAddresses),
+    tagIds,
+  };
+};
+
+/** "Create event" for a thread: the event dialog pre-filled from the conversation. */
+export const CreateEventFromEmail: React.FC<CreateEventFromEmailProps> = ({ threadId, thread, ownAddresses, tagIds }) => {
+  const [draft, setDraft] = useState<CalendarEventDraft | null>(null);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setDraft(buildEventDraft(threadId, thread, ownAddresses, tagIds))}>
+        <CalendarPlus className="mr-2 h-4 w-4" /> Create event
+      </Button>
+      <AddEditEventDialog
+        isOpen={!!draft}
+        onOpenChange={(open) => { if (!open) setDraft(null); }}
+        event={null}
+        dateRange={null}
+        initialValues={draft}
+        onSaveSuccess={() => setDraft(null)}
+        onDeleteSuccess={() => {}}
+      />
+    </>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+
+interface DateTimePickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  label: string;
+  confirmLabel: string;
+  /** Where the picker starts each time it opens. */
+  initialValue: Date;
+  /** Only called with a time in the future. */
+  onConfirm: (date: Date) => void;
+}
+
+// <input type="datetime-local"> works in local time without seconds
+const toLocalInputValue = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const DateTimePickerDialog: React.FC<DateTimePickerDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  label,
+  confirmLabel,
+  initialValue,
+  onConfirm,
+}) => {
+  const [value, setValue] = useState('');
+  // Read when the dialog opens, so a new Date on every render doesn't reset the input
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+  const date = value ? new Date(value) : null;
+  const isValid = !!date && !isNaN(date.getTime()) && date.getTime() > Date.now();
+
+  useEffect(() => {
+    if (open) setValue(toLocalInputValue(initialValueRef.current));
+  }, [open]);
+
+  const handleConfirm = () => {
+    if (!date || !isValid) return;
+    onConfirm(date);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-2">
+          <Label htmlFor="date-time-picker">{label}</Label>
+          <Input
+            id="date-time-picker"
+            type="datetime-local"
+            value={value}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          {value && !isValid && (
+            <p className="text-xs text-red-600">Choose a time in the future.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!isValid}>
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
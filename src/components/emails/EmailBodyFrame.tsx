@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTheme } from 'next-themes';
+import { ImageOff, Moon, MoreHorizontal, ShieldAlert, Sun } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { prepareEmailHtml } from '@/lib/remoteContent';
+import { foldQuotedContent } from '@/lib/quotedContent';
+
+interface EmailBodyFrameProps {
+  /** The decoded body part, HTML or plain text. */
+  content: string;
+  isPlainText: boolean;
+  /** Object URLs for the message's inline (cid:) images. */
+  cidUrls?: Record<string, string>;
+  allowRemote: boolean;
+  onAllowMessage: () => void;
+  /** Missing when the sender is unknown. */
+  onAllowSender?: () => void;
+}
+
+// Scripts never run (the sandbox leaves out allow-scripts); same-origin access is what
+// lets the frame be measured, and links open in a normal, unsandboxed tab.
+const SANDBOX = 'allow-same-origin allow-popups allow-popups-to-escape-sandbox';
+
+const BASE_STYLES = `
+  html { background: #fff; }
+  body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; font-size: 14px; line-height: 1.5; color: #1f2937; overflow-wrap: anywhere; }
+  img { max-width: 100%; height: auto; }
+  table { max-width: 100%; }
+  pre { white-space: pre-wrap; }
+  .plain-text { white-space: pre-wrap; }
+`;
+
+// Inverts the page and turns the hue back, so light emails read dark while keeping their
+// colors; images and backgrounds are inverted a second time to look as intended.
+const DARK_STYLES = `
+  html.dark-colors { filter: invert(1) hue-rotate(180deg); }
+  html.dark-colors img, html.dark-colors video, html.dark-colors [style*="background-image"], html.dark-colors [background] { filter: invert(1) hue-rotate(180deg); }
+`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const plainTextToHtml = (text: string): string =>
+  `<div class="plain-text">${escapeHtml(text).replace(/https?:\/\/[^\s<>"]+/g, url => `<a href="${url}">${url}</a>`)}</div>`;
+
+const buildFrameDocument = (styles: string, body: string, allowRemote: boolean, darkColors: boolean): string => {
+  const remoteSources = allowRemote ? ' https: http:' : '';
+  const policy = `default-src 'none'; style-src 'unsafe-inline'; img-src data: blob:${remoteSources}; font-src data:${remoteSources}; media-src data: blob:${remoteSources}`;
+  return `<!DOCTYPE html><html class="${darkColors ? 'dark-colors' : ''}"><head><meta charset="utf-8">`
+    + `<meta http-equiv="Content-Security-Policy" content="${policy}">`
+    + `<base target="_blank"><style>${BASE_STYLES}${DARK_STYLES}</style>${styles}</head><body>${body}</body></html>`;
+};
+
+/** An email body in a sandboxed frame sized to its content, with the remote content, dark mode and quoted text controls. */
+export const EmailBodyFrame: React.FC<EmailBodyFrameProps> = ({
+  content,
+  isPlainText,
+  cidUrls,
+  allowRemote,
+  onAllowMessage,
+  onAllowSender,
+}) => {
+  const { resolvedTheme } = useTheme();
+  const isDarkTheme = resolvedTheme === 'dark';
+  const [darkColors, setDarkColors] = useState(isDarkTheme);
+  const [showQuoted, setShowQuoted] = useState(false);
+  const [height, setHeight] = useState(0);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => setDarkColors(isDarkTheme), [isDarkTheme]);
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Quoted text and the signature stay folded away until asked for
+  const folded = useMemo(() => foldQuotedContent(content, isPlainText), [content, isPlainText]);
+  const shownContent = showQuoted || folded === null ? content : folded;
+
+  const prepared = useMemo(
+    () => isPlainText
+      ? { styles: '', body: plainTextToHtml(shownContent), blockedCount: 0, trackerCount: 0 }
+      : prepareEmailHtml(shownContent, { cidUrls, allowRemote }),
+    [shownContent, isPlainText, cidUrls, allowRemote]
+  );
+  const frameDocument = useMemo(
+    () => buildFrameDocument(prepared.styles, prepared.body, allowRemote, darkColors),
+    [prepared, allowRemote, darkColors]
+  );
+
+  // Re-measured whenever the content reflows, e.g. as images load or the pane is resized
+  const handleLoad = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc) return;
+    const measure = () => setHeight(Math.max(doc.documentElement.offsetHeight, doc.body.scrollHeight));
+    measure();
+    observerRef.current?.disconnect();
+    observerRef.current = new ResizeObserver(measure);
+    observerRef.current.observe(doc.body);
+  };
+
+  const showBar = prepared.blockedCount > 0 || prepared.trackerCount > 0 || isDarkTheme;
+
+  return (
+    <div>
+      {showBar && (
+        <div className="mb-2 flex flex-wrap items-center gap-x-3 gap-y-1 rounded-md bg-muted/50 px-3 py-1.5 text-xs text-muted-foreground">
+          {prepared.blockedCount > 0 && (
+            <span className="inline-flex items-center gap-1">
+              <ImageOff className="h-3 w-3" /> Images from the web are hidden.
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onAllowMessage}>Show images</Button>
+              {onAllowSender && (
+                <>
+                  ·
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onAllowSender}>Always show from this sender</Button>
+                </>
+              )}
+            </span>
+          )}
+          {prepared.trackerCount > 0 && (
+            <span className="inline-flex items-center gap-1 text-amber-700 dark:text-amber-400">
+              <ShieldAlert className="h-3 w-3" />
+              {prepared.trackerCount} tracking pixel{prepared.trackerCount > 1 ? 's' : ''} removed
+            </span>
+          )}
+          {isDarkTheme && (
+            <Button variant="ghost" size="sm" className="ml-auto h-6 px-2 text-xs" onClick={() => setDarkColors(prev => !prev)}>
+              {darkColors ? <Sun className="mr-1 h-3 w-3" /> : <Moon className="mr-1 h-3 w-3" />}
+              {darkColors ? 'Original colors' : 'Dark colors'}
+            </Button>
+          )}
+        </div>
+      )}
+      <iframe
+        ref={frameRef}
+        title="Email content"
+        sandbox={SANDBOX}
+        srcDoc={frameDocument}
+        onLoad={handleLoad}
+        className="block w-full rounded-md border-0"
+        style={{ height }}
+      />
+      {folded !== null && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-1 h-5 px-2"
+          onClick={() => setShowQuoted(prev => !prev)}
+          title={showQuoted ? 'Hide quoted text' : 'Show quoted text'}
+          aria-label={showQuoted ? 'Hide quoted text' : 'Show quoted text'}
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
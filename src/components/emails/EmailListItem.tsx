@@ -16,6 +16,8 @@ interface EmailListItemProps {
   onToggleSelection: (id: string, event: React.MouseEvent) => void;
   onTagToggle: (emailId: string, tagId: string, event: React.MouseEvent) => void;
   navigate: (path: string) => void;
+  /** Replaces the default "open thread" navigation (used for drafts). */
+  onOpen?: (email: EmailItem) => void;
 }
 
 export const EmailListItem: React.FC<EmailListItemProps> = ({
@@ -26,14 +28,15 @@ export const EmailListItem: React.FC<EmailListItemProps> = ({
   onToggleStar,
   onToggleSelection,
   onTagToggle,
-  navigate
+  navigate,
+  onOpen
 }) => {
   return (
     <div
       className={`flex items-center hover:bg-muted cursor-pointer ${
         !email.read ? 'bg-blue-50 dark:bg-gray-800 font-semibold' : ''
       } ${selectedEmails.includes(email.id) ? 'bg-blue-100 dark:bg-gray-700' : ''}`}
-      onClick={() => navigate(`/emails/thread/${email.threadId}`)}
+      onClick={() => (onOpen ? onOpen(email) : navigate(`/emails/thread/${email.threadId}`))}
     >
       <div className="p-3 flex items-center w-full">
         <div className="flex items-center space-x-3 mr-3 flex-shrink-0">
@@ -72,6 +75,9 @@ export const EmailListItem: React.FC<EmailListItemProps> = ({
               }`}
             >
               {email.sender}
+              {email.thread && email.thread.messageCount > 1 && (
+                <span className="ml-1 text-xs font-normal text-muted-foreground">{email.thread.messageCount}</span>
+              )}
             </span>
           </div>
           <h3 className={`text-sm truncate ${!email.read ? '' : 'text-gray-400'}`}>{email.subject}</h3>
@@ -2,6 +2,9 @@ import React from 'react';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Mail, MessagesSquare } from 'lucide-react';
+import { MailListMode } from '@/lib/supabaseClient';
 
 interface EmailListToolbarProps {
   activeTab: string;
@@ -10,6 +13,8 @@ interface EmailListToolbarProps {
   onSelectAll: (checked: boolean) => void;
   isLoading: boolean;
   hasEmails: boolean;
+  listMode: MailListMode;
+  onListModeChange: (mode: MailListMode) => void;
 }
 
 export const EmailListToolbar: React.FC<EmailListToolbarProps> = ({
@@ -19,9 +24,11 @@ export const EmailListToolbar: React.FC<EmailListToolbarProps> = ({
   onSelectAll,
   isLoading,
   hasEmails,
+  listMode,
+  onListModeChange,
 }) => {
   return (
-    <div className="mb-4 bg-white sticky top-0 z-10 pb-2 border-b">
+    <div className="mb-4 bg-background sticky top-0 z-10 pb-2 border-b dark:border-muted">
       <div className="flex items-center space-x-2 mb-4 px-4 pt-2">
         <TooltipProvider delayDuration={100}>
           <Tooltip>
@@ -36,6 +43,21 @@ export const EmailListToolbar: React.FC<EmailListToolbarProps> = ({
             <TooltipContent>Select all</TooltipContent>
           </Tooltip>
         </TooltipProvider>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          className="ml-auto"
+          value={listMode}
+          onValueChange={(value) => value && onListModeChange(value as MailListMode)}
+          disabled={isLoading}
+        >
+          <ToggleGroupItem value="messages" aria-label="Show individual messages" title="Messages">
+            <Mail className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="conversations" aria-label="Group messages into conversations" title="Conversations">
+            <MessagesSquare className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
       </div>
 
       {/* Tabs */}
@@ -44,11 +66,15 @@ export const EmailListToolbar: React.FC<EmailListToolbarProps> = ({
         onValueChange={onTabChange}
         className="w-full px-4"
       >
-        <TabsList className="grid grid-cols-4 w-fit"> 
+        <TabsList className="grid grid-cols-8 w-fit"> 
           <TabsTrigger value="all" disabled={isLoading}>All</TabsTrigger>
           <TabsTrigger value="unread" disabled={isLoading}>Unread</TabsTrigger>
           <TabsTrigger value="starred" disabled={isLoading}>Starred</TabsTrigger>
           <TabsTrigger value="important" disabled={isLoading}>Important</TabsTrigger> 
+          <TabsTrigger value="drafts" disabled={isLoading}>Drafts</TabsTrigger>
+          <TabsTrigger value="snoozed" disabled={isLoading}>Snoozed</TabsTrigger>
+          <TabsTrigger value="scheduled" disabled={isLoading}>Scheduled</TabsTrigger>
+          <TabsTrigger value="subscriptions" disabled={isLoading}>Subscriptions</TabsTrigger>
         </TabsList>
       </Tabs>
     </div>
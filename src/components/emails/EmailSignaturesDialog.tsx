@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  createEmailSignature,
+  deleteEmailSignature,
+  EmailSignature,
+  EmailSignatureInput,
+  fetchEmailSignatures,
+  importGmailSignatures,
+  updateEmailSignature,
+} from '@/lib/signatures';
+
+interface EmailSignaturesDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after any signature was created, changed, imported or deleted. */
+  onChanged?: () => void;
+}
+
+const EMPTY_SIGNATURE: EmailSignatureInput = { name: '', text_body: '', html_body: null };
+
+const sortByName = (signatures: EmailSignature[]) => [...signatures].sort((a, b) => a.name.localeCompare(b.name));
+
+const EmailSignaturesDialog: React.FC<EmailSignaturesDialogProps> = ({ userId, open, onOpenChange, onChanged }) => {
+  const [signatures, setSignatures] = useState<EmailSignature[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // null: showing the list; 'new' or a signature id: showing the form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EmailSignatureInput>(EMPTY_SIGNATURE);
+  const [signatureToDelete, setSignatureToDelete] = useState<EmailSignature | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setEditingId(null);
+    setSignatureToDelete(null);
+    setIsLoading(true);
+    fetchEmailSignatures(userId)
+      .then(loaded => {
+        if (!cancelled) setSignatures(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) toast({ title: "Error", description: `Failed to load signatures: ${(err as Error).message}`, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, toast]);
+
+  const startEditing = (signature: EmailSignature | null) => {
+    setEditingId(signature?.id ?? 'new');
+    setForm(signature ? { name: signature.name, text_body: signature.text_body, html_body: signature.html_body } : EMPTY_SIGNATURE);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: "Missing name", description: "Please give the signature a name.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const input = { ...form, name: form.name.trim() };
+      if (editingId === 'new') {
+        const created = await createEmailSignature(userId, input);
+        setSignatures(prev => sortByName([...prev, created]));
+      } else if (editingId) {
+        const updated = await updateEmailSignature(editingId, input);
+        setSignatures(prev => sortByName(prev.map(s => (s.id === updated.id ? updated : s))));
+      }
+      toast({ title: "Success", description: `Signature "${input.name}" saved.` });
+      setEditingId(null);
+      onChanged?.();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to save signature: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsSaving(true);
+    try {
+      const imported = await importGmailSignatures(userId);
+      if (imported.length === 0) {
+        toast({ title: "Nothing to import", description: "Gmail has no signatures that aren't here already." });
+        return;
+      }
+      setSignatures(prev => sortByName([...prev, ...imported]));
+      toast({ title: "Success", description: `Imported ${imported.length} signature${imported.length === 1 ? '' : 's'} from Gmail.` });
+      onChanged?.();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to import from Gmail: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!signatureToDelete) return;
+    setIsSaving(true);
+    try {
+      await deleteEmailSignature(signatureToDelete.id);
+      setSignatures(prev => prev.filter(s => s.id !== signatureToDelete.id));
+      toast({ title: "Success", description: `Signature "${signatureToDelete.name}" deleted.` });
+      onChanged?.();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to delete signature: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setSignatureToDelete(null);
+      setIsSaving(false);
+    }
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center items-center min-h-[120px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (signatures.length === 0) {
+      return <p className="text-sm text-muted-foreground py-6 text-center">No signatures yet.</p>;
+    }
+    return (
+      <div className="max-h-[320px] overflow-y-auto divide-y border rounded-md">
+        {signatures.map(signature => (
+          <div key={signature.id} className="flex items-center gap-2 px-3 py-2">
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-medium truncate">{signature.name}</p>
+              <p className="text-xs text-muted-foreground truncate">{signature.text_body}</p>
+            </div>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(signature)} aria-label={`Edit ${signature.name}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={() => setSignatureToDelete(signature)} aria-label={`Delete ${signature.name}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!isSaving) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {signatureToDelete ? 'Delete Signature' : editingId === 'new' ? 'New Signature' : editingId ? 'Edit Signature' : 'Signatures'}
+          </DialogTitle>
+          <DialogDescription>
+            {signatureToDelete
+              ? `Are you sure you want to delete the signature "${signatureToDelete.name}"? This action cannot be undone.`
+              : 'Signatures are added below your messages and can still be changed in each message before sending.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {signatureToDelete ? (
+          <DialogFooter className="flex justify-between sm:justify-between mt-4">
+            <Button type="button" variant="outline" onClick={() => setSignatureToDelete(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleConfirmDelete} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Signature
+            </Button>
+          </DialogFooter>
+        ) : editingId ? (
+          <>
+            <div className="grid gap-4 py-2">
+              <div className="grid gap-2">
+                <Label htmlFor="signatureName">Name</Label>
+                <Input
+                  id="signatureName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Work"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="signatureText">Signature</Label>
+                <Textarea
+                  id="signatureText"
+                  value={form.text_body}
+                  // The formatted version would no longer match the edited text
+                  onChange={(e) => setForm(prev => ({ ...prev, text_body: e.target.value, html_body: null }))}
+                  placeholder={"Jane Doe\nAcme Inc."}
+                  className="min-h-[140px] resize-y"
+                  disabled={isSaving}
+                />
+                {form.html_body && (
+                  <p className="text-xs text-muted-foreground">
+                    This signature keeps its formatting from Gmail. Editing the text here turns it into a plain-text signature.
+                  </p>
+                )}
+              </div>
+            </div>
+            <DialogFooter className="flex justify-between sm:justify-between">
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button type="button" className="bg-purple-600 hover:bg-purple-700" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Signature
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            {renderList()}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleImport} disabled={isLoading || isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Import from Gmail
+              </Button>
+              <Button type="button" onClick={() => startEditing(null)} disabled={isLoading || isSaving}>
+                <Plus className="mr-2 h-4 w-4" /> New Signature
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmailSignaturesDialog;
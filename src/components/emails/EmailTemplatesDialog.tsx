@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  AUTO_FILL_VARIABLES,
+  createEmailTemplate,
+  deleteEmailTemplate,
+  EmailTemplate,
+  EmailTemplateInput,
+  fetchEmailTemplates,
+  updateEmailTemplate,
+} from '@/lib/emailTemplates';
+
+interface EmailTemplatesDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after any template was created, changed or deleted. */
+  onChanged?: () => void;
+}
+
+const EMPTY_TEMPLATE: EmailTemplateInput = { name: '', subject: '', body: '' };
+
+const EmailTemplatesDialog: React.FC<EmailTemplatesDialogProps> = ({ userId, open, onOpenChange, onChanged }) => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // null: showing the list; 'new' or a template id: showing the form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EmailTemplateInput>(EMPTY_TEMPLATE);
+  const [templateToDelete, setTemplateToDelete] = useState<EmailTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setEditingId(null);
+    setTemplateToDelete(null);
+    setIsLoading(true);
+    fetchEmailTemplates(userId)
+      .then(loaded => {
+        if (!cancelled) setTemplates(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) toast({ title: "Error", description: `Failed to load templates: ${(err as Error).message}`, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, toast]);
+
+  const startEditing = (template: EmailTemplate | null) => {
+    setEditingId(template?.id ?? 'new');
+    setForm(template ? { name: template.name, subject: template.subject, body: template.body } : EMPTY_TEMPLATE);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: "Missing name", description: "Please give the template a name.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const input = { ...form, name: form.name.trim() };
+      if (editingId === 'new') {
+        const created = await createEmailTemplate(userId, input);
+        setTemplates(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      } else if (editingId) {
+        const updated = await updateEmailTemplate(editingId, input);
+        setTemplates(prev => prev.map(t => (t.id === updated.id ? updated : t)).sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      toast({ title: "Success", description: `Template "${input.name}" saved.` });
+      setEditingId(null);
+      onChanged?.();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to save template: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!templateToDelete) return;
+    setIsSaving(true);
+    try {
+      await deleteEmailTemplate(templateToDelete.id);
+      setTemplates(prev => prev.filter(t => t.id !== templateToDelete.id));
+      toast({ title: "Success", description: `Template "${templateToDelete.name}" deleted.` });
+      onChanged?.();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to delete template: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setTemplateToDelete(null);
+      setIsSaving(false);
+    }
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center items-center min-h-[120px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (templates.length === 0) {
+      return <p className="text-sm text-muted-foreground py-6 text-center">No templates yet.</p>;
+    }
+    return (
+      <div className="max-h-[320px] overflow-y-auto divide-y border rounded-md">
+        {templates.map(template => (
+          <div key={template.id} className="flex items-center gap-2 px-3 py-2">
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-medium truncate">{template.name}</p>
+              <p className="text-xs text-muted-foreground truncate">{template.subject || template.body}</p>
+            </div>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(template)} aria-label={`Edit ${template.name}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={() => setTemplateToDelete(template)} aria-label={`Delete ${template.name}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!isSaving) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {templateToDelete ? 'Delete Template' : editingId === 'new' ? 'New Template' : editingId ? 'Edit Template' : 'Email Templates'}
+          </DialogTitle>
+          <DialogDescription>
+            {templateToDelete
+              ? `Are you sure you want to delete the template "${templateToDelete.name}"? This action cannot be undone.`
+              : 'Use {{variables}} for the parts that change. Variables that cannot be filled in automatically are asked for when the template is used.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {templateToDelete ? (
+          <DialogFooter className="flex justify-between sm:justify-between mt-4">
+            <Button type="button" variant="outline" onClick={() => setTemplateToDelete(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleConfirmDelete} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Template
+            </Button>
+          </DialogFooter>
+        ) : editingId ? (
+          <>
+            <div className="grid gap-4 py-2">
+              <div className="grid gap-2">
+                <Label htmlFor="templateName">Name</Label>
+                <Input
+                  id="templateName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Weekly status"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="templateSubject">Subject</Label>
+                <Input
+                  id="templateSubject"
+                  value={form.subject}
+                  onChange={(e) => setForm(prev => ({ ...prev, subject: e.target.value }))}
+                  placeholder="Status update for {{today}}"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="templateBody">Body</Label>
+                <Textarea
+                  id="templateBody"
+                  value={form.body}
+                  onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                  placeholder={"Hi {{sender_first_name}},\n\n..."}
+                  className="min-h-[180px] resize-y"
+                  disabled={isSaving}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Filled in automatically:{' '}
+                {AUTO_FILL_VARIABLES.map((variable, index) => (
+                  <span key={variable.name} title={variable.description}>
+                    {index > 0 && ', '}
+                    <code>{`{{${variable.name}}}`}</code>
+                  </span>
+                ))}
+              </p>
+            </div>
+            <DialogFooter className="flex justify-between sm:justify-between">
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button type="button" className="bg-purple-600 hover:bg-purple-700" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Template
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            {renderList()}
+            <DialogFooter>
+              <Button type="button" onClick={() => startEditing(null)} disabled={isLoading}>
+                <Plus className="mr-2 h-4 w-4" /> New Template
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmailTemplatesDialog;
@@ -1,7 +1,6 @@
-import DOMPurify from 'dompurify';
-import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
-import { Loader2, Tag, Send, Paperclip, ChevronDown, ChevronUp } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Loader2, Tag, Send, Paperclip, ChevronDown, ChevronUp, Download, Eye, Trash2, Reply, ReplyAll, Forward } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -15,7 +14,10 @@ import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '@/components/providers/AuthProvider';
 import {
   fetchEmailThread,
-  sendReply,
+  buildReplyHeaders,
+  buildForwardContent,
+  FORWARD_DIVIDER,
+  getOwnAddresses,
   getHeaderValue,
   decodeBase64Body,
   findBestBodyPart,
@@ -26,21 +28,131 @@ import {
   markMessageAsRead,
   GmailThread,
   GmailThreadMessage,
+  ReplyMode,
 } from '@/lib/supabaseClient';
+import { applyLocalLabelChange, recordThreadHistoryId } from '@/lib/mailSync';
+import { dismissResurfacedThread, fetchThreadSnooze, formatSnoozeTime, snoozeThread, unsnoozeThread } from '@/lib/snooze';
+import { cancelScheduledMessage, fetchScheduledMessageForDraft, scheduleMessage, ScheduledMessage } from '@/lib/outbox';
+import { MimeMessage } from '@/lib/mimeBuilder';
+import { Input } from '@/components/ui/input';
+import { ComposeAttachments } from './ComposeAttachments';
+import { SnoozeMenu } from './SnoozeMenu';
+import { ScheduleSendMenu } from './ScheduleSendMenu';
+import { TemplatePicker } from './TemplatePicker';
+import { SignatureEditor } from './SignatureEditor';
+import { ThreadTimelineCards } from './ThreadTimelineCards';
+import { CreateEventFromEmail } from './CreateEventFromEmail';
+import { InvitationCard } from './InvitationCard';
+import { EmailBodyFrame } from './EmailBodyFrame';
+import AttachmentPreviewDialog from './AttachmentPreviewDialog';
+import {
+  attachmentToFile,
+  collectAttachments,
+  downloadAttachment,
+  getPreviewKind,
+  MessageAttachment,
+  resolveInlineImages,
+} from '@/lib/gmailAttachments';
+import { findCalendarPart } from '@/lib/icsParser';
+import {
+  allowRemoteContent,
+  EMPTY_ALLOWLIST,
+  fetchRemoteContentAllowlist,
+  isRemoteContentAllowed,
+  RemoteContentAllowlist,
+  RemoteContentScope,
+} from '@/lib/remoteContent';
+import { parseSender } from '@/lib/emailHelpers';
+import { isTokenExpiredError } from '@/lib/googleApiClient';
+import { DraftContent, loadDraftContent } from '@/lib/gmailDrafts';
+import { MessageSignature } from '@/lib/mimeBuilder';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { useUndoSend } from '@/hooks/useUndoSend';
+import { appendTemplateBody } from '@/lib/emailTemplates';
 import { Checkbox } from "@/components/ui/checkbox"
 
+type ReplyHeaders = Pick<MimeMessage, 'subject' | 'inReplyTo' | 'references'>;
+
+const REPLY_MODE_LABELS: Record<ReplyMode, string> = {
+  reply: 'Reply',
+  replyAll: 'Reply all',
+  forward: 'Forward',
+};
+
 const EmailView = () => {
   const { threadId } = useParams<{ threadId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const draftParam = searchParams.get('draft');
   const { user } = useAuth();
   const [threadData, setThreadData] = useState<GmailThread | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isReplying, setIsReplying] = useState(false);
+  const [replyMode, setReplyMode] = useState<ReplyMode>('reply');
+  const [replyTargetId, setReplyTargetId] = useState<string | null>(null);
+  const [replyHeaders, setReplyHeaders] = useState<ReplyHeaders | null>(null);
+  const [replyTo, setReplyTo] = useState('');
   const [replyBody, setReplyBody] = useState('');
+  const [replyCc, setReplyCc] = useState('');
+  const [replyBcc, setReplyBcc] = useState('');
+  const [showReplyCcBcc, setShowReplyCcBcc] = useState(false);
+  const [replyAttachments, setReplyAttachments] = useState<File[]>([]);
+  // undefined until the default reply signature has been filled in
+  const [replySignature, setReplySignature] = useState<MessageSignature | null | undefined>(undefined);
   const [expandedMessages, setExpandedMessages] = useState<Set<string>>(new Set());
   const { toast } = useToast();
   const [availableTags, setAvailableTags] = useState<{ id: string; name: string; type: string; color: string }[]>([]);
   const [emailTagIds, setEmailTagIds] = useState<string[]>([]);
+  const [previewAttachment, setPreviewAttachment] = useState<MessageAttachment | null>(null);
+  // Object URLs for inline (cid:) images, per message id and Content-ID
+  const [inlineImageUrls, setInlineImageUrls] = useState<Record<string, Record<string, string>>>({});
+  const requestedInlineImages = useRef<Set<string>>(new Set());
+  const createdObjectUrls = useRef<string[]>([]);
+  const [isLoadingDraft, setIsLoadingDraft] = useState(false);
+  const [isPreparingForward, setIsPreparingForward] = useState(false);
+  const [ownAddresses, setOwnAddresses] = useState<string[]>([]);
+  const [remoteAllowlist, setRemoteAllowlist] = useState<RemoteContentAllowlist>(EMPTY_ALLOWLIST);
+  const [snoozedUntil, setSnoozedUntil] = useState<Date | null>(null);
+  const [isSnoozing, setIsSnoozing] = useState(false);
+  // Set when the reply box holds a scheduled reply opened from the Scheduled view
+  const [replyScheduledFor, setReplyScheduledFor] = useState<Date | null>(null);
+  // What the reply box was pre-filled with; a draft is only created once the user changes it
+  const replyPrefill = useRef<Pick<DraftContent, 'to' | 'cc' | 'text'> & { attachmentCount: number }>({
+    to: '', cc: '', text: '', attachmentCount: 0,
+  });
+  const replyTextareaRef = useRef<HTMLTextAreaElement>(null);
+  // Attachments the last forward brought along, replaced when another message is forwarded
+  const forwardedFiles = useRef<File[]>([]);
+
+  const lastMessage = threadData?.messages[threadData.messages.length - 1];
+  const replyTarget = threadData?.messages.find(message => message.id === replyTargetId) ?? lastMessage;
+  const replyDraftContent: DraftContent = {
+    to: replyTo,
+    cc: replyCc,
+    bcc: replyBcc,
+    subject: replyHeaders?.subject ?? '',
+    text: replyBody,
+    attachments: replyAttachments,
+    inReplyTo: replyHeaders?.inReplyTo,
+    references: replyHeaders?.references,
+    signature: replySignature ?? null,
+  };
+  const isReplyUnchanged = (content: DraftContent): boolean => {
+    const prefill = replyPrefill.current;
+    return content.to === prefill.to && content.cc === prefill.cc && !content.bcc.trim()
+      && content.text === prefill.text && content.attachments.length === prefill.attachmentCount;
+  };
+  const autosave = useDraftAutosave({
+    content: replyDraftContent,
+    threadId,
+    enabled: !!replyHeaders && !isReplying && !isLoadingDraft && !isPreparingForward,
+    isEmpty: isReplyUnchanged,
+  });
+  const { load: adoptDraft, reset: resetDraft } = autosave;
+  const loadedDraftId = useRef<string | null>(null);
+  const sendWithUndo = useUndoSend();
+  const previousThreadId = useRef(threadId);
 
   useEffect(() => {
     const loadData = async () => {
@@ -54,12 +166,24 @@ const EmailView = () => {
       setError(null);
 
       try {
-        const fetchedThread = await fetchEmailThread(threadId);
+        const [thread, addresses] = await Promise.all([
+          fetchEmailThread(threadId),
+          // Only used to leave the user out of reply-all, so failing to load them is not fatal
+          getOwnAddresses(user.id).catch((): string[] => []),
+        ]);
+        setOwnAddresses(addresses);
+        // Unsent drafts in the thread are edited in the reply box, not shown as messages.
+        const fetchedThread = thread && {
+          ...thread,
+          messages: thread.messages.filter(message => !message.labelIds?.includes('DRAFT')),
+        };
         if (!fetchedThread || fetchedThread.messages.length === 0) {
           setError('Thread not found or empty.');
           return;
         }
         setThreadData(fetchedThread);
+        recordThreadHistoryId(user.id, threadId, fetchedThread.historyId)
+          .catch(err => console.warn(`Failed to record historyId for thread ${threadId}:`, err));
         setExpandedMessages(new Set([fetchedThread.messages[fetchedThread.messages.length - 1].id]));
 
         // Fetch tags
@@ -80,6 +204,13 @@ const EmailView = () => {
             if (!success) {
               console.warn(`Failed to mark message ${latestMessage.id} as read via API.`);
             }
+          }).catch(err => {
+            // Only the side effect failed; the thread stays readable
+            if (isTokenExpiredError(err)) {
+              navigate('/auth');
+              return;
+            }
+            toast({ title: "Couldn't mark as read", description: (err as Error).message, variant: 'destructive' });
           });
         }
 
@@ -92,8 +223,220 @@ const EmailView = () => {
     };
 
     loadData();
+  }, [threadId, user?.id, navigate, toast]);
+
+  // Snooze state. Opening a resurfaced thread takes it off the top of the list.
+  useEffect(() => {
+    if (!threadId || !user?.id) return;
+    const userId = user.id;
+    let cancelled = false;
+    setSnoozedUntil(null);
+    fetchThreadSnooze(userId, threadId)
+      .then(snooze => {
+        if (cancelled || !snooze) return;
+        if (snooze.resurfaced_at) {
+          dismissResurfacedThread(userId, threadId)
+            .catch(err => console.warn(`Failed to clear resurfaced thread ${threadId}:`, err));
+        } else {
+          setSnoozedUntil(new Date(snooze.snooze_until));
+        }
+      })
+      .catch(err => console.warn(`Failed to load snooze of thread ${threadId}:`, err));
+    return () => {
+      cancelled = true;
+    };
   }, [threadId, user?.id]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchRemoteContentAllowlist(user.id)
+      .then(setRemoteAllowlist)
+      .catch(err => console.warn('Failed to load the remote content allowlist:', err));
+  }, [user?.id]);
+
+  // Replies sent from the outbox (after the undo window, or scheduled) join the open thread
+  useEffect(() => {
+    if (!threadId) return;
+    const handleSent = (event: Event) => {
+      const message = (event as CustomEvent<ScheduledMessage>).detail;
+      if (message.thread_id !== threadId) return;
+      fetchEmailThread(threadId)
+        .then(thread => {
+          if (!thread) return;
+          const sentId = message.sent_message_id;
+          setThreadData({ ...thread, messages: thread.messages.filter(m => !m.labelIds?.includes('DRAFT')) });
+          if (sentId) setExpandedMessages(prev => new Set(prev).add(sentId));
+        })
+        .catch(err => console.warn(`Failed to reload thread ${threadId} after sending:`, err));
+    };
+    window.addEventListener('scheduledMessageSent', handleSent);
+    return () => window.removeEventListener('scheduledMessageSent', handleSent);
+  }, [threadId]);
+
+  // A different thread starts with an empty reply box and no draft. (Not done on unmount,
+  // where the autosave hook still needs the draft id for its final save.)
+  useEffect(() => {
+    if (previousThreadId.current && previousThreadId.current !== threadId) {
+      resetDraft();
+      loadedDraftId.current = null;
+      setReplyMode('reply');
+      setReplyTargetId(null);
+      setReplyHeaders(null);
+      setReplyTo('');
+      setReplyBody('');
+      setReplyCc('');
+      setReplyBcc('');
+      setShowReplyCcBcc(false);
+      setReplyAttachments([]);
+      setReplySignature(undefined);
+      setReplyScheduledFor(null);
+    }
+    previousThreadId.current = threadId;
+  }, [threadId, resetDraft]);
+
+  // The reply box starts out as a reply to the latest message
+  useEffect(() => {
+    if (!lastMessage || replyHeaders) return;
+    const { to, cc, ...headers } = buildReplyHeaders(lastMessage, 'reply', ownAddresses);
+    replyPrefill.current = { to, cc, text: '', attachmentCount: 0 };
+    setReplyTo(to);
+    setReplyCc(cc);
+    setReplyHeaders(headers);
+  }, [lastMessage, replyHeaders, ownAddresses]);
+
+  // Resume a reply draft opened from the Drafts view (?draft=<id>)
+  useEffect(() => {
+    if (!draftParam || !lastMessage || loadedDraftId.current === draftParam) return;
+    loadedDraftId.current = draftParam;
+    const controller = new AbortController();
+    let finished = false;
+
+    const loadReplyDraft = async () => {
+      setIsLoadingDraft(true);
+      try {
+        const [{ content }, scheduled] = await Promise.all([
+          loadDraftContent(draftParam, controller.signal),
+          user?.id ? fetchScheduledMessageForDraft(user.id, draftParam) : null,
+        ]);
+        if (controller.signal.aborted) return;
+        setReplyScheduledFor(
+          scheduled?.status === 'scheduled' || scheduled?.status === 'failed' ? new Date(scheduled.send_at) : null
+        );
+        setReplyMode(/^fwd:/i.test(content.subject) ? 'forward' : 'reply');
+        setReplyTargetId(null);
+        setReplyHeaders({ subject: content.subject, inReplyTo: content.inReplyTo, references: content.references });
+        setReplyTo(content.to);
+        setReplyBody(content.text);
+        setReplyCc(content.cc);
+        setReplyBcc(content.bcc);
+        setShowReplyCcBcc(!!(content.cc || content.bcc));
+        setReplyAttachments(content.attachments);
+        setReplySignature(content.signature ?? null);
+        adoptDraft(draftParam, content);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        loadedDraftId.current = null;
+        toast({ title: "Error loading draft", description: (err as Error).message, variant: "destructive" });
+      } finally {
+        finished = true;
+        if (!controller.signal.aborted) setIsLoadingDraft(false);
+      }
+    };
+    loadReplyDraft();
+
+    return () => {
+      controller.abort();
+      // Interrupted loads are retried on the next run
+      if (!finished) {
+        loadedDraftId.current = null;
+        setIsLoadingDraft(false);
+      }
+    };
+  }, [draftParam, lastMessage, user?.id, adoptDraft, toast]);
+
+  const clearDraftParam = () => {
+    if (!searchParams.has('draft')) return;
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('draft');
+      return next;
+    }, { replace: true });
+  };
+
+  // Release the previous thread's inline image URLs
+  useEffect(() => {
+    const requested = requestedInlineImages.current;
+    const created = createdObjectUrls.current;
+    return () => {
+      created.splice(0).forEach(url => URL.revokeObjectURL(url));
+      requested.clear();
+      setInlineImageUrls({});
+    };
+  }, [threadId]);
+
+  // Resolve cid: images for messages as they are expanded
+  useEffect(() => {
+    if (!threadData) return;
+    threadData.messages.forEach(message => {
+      if (!expandedMessages.has(message.id) || requestedInlineImages.current.has(message.id)) return;
+      const bodyPart = findBestBodyPart(message.payload);
+      const html = bodyPart ? decodeBase64Body(bodyPart.body.data) : '';
+      if (!/cid:/i.test(html)) return;
+
+      requestedInlineImages.current.add(message.id);
+      resolveInlineImages(html, collectAttachments(message.id, message.payload)).then(urls => {
+        // The thread may have changed while the images were loading
+        if (!requestedInlineImages.current.has(message.id)) {
+          Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+          return;
+        }
+        createdObjectUrls.current.push(...Object.values(urls));
+        setInlineImageUrls(prev => ({ ...prev, [message.id]: urls }));
+      });
+    });
+  }, [threadData, expandedMessages]);
+
+  const handleDownloadAttachment = async (attachment: MessageAttachment) => {
+    try {
+      await downloadAttachment(attachment);
+    } catch (err) {
+      toast({ title: "Download failed", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleSnooze = async (until: Date) => {
+    if (!threadId || !threadData || !user?.id) return;
+    setIsSnoozing(true);
+    try {
+      await snoozeThread(user.id, threadId, until);
+      // Keep the local store in step so the list doesn't wait for the next sync
+      applyLocalLabelChange(user.id, threadData.messages.map(m => m.id), [], ['INBOX'])
+        .catch(err => console.warn('Failed to apply snooze to the mail store:', err));
+      toast({ title: "Conversation snoozed", description: `Until ${formatSnoozeTime(until)}` });
+      navigate('/emails');
+    } catch (err) {
+      toast({ title: "Error snoozing conversation", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsSnoozing(false);
+    }
+  };
+
+  const handleUnsnooze = async () => {
+    if (!threadId || !threadData || !user?.id) return;
+    setIsSnoozing(true);
+    try {
+      await unsnoozeThread(user.id, threadId);
+      applyLocalLabelChange(user.id, threadData.messages.map(m => m.id), ['INBOX'], [])
+        .catch(err => console.warn('Failed to apply unsnooze to the mail store:', err));
+      setSnoozedUntil(null);
+      toast({ title: "Conversation moved back to the inbox" });
+    } catch (err) {
+      toast({ title: "Error unsnoozing conversation", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsSnoozing(false);
+    }
+  };
+
   const handleTagToggle = async (tagId: string) => {
     if (!threadData || !user?.id || threadData.messages.length === 0) return;
 
@@ -121,39 +464,133 @@ const EmailView = () => {
     }
   };
 
-  const handleSendReply = async () => {
-    if (!threadData || !replyBody.trim() || !user?.id || threadData.messages.length === 0) return;
-
-    setIsReplying(true);
-    const originalReplyBody = replyBody;
-    const lastMessage = threadData.messages[threadData.messages.length - 1];
-
+  // Back to an empty reply to the latest message (the init effect fills in the recipients)
+  const resetReplyBox = () => {
+    setReplyMode('reply');
+    setReplyTargetId(null);
+    setReplyHeaders(null);
+    setReplyTo('');
     setReplyBody('');
+    setReplyCc('');
+    setReplyBcc('');
+    setShowReplyCcBcc(false);
+    setReplyAttachments([]);
+    forwardedFiles.current = [];
+    setReplySignature(undefined);
+    setReplyScheduledFor(null);
+  };
 
-    try {
-      const sentMessage = await sendReply(threadId, originalReplyBody, lastMessage);
-
-      if (sentMessage) {
-         setThreadData(prevThread => {
-           if (!prevThread) return null;
-           const messageToAdd = { ...sentMessage, payload: sentMessage.payload || lastMessage.payload };
-           return { ...prevThread, messages: [...prevThread.messages, messageToAdd] };
-         });
-         setExpandedMessages(prev => new Set(prev).add(sentMessage.id));
-         toast({ title: "Reply sent" });
-      } else {
-          throw new Error("API did not return sent message details.");
+  const startReply = async (mode: ReplyMode, message: GmailThreadMessage) => {
+    if (mode === replyMode && message.id === replyTarget?.id) {
+      replyTextareaRef.current?.focus();
+      return;
+    }
+
+    if (mode === 'forward') {
+      setIsPreparingForward(true);
+      try {
+        const { text, ...headers } = buildForwardContent(message);
+        // The original's attachments go along as regular attachments the user can still remove
+        const files = await Promise.all(
+          collectAttachments(message.id, message.payload)
+            .filter(att => !att.inline)
+            .map(att => attachmentToFile(att))
+        );
+        // What the user wrote stays; a message forwarded before is swapped for this one
+        const dividerIndex = replyBody.indexOf(FORWARD_DIVIDER);
+        const ownText = dividerIndex === -1 ? replyBody : replyBody.slice(0, dividerIndex);
+        const body = `${ownText.trimEnd()}${text}`;
+        const keptAttachments = replyAttachments.filter(file => !forwardedFiles.current.includes(file));
+        forwardedFiles.current = files;
+        replyPrefill.current = { to: '', cc: '', text: body, attachmentCount: keptAttachments.length + files.length };
+        setReplyTo('');
+        setReplyCc('');
+        setReplyBody(body);
+        setReplyAttachments([...keptAttachments, ...files]);
+        setReplyHeaders(headers);
+      } catch (err) {
+        toast({ title: "Error preparing forward", description: (err as Error).message, variant: "destructive" });
+        return;
+      } finally {
+        setIsPreparingForward(false);
       }
+    } else {
+      const { to, cc, ...headers } = buildReplyHeaders(message, mode, ownAddresses);
+      replyPrefill.current = { to, cc, text: '', attachmentCount: 0 };
+      setReplyTo(to);
+      setReplyCc(cc);
+      if (cc) setShowReplyCcBcc(true);
+      setReplyHeaders(headers);
+    }
+    setReplyMode(mode);
+    setReplyTargetId(message.id);
+    replyTextareaRef.current?.focus();
+  };
+
+  const handleSendReply = async () => {
+    if (!threadData || !replyHeaders || !replyBody.trim() || !replyTo.trim() || !user?.id || threadData.messages.length === 0) return;
 
+    setIsReplying(true);
+    try {
+      // The reply goes out from its draft once the undo window has passed (a scheduled
+      // reply is simply moved up); undoing brings the draft back into the reply box.
+      const savedDraftId = await autosave.persist();
+      await sendWithUndo(
+        user.id,
+        { draftId: savedDraftId, threadId, recipients: replyTo, subject: replyHeaders.subject },
+        () => navigate(`/emails/thread/${threadId}?draft=${encodeURIComponent(savedDraftId)}`)
+      );
+      resetDraft();
+      loadedDraftId.current = null;
+      clearDraftParam();
+      resetReplyBox();
     } catch (err: any) {
       console.error("Failed to send reply:", err);
-      setReplyBody(originalReplyBody);
       toast({ title: "Error sending reply", description: err.message, variant: "destructive" });
     } finally {
         setIsReplying(false);
     }
   };
 
+  const handleScheduleReply = async (sendAt: Date) => {
+    if (!replyHeaders || !replyBody.trim() || !replyTo.trim() || !user?.id) return;
+
+    setIsReplying(true);
+    try {
+      // The outbox sends the draft itself, so it has to hold exactly what is on screen
+      const savedDraftId = await autosave.persist();
+      await scheduleMessage(
+        user.id,
+        { draftId: savedDraftId, threadId, recipients: replyTo, subject: replyHeaders.subject },
+        sendAt
+      );
+      resetDraft();
+      clearDraftParam();
+      resetReplyBox();
+      toast({ title: "Reply scheduled", description: `It will be sent ${formatSnoozeTime(sendAt)}.` });
+    } catch (err) {
+      console.error("Failed to schedule reply:", err);
+      toast({ title: "Error scheduling reply", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsReplying(false);
+    }
+  };
+
+  const handleDiscardReply = async () => {
+    try {
+      const discardedDraftId = await autosave.settle();
+      await autosave.discard();
+      if (replyScheduledFor && discardedDraftId && user?.id) {
+        await cancelScheduledMessage(user.id, discardedDraftId);
+      }
+      resetReplyBox();
+      clearDraftParam();
+      toast({ title: "Draft discarded" });
+    } catch (err) {
+      toast({ title: "Error discarding draft", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
   const toggleMessageExpansion = (messageId: string) => {
     setExpandedMessages(prev => {
       const newSet = new Set(prev);
@@ -166,41 +603,19 @@ const EmailView = () => {
     });
   };
 
-  const createSanitizedMarkup = (htmlString: string | undefined) => {
-    if (!htmlString) return { __html: '' };
-
-    let sanitizedHtml = DOMPurify.sanitize(htmlString, {
-      ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'style'],
-    });
-
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(sanitizedHtml, 'text/html');
-
-    const elements = doc.body.querySelectorAll('*');
-    elements.forEach((el) => {
-      const style = el.getAttribute('style');
-      if (style) {
-        let cleanedStyle = style;
-
-        // Remove various black color formats (black, #000, #000000, rgb(0,0,0), rgba(0,0,0,1))
-        cleanedStyle = cleanedStyle.replace(/color\s*:\s*(black|#000000|#000|rgb\(0\s*,\s*0\s*,\s*0\s*\)|rgba\(0\s*,\s*0\s*,\s*0\s*,\s*1\s*\))\s*;?/gi, '');
-
-        // Remove background and background-color
-        cleanedStyle = cleanedStyle.replace(/background(?:-color)?\s*:\s*[^;]+;?/gi, '');
-
-        // Optionally, remove font-family or size that break consistency
-        // cleanedStyle = cleanedStyle.replace(/font-family\s*:\s*[^;]+;?/gi, '');
-
-        // If cleanedStyle is empty after cleaning, remove style attribute
-        if (cleanedStyle.trim() === '') {
-          el.removeAttribute('style');
-        } else {
-          el.setAttribute('style', cleanedStyle);
-        }
-      }
-    });
-
-    return { __html: doc.body.innerHTML };
+  // Shows remote images in the message from now on, or in everything from its sender
+  const handleAllowRemoteContent = async (scope: RemoteContentScope, value: string) => {
+    if (!user?.id) return;
+    const previous = remoteAllowlist;
+    const next = { messageIds: new Set(previous.messageIds), senders: new Set(previous.senders) };
+    (scope === 'sender' ? next.senders : next.messageIds).add(scope === 'sender' ? value.toLowerCase() : value);
+    setRemoteAllowlist(next);
+    try {
+      await allowRemoteContent(user.id, scope, value);
+    } catch (err) {
+      setRemoteAllowlist(previous);
+      toast({ title: 'Could not save the image setting', description: (err as Error).message, variant: 'destructive' });
+    }
   };
 
   if (isLoading) {
@@ -224,41 +639,51 @@ const EmailView = () => {
       {/* Header: Subject & Tags */}
       <div className="flex justify-between items-start mb-4 pb-4 border-b">
         <h1 className="text-xl md:text-2xl font-bold mr-4">{threadData.messages[0] ? getHeaderValue(threadData.messages[0].payload.headers, 'Subject') : 'No Subject'}</h1>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline" size="sm">
-              <Tag className="mr-2 h-4 w-4" /> Tags ({emailTagIds.length})
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="max-h-60 overflow-y-auto">
-            {availableTags.length === 0 ? (
-              <DropdownMenuItem disabled>No tags available</DropdownMenuItem>
-            ) : (
-              availableTags.map(tag => (
-                <DropdownMenuItem key={tag.id} className="flex justify-between" onSelect={(e) => e.preventDefault()}> {/* Prevent closing on select */}
-                  <label htmlFor={`tag-${tag.id}`} className="flex items-center justify-between w-full p-0 cursor-pointer"> {/* Added cursor-pointer */}
-                    <span className="flex items-center">
-                      <span
-                        className="inline-block w-3 h-3 mr-2 rounded-full"
-                        style={{ backgroundColor: tag.color }}
-                      ></span>
-                      {tag.name} ({tag.type})
-                    </span>
-                    <Checkbox
-                      id={`tag-${tag.id}`}
-                      checked={emailTagIds.includes(tag.id)}
-                      onCheckedChange={() => handleTagToggle(tag.id)}
-                      className="ml-2"
-                      aria-label={`Tag email with ${tag.name}`}
-                      />
-                  </label>
-                </DropdownMenuItem>
-              ))
-            )}
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {threadId && (
+            <CreateEventFromEmail threadId={threadId} thread={threadData} ownAddresses={ownAddresses} tagIds={emailTagIds} />
+          )}
+          <SnoozeMenu snoozedUntil={snoozedUntil} onSnooze={handleSnooze} onUnsnooze={handleUnsnooze} isBusy={isSnoozing} />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Tag className="mr-2 h-4 w-4" /> Tags ({emailTagIds.length})
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-60 overflow-y-auto">
+              {availableTags.length === 0 ? (
+                <DropdownMenuItem disabled>No tags available</DropdownMenuItem>
+              ) : (
+                availableTags.map(tag => (
+                  <DropdownMenuItem key={tag.id} className="flex justify-between" onSelect={(e) => e.preventDefault()}> {/* Prevent closing on select */}
+                    <label htmlFor={`tag-${tag.id}`} className="flex items-center justify-between w-full p-0 cursor-pointer"> {/* Added cursor-pointer */}
+                      <span className="flex items-center">
+                        <span
+                          className="inline-block w-3 h-3 mr-2 rounded-full"
+                          style={{ backgroundColor: tag.color }}
+                        ></span>
+                        {tag.name} ({tag.type})
+                      </span>
+                      <Checkbox
+                        id={`tag-${tag.id}`}
+                        checked={emailTagIds.includes(tag.id)}
+                        onCheckedChange={() => handleTagToggle(tag.id)}
+                        className="ml-2"
+                        aria-label={`Tag email with ${tag.name}`}
+                        />
+                    </label>
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
 
+      {threadId && user?.id && (
+        <ThreadTimelineCards userId={user.id} threadId={threadId} thread={threadData} tagIds={emailTagIds} />
+      )}
+
       {/* Messages List (Scrollable) */}
       <div className="flex-grow overflow-y-auto mb-4 -mr-2 pr-2 bg-background">
         {threadData.messages.map((message, index) => {
@@ -273,7 +698,9 @@ const EmailView = () => {
           const bodyContent = bodyPart ? decodeBase64Body(bodyPart.body.data) : '';
           console.log("Email body content:", bodyContent); // Add this line to inspect content
 
-          const attachments = message.payload.parts?.filter(part => part.filename && part.body.attachmentId) ?? [];
+          const attachments = collectAttachments(message.id, message.payload).filter(att => !att.inline);
+          const calendarPart = findCalendarPart(message.payload);
+          const senderAddress = parseSender(fromInfo).address;
 
           const isExpanded = expandedMessages.has(message.id);
 
@@ -310,27 +737,71 @@ const EmailView = () => {
               {/* Message Body & Attachments (Conditional Render) */}
               {isExpanded && (
                 <div className="p-4 border-t dark:text-foreground"> {/* Added dark:text-foreground here */}
-                   <div className="text-xs text-muted-foreground mb-3">
-                     <div><span className="font-medium text-foreground">From:</span> {fromInfo}</div>
-                     <div><span className="font-medium text-foreground">To:</span> {toInfo}</div>
-                     {ccInfo && <div><span className="font-medium text-foreground">Cc:</span> {ccInfo}</div>}
-                     <div><span className="font-medium text-foreground">Date:</span> {dateObj.toLocaleString()}</div>
+                   <div className="flex justify-between items-start gap-2 mb-3">
+                     <div className="text-xs text-muted-foreground min-w-0">
+                       <div><span className="font-medium text-foreground">From:</span> {fromInfo}</div>
+                       <div><span className="font-medium text-foreground">To:</span> {toInfo}</div>
+                       {ccInfo && <div><span className="font-medium text-foreground">Cc:</span> {ccInfo}</div>}
+                       <div><span className="font-medium text-foreground">Date:</span> {dateObj.toLocaleString()}</div>
+                     </div>
+                     <div className="flex flex-shrink-0">
+                       {(['reply', 'replyAll', 'forward'] as const).map(mode => {
+                         const Icon = mode === 'reply' ? Reply : mode === 'replyAll' ? ReplyAll : Forward;
+                         return (
+                           <TooltipProvider key={mode} delayDuration={100}>
+                             <Tooltip>
+                               <TooltipTrigger asChild>
+                                 <Button
+                                   variant="ghost"
+                                   size="icon"
+                                   className="h-8 w-8"
+                                   onClick={() => startReply(mode, message)}
+                                   disabled={isReplying || isPreparingForward || isLoadingDraft}
+                                   aria-label={REPLY_MODE_LABELS[mode]}
+                                 >
+                                   <Icon className="h-4 w-4" />
+                                 </Button>
+                               </TooltipTrigger>
+                               <TooltipContent>{REPLY_MODE_LABELS[mode]}</TooltipContent>
+                             </Tooltip>
+                           </TooltipProvider>
+                         );
+                       })}
+                     </div>
                    </div>
-                  <div className="max-w-none email-body-content"> {/* Added wrapper div */}
-                    <div
-                      dangerouslySetInnerHTML={createSanitizedMarkup(bodyContent)}
-                    />
-                  </div> {/* Closed wrapper div */}
+                  {calendarPart && user?.id && (
+                    <InvitationCard userId={user.id} messageId={message.id} part={calendarPart} ownAddresses={ownAddresses} />
+                  )}
+                  <EmailBodyFrame
+                    content={bodyContent}
+                    isPlainText={bodyPart?.mimeType === 'text/plain'}
+                    cidUrls={inlineImageUrls[message.id]}
+                    allowRemote={isRemoteContentAllowed(remoteAllowlist, message.id, senderAddress)}
+                    onAllowMessage={() => handleAllowRemoteContent('message', message.id)}
+                    onAllowSender={senderAddress ? () => handleAllowRemoteContent('sender', senderAddress) : undefined}
+                  />
                   {attachments.length > 0 && (
                     <div className="mt-4 border-t pt-3">
                       <span className="text-sm font-semibold text-foreground">Attachments:</span>
                       <ul className="mt-1 space-y-1">
                         {attachments.map(att => (
-                          <li key={att.partId} className="text-sm">
-                            <Button variant="link" size="sm" className="p-0 h-auto">
+                          <li key={att.partId} className="text-sm flex items-center">
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="p-0 h-auto"
+                              onClick={() => getPreviewKind(att) ? setPreviewAttachment(att) : handleDownloadAttachment(att)}
+                            >
                               <Paperclip className="h-3 w-3 mr-1" />
-                              {att.filename} ({(att.body.size / 1024).toFixed(1)} KB)
-                              {/* TODO: Add actual download link/handler using attachmentId */}
+                              {att.filename} ({(att.size / 1024).toFixed(1)} KB)
+                            </Button>
+                            {getPreviewKind(att) && (
+                              <Button variant="ghost" size="icon" className="h-6 w-6 ml-1" onClick={() => setPreviewAttachment(att)} aria-label={`Preview ${att.filename}`}>
+                                <Eye className="h-3 w-3" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDownloadAttachment(att)} aria-label={`Download ${att.filename}`}>
+                              <Download className="h-3 w-3" />
                             </Button>
                           </li>
                         ))}
@@ -346,25 +817,109 @@ const EmailView = () => {
 
       {/* Reply Box */}
       <div className="flex-shrink-0 border-t pt-4">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-sm font-medium whitespace-nowrap">
+            {REPLY_MODE_LABELS[replyMode]}
+            {replyTarget && replyMode !== 'forward' && (
+              <span className="font-normal text-muted-foreground"> to {getHeaderValue(replyTarget.payload.headers, 'From')}</span>
+            )}
+          </span>
+          {isPreparingForward && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <Input
+          placeholder="To"
+          value={replyTo}
+          onChange={(e) => setReplyTo(e.target.value)}
+          disabled={isReplying || isLoadingDraft}
+          className="mb-2"
+        />
+        {showReplyCcBcc && (
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <Input
+              placeholder="Cc"
+              value={replyCc}
+              onChange={(e) => setReplyCc(e.target.value)}
+              disabled={isReplying}
+            />
+            <Input
+              placeholder="Bcc"
+              value={replyBcc}
+              onChange={(e) => setReplyBcc(e.target.value)}
+              disabled={isReplying}
+            />
+          </div>
+        )}
         <Textarea
-          placeholder="Write your reply..."
+          ref={replyTextareaRef}
+          placeholder={isLoadingDraft ? "Loading draft..." : "Write your reply..."}
           value={replyBody}
           onChange={(e) => setReplyBody(e.target.value)}
           rows={4}
           className="mb-2"
-          disabled={isReplying}
+          disabled={isReplying || isLoadingDraft}
         />
-        <div className="flex justify-end">
-          <Button onClick={handleSendReply} disabled={!replyBody.trim() || isReplying}>
-             {isReplying ? (
-                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-             ) : (
-                 <Send className="mr-2 h-4 w-4" />
-             )}
-              Send Reply
-          </Button>
+        {user?.id && (
+          <SignatureEditor
+            userId={user.id}
+            kind="reply"
+            value={replySignature}
+            onChange={setReplySignature}
+            disabled={isReplying || isLoadingDraft}
+            className="mb-2"
+          />
+        )}
+        <div className="flex justify-between items-start">
+          <div className="flex items-start gap-2">
+            <ComposeAttachments files={replyAttachments} onChange={setReplyAttachments} disabled={isReplying} />
+            {user?.id && (
+              <TemplatePicker
+                userId={user.id}
+                context={{
+                  from: replyTarget && getHeaderValue(replyTarget.payload.headers, 'From'),
+                  subject: replyTarget && getHeaderValue(replyTarget.payload.headers, 'Subject'),
+                }}
+                onInsert={(filled) => setReplyBody(prev => appendTemplateBody(prev, filled.body))}
+                disabled={isReplying || isLoadingDraft}
+              />
+            )}
+            {!showReplyCcBcc && (
+              <Button variant="ghost" size="sm" onClick={() => setShowReplyCcBcc(true)} disabled={isReplying}>
+                Cc/Bcc
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {replyScheduledFor && (
+              <span className="text-xs text-muted-foreground">Scheduled for {formatSnoozeTime(replyScheduledFor)}</span>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {autosave.status === 'saving' && 'Saving draft...'}
+              {autosave.status === 'saved' && 'Draft saved'}
+              {autosave.status === 'error' && 'Could not save draft'}
+            </span>
+            {autosave.draftId && (
+              <Button variant="ghost" size="sm" onClick={handleDiscardReply} disabled={isReplying}>
+                <Trash2 className="mr-2 h-4 w-4" /> Discard
+              </Button>
+            )}
+            <ScheduleSendMenu
+              scheduledFor={replyScheduledFor}
+              onSchedule={handleScheduleReply}
+              disabled={!replyBody.trim() || !replyTo.trim() || isReplying || isLoadingDraft || isPreparingForward}
+            />
+            <Button onClick={handleSendReply} disabled={!replyBody.trim() || !replyTo.trim() || isReplying || isLoadingDraft || isPreparingForward}>
+               {isReplying ? (
+                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+               ) : (
+                   <Send className="mr-2 h-4 w-4" />
+               )}
+                {replyScheduledFor ? 'Send Now' : replyMode === 'forward' ? 'Forward' : 'Send Reply'}
+            </Button>
+          </div>
         </div>
       </div>
+
+      <AttachmentPreviewDialog attachment={previewAttachment} onClose={() => setPreviewAttachment(null)} />
     </div>
   );
 };
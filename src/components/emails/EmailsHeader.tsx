@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { Search, Plus, RefreshCcw, ArrowLeft, Tag, Loader2 } from 'lucide-react'; 
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Search, Plus, RefreshCcw, ArrowLeft, Tag, Loader2, Settings, ListFilter } from 'lucide-react'; 
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,7 +18,11 @@ import { useAuth } from '@/components/providers/AuthProvider';
 import { fetchTags } from '@/lib/supabaseClient'; 
 import { CardTag } from '@/lib/cardApi'; 
 import { FilterMode } from '@/lib/tagFiltering';
+import { AdvancedSearch, buildGmailQuery, readAdvancedSearch, writeAdvancedSearch } from '@/lib/gmailSearch';
 import ComposeEmailDialog from './ComposeEmailDialog';
+import MailSettingsDialog from './MailSettingsDialog';
+import MailRulesDialog from './MailRulesDialog';
+import { AdvancedSearchPanel } from './AdvancedSearchPanel';
 interface EmailsHeaderProps {
   isViewingThread: boolean;
   isTagView: boolean; 
@@ -36,6 +40,21 @@ const EmailsHeader = ({ isViewingThread, isTagView }: EmailsHeaderProps) => {
   const initialMode = (searchParams.get('mode') as FilterMode) || 'any';
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(initialTags);
   const [filterMode, setFilterMode] = useState<FilterMode>(initialMode);
+  const currentSearch = useMemo(() => readAdvancedSearch(searchParams), [searchParams]);
+  const hasSearch = !!buildGmailQuery(currentSearch);
+  // Standalone drafts opened from the Drafts tab (reply drafts open in EmailView instead)
+  const draftParam = isViewingThread ? null : searchParams.get('draft');
+  // ?compose opens a new email, e.g. from the command palette
+  const composeParam = !isViewingThread && searchParams.has('compose');
+
+  const handleDraftClosed = useCallback(() => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('draft');
+      next.delete('compose');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
 
   // Effect to sync input with URL search param 'q'
   useEffect(() => {
@@ -101,15 +120,18 @@ const EmailsHeader = ({ isViewingThread, isTagView }: EmailsHeaderProps) => {
     setSearchTerm(event.target.value);
   };
 
+  // Searches get a new history entry so they can be navigated back to and shared
+  const runSearch = (search: AdvancedSearch) => {
+    setSelectedTagIds(search.tagIds);
+    setFilterMode(search.tagMode);
+    const params = writeAdvancedSearch(new URLSearchParams(), search).toString();
+    navigate(params ? `/emails?${params}` : '/emails');
+  };
+
   const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter') {
-      const trimmedSearch = searchTerm.trim();
-      if (trimmedSearch) {
-        navigate(`/emails?q=${encodeURIComponent(trimmedSearch)}`);
-      } else {
-        // If search is cleared, navigate back to base emails page
-        navigate('/emails');
-      }
+      // The box edits the free text; fields set in the advanced panel are kept
+      runSearch({ ...currentSearch, text: searchTerm });
     }
   };
   return (
@@ -137,8 +159,20 @@ const EmailsHeader = ({ isViewingThread, isTagView }: EmailsHeaderProps) => {
           >
             <RefreshCcw className="h-4 w-4" />
           </Button>
+
+          <MailRulesDialog>
+            <Button variant="ghost" size="icon" className="text-gray-500" title="Mail rules">
+              <ListFilter className="h-4 w-4" />
+            </Button>
+          </MailRulesDialog>
+
+          <MailSettingsDialog>
+            <Button variant="ghost" size="icon" className="text-gray-500" title="Mail settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+          </MailSettingsDialog>
           
-          <ComposeEmailDialog>
+          <ComposeEmailDialog draftId={draftParam} openBlank={composeParam} onDraftClosed={handleDraftClosed}>
             <Button className="bg-purple hover:bg-purple/90">
               <Plus className="mr-2 h-4 w-4" /> Compose
             </Button>
@@ -158,7 +192,8 @@ const EmailsHeader = ({ isViewingThread, isTagView }: EmailsHeaderProps) => {
               onKeyDown={handleSearchKeyDown}
             />
           </div>
-          {searchParams.get('q') && (
+          <AdvancedSearchPanel search={currentSearch} availableTags={availableTags} onSearch={runSearch} />
+          {hasSearch && (
             <Button
               variant="outline" 
               size="sm" 
@@ -2,7 +2,6 @@ import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useNavigate, useSearchParams, useParams } from 'react-router-dom';
 import {
   fetchEmailMetadataPage,
-  fetchFullEmailDetails,
   fetchSupabaseEmailData,
   updateSupabaseEmail,
   SupabaseEmailData,
@@ -10,22 +9,52 @@ import {
   fetchEmailIdsAndThreadIdsByTag,
   TaggedEmailIdentifier,
   searchGmailMessages,
+  searchFilteredMessages,
   fetchTags,
   addTagToEmail,
   removeTagFromEmail,
   fetchImportantEmailMetadataPage, 
-  markEmailStarred
+  markEmailStarred,
+  batchModifyMessages,
+  setEmailsStarred,
+  addTagToEmails,
+  removeTagFromEmails,
+  estimateMatchingMessages,
+  listAllMessageIds,
+  BulkActionOptions,
+  LabelChange,
+  MessageListQuery,
+  fetchThreadListPage,
+  fetchThreadsMetadata,
+  summarizeThread,
+  GmailThreadMetadata,
+  ThreadSummary,
+  getOwnAddresses,
+  fetchUserSettings,
+  updateUserSettings,
+  DEFAULT_USER_SETTINGS,
+  MailListMode,
 } from '@/lib/supabaseClient';
-import { fetchEmailsByTags, FilterMode, Email as FilteredEmailType } from '@/lib/tagFiltering'; 
+import { fetchEmailIdsByTags, fetchEmailsByTags, FilterMode, Email as FilteredEmailType } from '@/lib/tagFiltering'; 
+import { buildGmailQuery, readAdvancedSearch } from '@/lib/gmailSearch';
+import { isAbortError, isTokenExpiredError } from '@/lib/googleApiClient';
+import { applyLocalLabelChange, getMessageDetails, readMailStorePage } from '@/lib/mailSync';
+import { isMailStoreSupported } from '@/lib/mailStore';
 import { useAuth } from '@/components/providers/AuthProvider';
+import { useMailSync } from '@/hooks/useMailSync';
+import { listDrafts } from '@/lib/gmailDrafts';
+import { fetchSnoozedThreads, formatSnoozeTime } from '@/lib/snooze';
+import { fetchScheduledMessages, ScheduledMessage } from '@/lib/outbox';
 import { EmailListItem } from './EmailListItem'; 
+import { EmailListToolbar } from './EmailListToolbar';
+import { BulkAction, BulkActionBar } from './BulkActionBar';
 import { Star, Loader2, Tag, ExternalLink } from 'lucide-react';
-import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Checkbox } from '@/components/ui/checkbox';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 import { useToast } from '@/components/ui/use-toast';
+import { Progress } from '@/components/ui/progress';
 import { PaginationControls } from './PaginationControls';
+import { ScheduledMessagesList } from './ScheduledMessagesList';
+import { SubscriptionsList } from './SubscriptionsList';
 
 // --- Types ---
 interface EmailItem {
@@ -40,65 +69,10 @@ interface EmailItem {
   read: boolean;
   starred: boolean;
   tags: { id: string; name: string; color: string; type: string }[];
+  draft?: { id: string; isReply: boolean };
+  thread?: { messageIds: string[]; messageCount: number };
 }
 
-// --- Helper Components ---
-
-const EmailListToolbar = ({
-  activeTab,
-  onTabChange,
-  selectAll,
-  onSelectAll,
-  isLoading,
-  hasEmails,
-}: {
-  activeTab: string;
-  onTabChange: (value: string) => void;
-  selectAll: boolean;
-  onSelectAll: (checked: boolean) => void;
-  isLoading: boolean;
-  hasEmails: boolean;
-}) => {
-  return (
-    <div className="mb-4 bg-background sticky top-0 z-10 pb-2 border-b dark:border-muted">
-      <div className="flex items-center space-x-2 mb-4 px-4 pt-2">
-        <TooltipProvider delayDuration={100}>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Checkbox
-                checked={selectAll}
-                onCheckedChange={(checked) => onSelectAll(!!checked)}
-                disabled={isLoading || !hasEmails}
-                aria-label="Select all emails on current page"
-              />
-            </TooltipTrigger>
-            <TooltipContent>Select all</TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-      </div>
-
-      <Tabs value={activeTab} onValueChange={onTabChange} className="w-full px-4">
-        <TabsList className="grid grid-cols-4 w-fit"> {/* Updated grid columns */}
-          <TabsTrigger value="all" disabled={isLoading}>
-            All
-          </TabsTrigger>
-          <TabsTrigger value="unread" disabled={isLoading}>
-            Unread
-          </TabsTrigger>
-          <TabsTrigger value="starred" disabled={isLoading}>
-            Starred
-          </TabsTrigger>
-          <TabsTrigger value="important" disabled={isLoading}> {/* Added Important tab */}
-            Important
-          </TabsTrigger>
-        </TabsList>
-      </Tabs>
-    </div>
-  );
-};
-
-
-
 // --- Helper Functions ---
 const parseSender = (fromHeader: string): { name: string; address: string } => {
   if (!fromHeader) return { name: 'Unknown Sender', address: '' };
@@ -141,10 +115,110 @@ const getHeader = (headers: { name: string; value: string }[], name: string): st
   return header ? header.value : '';
 };
 
+// A conversation row stands in for its latest message; tags are the union over the thread.
+const MAX_LISTED_PARTICIPANTS = 3;
+
+const toConversationItem = (thread: ThreadSummary, supabaseMap: Map<string, SupabaseEmailData>): EmailItem => {
+  const tags = new Map<string, EmailItem['tags'][number]>();
+  let starred = thread.starred;
+  thread.messageIds.forEach(id => {
+    const supabaseDetail = supabaseMap.get(id);
+    supabaseDetail?.tags?.forEach(tag => tags.set(tag.id, tag));
+    if (supabaseDetail?.is_starred) starred = true;
+  });
+  const participants = thread.participants.length > MAX_LISTED_PARTICIPANTS
+    ? `${thread.participants.slice(0, MAX_LISTED_PARTICIPANTS).join(', ')}, …`
+    : thread.participants.join(', ');
+  return {
+    id: thread.latestMessageId,
+    threadId: thread.id,
+    subject: thread.subject || '(No Subject)',
+    sender: participants || 'Unknown Sender',
+    senderAddress: '',
+    excerpt: thread.snippet,
+    date: formatDate(thread.date),
+    dateObj: thread.date,
+    read: !thread.unread,
+    starred,
+    tags: Array.from(tags.values()),
+    thread: { messageIds: thread.messageIds, messageCount: thread.messageCount },
+  };
+};
+
+/** Conversation rows for the given threads, with tags and stars from Supabase. */
+const loadConversationItems = async (userId: string, threads: GmailThreadMetadata[]): Promise<EmailItem[]> => {
+  const ownAddresses = await getOwnAddresses(userId).catch((): string[] => []);
+  const summaries = threads.map(thread => summarizeThread(thread, ownAddresses));
+  const supabaseData = await fetchSupabaseEmailData(userId, summaries.flatMap(thread => thread.messageIds));
+  const supabaseMap = new Map<string, SupabaseEmailData>(supabaseData.map((d) => [d.email_id, d]));
+  return summaries.map(thread => toConversationItem(thread, supabaseMap));
+};
+
+// --- Bulk Actions ---
+// `patch` is the optimistic change to a listed email; null removes it from the list.
+interface BulkUpdateText {
+  progress: (count: string) => string;
+  done: (count: string) => string;
+}
+
+const BULK_ACTIONS: Record<BulkAction, BulkUpdateText & {
+  labels: LabelChange;
+  patch: (email: EmailItem) => EmailItem | null;
+}> = {
+  archive: {
+    progress: (count) => `Archiving ${count}`,
+    done: (count) => `Archived ${count}`,
+    labels: { removeLabelIds: ['INBOX'] },
+    patch: (email) => email,
+  },
+  trash: {
+    progress: (count) => `Moving ${count} to Trash`,
+    done: (count) => `Moved ${count} to Trash`,
+    labels: { addLabelIds: ['TRASH'] },
+    patch: () => null,
+  },
+  markRead: {
+    progress: (count) => `Marking ${count} as read`,
+    done: (count) => `Marked ${count} as read`,
+    labels: { removeLabelIds: ['UNREAD'] },
+    patch: (email) => ({ ...email, read: true }),
+  },
+  markUnread: {
+    progress: (count) => `Marking ${count} as unread`,
+    done: (count) => `Marked ${count} as unread`,
+    labels: { addLabelIds: ['UNREAD'] },
+    patch: (email) => ({ ...email, read: false }),
+  },
+  star: {
+    progress: (count) => `Starring ${count}`,
+    done: (count) => `Starred ${count}`,
+    labels: { addLabelIds: ['STARRED'] },
+    patch: (email) => ({ ...email, starred: true }),
+  },
+  unstar: {
+    progress: (count) => `Unstarring ${count}`,
+    done: (count) => `Unstarred ${count}`,
+    labels: { removeLabelIds: ['STARRED'] },
+    patch: (email) => ({ ...email, starred: false }),
+  },
+};
+
+// Gmail labels matching each paginated tab, for "select all matching"
+const TAB_LABEL_IDS: Record<string, string[] | undefined> = {
+  all: undefined,
+  unread: ['UNREAD'],
+  starred: ['STARRED'],
+  important: ['IMPORTANT'],
+};
+
+const pluralizeEmails = (count: number): string => `${count} email${count === 1 ? '' : 's'}`;
+const pluralizeConversations = (count: number): string => `${count} conversation${count === 1 ? '' : 's'}`;
+
 // --- Main Component ---
 const EmailsList = () => {
   const navigate = useNavigate();
   const { user, isAuthenticated } = useAuth();
+  const { storeVersion, syncNow } = useMailSync();
   const [searchParams] = useSearchParams();
   const params = useParams<{ threadId?: string }>(); // Get URL params including optional threadId
   const { toast } = useToast();
@@ -160,25 +234,55 @@ const EmailsList = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedEmails, setSelectedEmails] = useState<string[]>([]);
   const [selectAll, setSelectAll] = useState(false);
+  // Set once the selection was extended to every email matching the current view
+  const [matchingSelection, setMatchingSelection] = useState<{ ids: string[]; truncated: boolean } | null>(null);
+  const [matchingEstimate, setMatchingEstimate] = useState<number | null>(null);
+  const [isSelectingAllMatching, setIsSelectingAllMatching] = useState(false);
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
   const [activeTab, setActiveTab] = useState('all');
   const [refreshKey, setRefreshKey] = useState(0);
   const [availableTags, setAvailableTags] = useState<{ id: string; name: string; type: string; color: string }[]>([]);
+  const [listMode, setListMode] = useState<MailListMode>(DEFAULT_USER_SETTINGS.mail_list_mode);
 
   // URL params
   const tagFilter = searchParams.get('tag'); 
   const priorityFilter = searchParams.get('priority'); 
   const activeFilterName = tagFilter || priorityFilter; 
   const isTagView = !!activeFilterName;
-  const searchQuery = searchParams.get('q');
+  // The search box and the advanced search panel, compiled to one Gmail query
+  const searchQuery = useMemo(() => buildGmailQuery(readAdvancedSearch(searchParams)) || null, [searchParams]);
   const isSearchView = !!searchQuery;
   const filterTagsParam = searchParams.get('tags'); 
   const filterModeParam = (searchParams.get('mode') as FilterMode) || 'any'; 
-  const isNewTagFilterView = !!filterTagsParam; 
+  // Alongside a search, tags narrow down its results instead of listing every tagged email
+  const isNewTagFilterView = !!filterTagsParam && !isSearchView; 
+  // Only the paginated views read from the local store, so only they re-render on store changes
+  const listStoreVersion = isTagView || isSearchView || isNewTagFilterView ? 0 : storeVersion;
+  // Conversation mode covers the paginated tabs; searches, tag views and drafts list single messages
+  const isConversationView = listMode === 'conversations'
+    && !isTagView && !isSearchView && !isNewTagFilterView && !['drafts', 'snoozed', 'scheduled', 'subscriptions'].includes(activeTab);
+  // The outbox has its own list (ScheduledMessagesList)
+  const isScheduledView = activeTab === 'scheduled' && !isTagView && !isSearchView && !isNewTagFilterView;
+  // So do mailing-list senders (SubscriptionsList)
+  const isSubscriptionsView = activeTab === 'subscriptions' && !isTagView && !isSearchView && !isNewTagFilterView;
+  const hasOwnList = isScheduledView || isSubscriptionsView;
+  // The tabs that stand for the inbox, which snoozed threads are kept out of
+  const isInboxTab = !isTagView && !isSearchView && !isNewTagFilterView && activeTab in TAB_LABEL_IDS;
   // Refs
   const pageTokenRef = useRef(pageToken);
   const activeFilterNameRef = useRef(activeFilterName);
   const searchQueryRef = useRef(searchQuery);
   const filterTagsParamRef = useRef(filterTagsParam); 
+  const storeVersionRef = useRef(listStoreVersion);
+
+  // A different search starts over from its first page
+  const searchKey = isSearchView ? `${searchQuery}|${filterTagsParam}|${filterModeParam}` : null;
+  const [pagedSearchKey, setPagedSearchKey] = useState(searchKey);
+  if (pagedSearchKey !== searchKey) {
+    setPagedSearchKey(searchKey);
+    setPageToken(null);
+    setPrevPageTokens([]);
+  }
 
   // Process and merge emails (used for non-new-filter views)
   const processAndMergeEmails = useCallback(
@@ -233,14 +337,18 @@ const EmailsList = () => {
       setError(null);
       setSelectedEmails([]);
       setSelectAll(false);
+      setMatchingSelection(null);
       return;
     }
 
     const fetchController = new AbortController();
     const { signal } = fetchController;
 
+    // A store change alone (background sync) refreshes the current page without a spinner
+    const isStoreUpdate = listStoreVersion !== storeVersionRef.current;
+
     const loadData = async () => {
-      setIsLoading(true);
+      if (!isStoreUpdate) setIsLoading(true);
       setError(null);
 
       // If a threadId is present in the URL, we are navigating to/viewing a thread,
@@ -253,11 +361,14 @@ const EmailsList = () => {
 
       try {
         let messageIds: string[] = [];
+        let storedMessages: GmailFullMessage[] | null = null;
         let fetchedEmailsResult: EmailItem[] = [];
+        // Views that build their EmailItems themselves skip the common processing below
+        let isPreprocessed = isNewTagFilterView;
         let finalCache = emailCache; // Start with current cache, might be updated
 
         const isPaging = pageToken !== pageTokenRef.current && pageToken !== undefined;
-        if (!isPaging) {
+        if (!isPaging && !isStoreUpdate) {
           setNextPageToken(null);
           setPrevPageTokens([]);
         }
@@ -310,19 +421,23 @@ const EmailsList = () => {
 
         // Fallback to search view if new filter isn't active
         } else if (isSearchView && searchQuery) {
-          setPageToken(null);
-          setNextPageToken(null);
-          setPrevPageTokens([]);
-
-          const searchResult = await searchGmailMessages(searchQuery);
+          // Tags aren't searchable in Gmail, so the tagged emails are looked up first and matched here
+          const taggedIds = filterTagsParam
+            ? await fetchEmailIdsByTags(filterTagsParam.split(','), filterModeParam)
+            : null;
           if (signal.aborted) return;
 
-          if (!searchResult.messages || searchResult.messages.length === 0) {
-            setAllEmails([]);
-            setIsLoading(false);
-            return;
+          if (taggedIds && taggedIds.size === 0) {
+            setNextPageToken(null);
+          } else {
+            const searchResult = taggedIds
+              ? await searchFilteredMessages(searchQuery, (id) => taggedIds.has(id), pageToken, 20, signal)
+              : await searchGmailMessages(searchQuery, pageToken, 20, signal);
+            if (signal.aborted) return;
+
+            setNextPageToken(searchResult.nextPageToken || null);
+            messageIds = searchResult.messages.map((m) => m.id);
           }
-          messageIds = searchResult.messages.map((m) => m.id);
 
         // Fallback to old single-tag view if search isn't active
         } else if (isTagView && activeFilterName) {
@@ -340,15 +455,92 @@ const EmailsList = () => {
           }
           messageIds = tagIdentifiers.map((m) => m.email_id);
 
-        // Default to paginated view (All, Unread, Starred, Important)
+        // Drafts tab: Gmail drafts, paginated with drafts.list tokens
+        } else if (activeTab === 'drafts') {
+          const [draftsPage, scheduled] = await Promise.all([
+            listDrafts(pageToken, 20, signal),
+            fetchScheduledMessages(user.id),
+          ]);
+          if (signal.aborted) return;
+
+          setNextPageToken(draftsPage.nextPageToken || null);
+          isPreprocessed = true;
+          // Scheduled messages are drafts too, but they are listed under Scheduled
+          const scheduledDraftIds = new Set(scheduled.map(message => message.draft_id));
+          fetchedEmailsResult = draftsPage.drafts.filter(draft => !scheduledDraftIds.has(draft.id)).map(draft => ({
+            id: draft.messageId,
+            threadId: draft.threadId,
+            subject: draft.subject || '(No Subject)',
+            sender: draft.to ? `To: ${parseSender(draft.to).name}` : '(No Recipients)',
+            senderAddress: parseSender(draft.to).address,
+            excerpt: draft.snippet,
+            date: formatDate(draft.date),
+            dateObj: draft.date,
+            read: true,
+            starred: false,
+            tags: [],
+            draft: { id: draft.id, isReply: draft.isReply },
+          }));
+
+        // Scheduled and Subscriptions tabs: rendered by their own lists, which load their data themselves
+        } else if (activeTab === 'scheduled' || activeTab === 'subscriptions') {
+          setNextPageToken(null);
+          isPreprocessed = true;
+          fetchedEmailsResult = [];
+
+        // Snoozed tab: every snoozed thread, soonest to come back first
+        } else if (activeTab === 'snoozed') {
+          const snoozes = (await fetchSnoozedThreads(user.id)).filter(snooze => !snooze.resurfaced_at);
+          const threads = await fetchThreadsMetadata(snoozes.map(snooze => snooze.thread_id), signal);
+          const items = await loadConversationItems(user.id, threads);
+          if (signal.aborted) return;
+
+          setNextPageToken(null);
+          const untilByThread = new Map(snoozes.map(snooze => [snooze.thread_id, new Date(snooze.snooze_until)]));
+          isPreprocessed = true;
+          fetchedEmailsResult = items.map(item => {
+            const until = untilByThread.get(item.threadId);
+            return until ? { ...item, date: `Until ${formatSnoozeTime(until)}` } : item;
+          });
+          finalCache = new Map([...emailCache, ...fetchedEmailsResult.map(email => [email.id, email] as const)]);
+
+        // Conversation mode: threads straight from Gmail, one row per thread
+        } else if (listMode === 'conversations') {
+          const threadPage = await fetchThreadListPage({ labelIds: TAB_LABEL_IDS[activeTab] }, pageToken, 20, signal);
+          if (signal.aborted) return;
+
+          setNextPageToken(threadPage.nextPageToken || null);
+          const items = await loadConversationItems(user.id, threadPage.threads);
+          if (signal.aborted) return;
+
+          isPreprocessed = true;
+          fetchedEmailsResult = items;
+          finalCache = new Map([...emailCache, ...items.map(email => [email.id, email] as const)]);
+
+        // Default to paginated view (All, Unread, Starred, Important), served from the local store
+        } else if (isMailStoreSupported()) {
+          // Page tokens are offsets into the store here
+          const offset = Number(pageToken || 0);
+          const page = await readMailStorePage(
+            user.id,
+            { labelId: activeTab === 'important' ? 'IMPORTANT' : undefined, offset, limit: 20 },
+            signal
+          );
+          if (signal.aborted) return;
+
+          storedMessages = page.messages;
+          messageIds = page.messages.map((m) => m.id);
+          setNextPageToken(page.hasMore ? String(offset + 20) : null);
+
+        // Without IndexedDB, page through Gmail directly
         } else {
           let metadataResult; // Declare outside the blocks
           // Fetch the base page data regardless of the 'all', 'unread', or 'starred' tab.
           if (activeTab === 'important') {
-            metadataResult = await fetchImportantEmailMetadataPage(pageToken, 20);
+            metadataResult = await fetchImportantEmailMetadataPage(pageToken, 20, signal);
           } else {
             // Fetch standard page for 'all', 'unread', 'starred'
-            metadataResult = await fetchEmailMetadataPage(pageToken, 20);
+            metadataResult = await fetchEmailMetadataPage(pageToken, 20, signal);
           }
 
           if (signal.aborted) return;
@@ -367,14 +559,11 @@ const EmailsList = () => {
         }
 
         // --- Common Logic for Search, Old Tag, and Paginated Views ---
-        // (Skip if using the new multi-tag filter, as data is already processed)
-        if (!isNewTagFilterView && messageIds.length > 0) {
-          const idsToFetchDetails = messageIds.filter((id) => !emailCache.has(id));
-          let fetchedGmailMessages: GmailFullMessage[] = [];
-          if (idsToFetchDetails.length > 0) {
-            fetchedGmailMessages = await fetchFullEmailDetails(idsToFetchDetails);
-            if (signal.aborted) return;
-          }
+        // (Skip if using the new multi-tag filter or drafts, as data is already processed)
+        if (!isPreprocessed && messageIds.length > 0) {
+          // Details come from the store, so label changes picked up by sync are reflected here
+          const fetchedGmailMessages = storedMessages ?? await getMessageDetails(user.id, messageIds, signal);
+          if (signal.aborted) return;
 
           const supabaseData = await fetchSupabaseEmailData(user.id, messageIds);
           if (signal.aborted) return;
@@ -387,12 +576,33 @@ const EmailsList = () => {
           );
           fetchedEmailsResult = processedEmails;
           finalCache = updatedCache; // Get the updated cache from processing
-        } else if (!isNewTagFilterView) {
+        } else if (!isPreprocessed) {
           // Handle case where search/tag/page returns 0 results explicitly
            fetchedEmailsResult = [];
            finalCache = emailCache; // Keep existing cache
         }
 
+        // Snoozed threads stay out of the inbox tabs; once resurfaced they lead the first page until opened
+        if (isInboxTab) {
+          const snoozes = await fetchSnoozedThreads(user.id).catch(err => {
+            console.warn('Failed to load snoozed threads:', err);
+            return [];
+          });
+          const hiddenThreadIds = new Set(snoozes.map(snooze => snooze.thread_id));
+          fetchedEmailsResult = fetchedEmailsResult.filter(email => !hiddenThreadIds.has(email.threadId));
+
+          const resurfacedIds = snoozes
+            .filter(snooze => snooze.resurfaced_at)
+            .sort((a, b) => (b.resurfaced_at || '').localeCompare(a.resurfaced_at || ''))
+            .map(snooze => snooze.thread_id);
+          if (!pageToken && resurfacedIds.length > 0 && (activeTab === 'all' || activeTab === 'unread')) {
+            const resurfaced = await loadConversationItems(user.id, await fetchThreadsMetadata(resurfacedIds, signal));
+            if (signal.aborted) return;
+            fetchedEmailsResult = [...resurfaced, ...fetchedEmailsResult];
+            finalCache = new Map([...finalCache, ...resurfaced.map(email => [email.id, email] as const)]);
+          }
+        }
+
         // --- Update State (Common) ---
         if (!signal.aborted) {
           setAllEmails(fetchedEmailsResult);
@@ -408,13 +618,14 @@ const EmailsList = () => {
         ) {
           setSelectedEmails([]);
           setSelectAll(false);
+          setMatchingSelection(null);
         }
 
       } catch (err: any) {
-        if (err.name !== 'AbortError') {
+        if (!isAbortError(err)) {
           setError(err.message || 'Failed to load emails.');
           setAllEmails([]); // Clear emails on error
-          if (err.message === 'Google API token expired') {
+          if (isTokenExpiredError(err)) {
             nav('/auth');
           }
         }
@@ -432,6 +643,7 @@ const EmailsList = () => {
     activeFilterNameRef.current = activeFilterName;
     searchQueryRef.current = searchQuery;
     filterTagsParamRef.current = filterTagsParam; 
+    storeVersionRef.current = listStoreVersion;
 
     // Cleanup function to abort fetch on unmount or dependency change
     return () => {
@@ -444,7 +656,8 @@ const EmailsList = () => {
     searchQuery, isSearchView, // Search params
     filterTagsParam, filterModeParam, isNewTagFilterView, // New filter params
     activeTab, // Added activeTab dependency
-    processAndMergeEmails, refreshKey,
+    listMode, isInboxTab,
+    processAndMergeEmails, refreshKey, listStoreVersion,
     params // Added params dependency
   ]);
 
@@ -465,6 +678,20 @@ const EmailsList = () => {
     loadTags();
   }, [user?.id, toast]);
 
+  // Message or conversation mode, saved per user
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    fetchUserSettings(user.id)
+      .then(settings => {
+        if (!cancelled) setListMode(settings.mail_list_mode);
+      })
+      .catch(err => console.warn('Failed to load list mode setting:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
   // Filter emails based on the active tab (All, Unread, Starred)
   const filteredEmails = useMemo(() => {
     // Apply tab filtering *after* the main data fetching based on URL params
@@ -478,6 +705,29 @@ const EmailsList = () => {
     return sourceEmails; // 'all' tab
   }, [allEmails, activeTab]);
 
+  // What "select all matching" covers in the current view; tag views already list everything
+  const matchingQuery = useMemo((): MessageListQuery | null => {
+    // Conversation rows don't map onto a message query
+    if (isTagView || isNewTagFilterView || isConversationView) return null;
+    // Tag-filtered results can't be expressed as a Gmail query
+    if (isSearchView) return searchQuery && !filterTagsParam ? { q: searchQuery } : null;
+    if (!(activeTab in TAB_LABEL_IDS)) return null;
+    return { labelIds: TAB_LABEL_IDS[activeTab] };
+  }, [isTagView, isNewTagFilterView, isConversationView, isSearchView, searchQuery, filterTagsParam, activeTab]);
+
+  // Estimate how many emails "select all matching" would cover once a whole page is selected
+  useEffect(() => {
+    setMatchingEstimate(null);
+    if (!selectAll || !matchingQuery) return;
+    const controller = new AbortController();
+    estimateMatchingMessages(matchingQuery, controller.signal)
+      .then(setMatchingEstimate)
+      .catch(err => {
+        if (!isAbortError(err)) console.warn('Failed to estimate matching emails:', err);
+      });
+    return () => controller.abort();
+  }, [selectAll, matchingQuery]);
+
   // Update selectAll state based on filtered emails
   useEffect(() => {
     if (filteredEmails.length > 0 && selectedEmails.length === filteredEmails.length) {
@@ -516,7 +766,12 @@ const EmailsList = () => {
 
 
     try {
-      await markEmailStarred(user.id, id, newStarredState);
+      if (emailToUpdate.thread) {
+        // Starring a conversation stars its latest message; unstarring clears every message
+        await setEmailsStarred(user.id, newStarredState ? [id] : emailToUpdate.thread.messageIds, newStarredState);
+      } else {
+        await markEmailStarred(user.id, id, newStarredState);
+      }
     } catch (err) {
       console.error('Failed to update star status:', err);
       toast({ title: "Error updating star", description: (err as Error).message, variant: "destructive" });
@@ -536,6 +791,7 @@ const EmailsList = () => {
 
   const toggleEmailSelection = (id: string, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent row click
+    setMatchingSelection(null);
     setSelectedEmails((prevSelected) =>
       prevSelected.includes(id) ? prevSelected.filter((emailId) => emailId !== id) : [...prevSelected, id]
     );
@@ -543,6 +799,7 @@ const EmailsList = () => {
 
   const handleSelectAll = (checked: boolean) => {
     setSelectAll(checked);
+    setMatchingSelection(null);
     if (checked) {
       setSelectedEmails(filteredEmails.map((email) => email.id));
     } else {
@@ -550,6 +807,125 @@ const EmailsList = () => {
     }
   };
 
+  const clearSelection = () => {
+    setSelectedEmails([]);
+    setMatchingSelection(null);
+  };
+
+  const handleSelectAllMatching = async () => {
+    if (!matchingQuery) return;
+    setIsSelectingAllMatching(true);
+    try {
+      setMatchingSelection(await listAllMessageIds(matchingQuery));
+    } catch (err) {
+      toast({ title: "Error selecting emails", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsSelectingAllMatching(false);
+    }
+  };
+
+  // Applies `patch` to the listed emails right away and rolls it back if `run` fails.
+  // Selected conversations are expanded to all of their messages for `run`.
+  const runBulkUpdate = async (
+    text: BulkUpdateText,
+    patch: (email: EmailItem) => EmailItem | null,
+    run: (userId: string, ids: string[], options: BulkActionOptions) => Promise<void>
+  ) => {
+    if (!user?.id) return;
+    const rowIds = matchingSelection?.ids ?? selectedEmails;
+    if (rowIds.length === 0) return;
+    const ids = rowIds.flatMap(id => emailCache.get(id)?.thread?.messageIds ?? [id]);
+
+    const idSet = new Set(rowIds);
+    const previousEmails = allEmails;
+    const previousCache = emailCache;
+    setIsBulkRunning(true);
+    setAllEmails(prevEmails =>
+      prevEmails
+        .map(email => (idSet.has(email.id) ? patch(email) : email))
+        .filter((email): email is EmailItem => email !== null)
+    );
+    setEmailCache(prevCache => {
+      const newCache = new Map(prevCache);
+      rowIds.forEach(id => {
+        const current = newCache.get(id);
+        const patched = current && patch(current);
+        if (patched) newCache.set(id, patched);
+      });
+      return newCache;
+    });
+
+    const isThreadRows = rowIds.every(id => emailCache.get(id)?.thread);
+    const count = isThreadRows ? pluralizeConversations(rowIds.length) : pluralizeEmails(ids.length);
+    const progressToast = toast({
+      title: `${text.progress(count)}...`,
+      description: <Progress value={0} className="h-2 mt-2" />,
+    });
+    const onProgress = (done: number, total: number) => {
+      progressToast.update({
+        id: progressToast.id,
+        title: `${text.progress(count)}...`,
+        description: <Progress value={(done / total) * 100} className="h-2 mt-2" />,
+      });
+    };
+
+    try {
+      await run(user.id, ids, { onProgress });
+      progressToast.update({ id: progressToast.id, title: text.done(count), description: undefined });
+      clearSelection();
+    } catch (err) {
+      console.error('Bulk update failed:', err);
+      setAllEmails(previousEmails);
+      setEmailCache(prevCache => {
+        const newCache = new Map(prevCache);
+        rowIds.forEach(id => {
+          const previous = previousCache.get(id);
+          if (previous) newCache.set(id, previous);
+        });
+        return newCache;
+      });
+      progressToast.update({
+        id: progressToast.id,
+        title: `${text.progress(count)} failed`,
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkAction = (action: BulkAction) => {
+    const config = BULK_ACTIONS[action];
+    runBulkUpdate(config, config.patch, async (userId, ids, options) => {
+      if (action === 'star' || action === 'unstar') {
+        await setEmailsStarred(userId, ids, action === 'star', options);
+      } else {
+        await batchModifyMessages(ids, config.labels, options);
+      }
+      // Keep the local store in step so a background refresh doesn't bring back old labels
+      applyLocalLabelChange(userId, ids, config.labels.addLabelIds, config.labels.removeLabelIds)
+        .catch(err => console.warn('Failed to apply bulk label change to the mail store:', err));
+    });
+  };
+
+  const handleBulkTagChange = (tagId: string, add: boolean) => {
+    const tag = availableTags.find(t => t.id === tagId);
+    if (!tag) return;
+    const text: BulkUpdateText = add
+      ? { progress: (count) => `Adding "${tag.name}" to ${count}`, done: (count) => `Added "${tag.name}" to ${count}` }
+      : { progress: (count) => `Removing "${tag.name}" from ${count}`, done: (count) => `Removed "${tag.name}" from ${count}` };
+    runBulkUpdate(
+      text,
+      (email) => {
+        const hasTag = email.tags.some(t => t.id === tagId);
+        if (add) return hasTag ? email : { ...email, tags: [...email.tags, tag] };
+        return { ...email, tags: email.tags.filter(t => t.id !== tagId) };
+      },
+      (userId, ids, options) => (add ? addTagToEmails : removeTagFromEmails)(userId, ids, tagId, options)
+    );
+  };
+
   const handleTagToggle = async (emailId: string, tagId: string, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent dropdown closing and row click
     if (!user?.id) return;
@@ -586,7 +962,11 @@ const EmailsList = () => {
 
 
     try {
-      if (isCurrentlyTagged) {
+      if (isCurrentlyTagged && emailToUpdate.thread) {
+        // The row shows tags from every message, so remove it from all of them
+        await removeTagFromEmails(user.id, emailToUpdate.thread.messageIds, tagId);
+        toast({ title: "Tag removed" });
+      } else if (isCurrentlyTagged) {
         await removeTagFromEmail(user.id, emailId, tagId);
         toast({ title: "Tag removed" });
       } else {
@@ -615,6 +995,46 @@ const EmailsList = () => {
   };
 
 
+  const handleTabChange = (value: string) => {
+    setActiveTab(value);
+    clearSelection();
+    // Page tokens are specific to the list they came from
+    setPageToken(null);
+    setPrevPageTokens([]);
+  };
+
+  const handleListModeChange = (mode: MailListMode) => {
+    if (mode === listMode) return;
+    setListMode(mode);
+    clearSelection();
+    // Thread and message page tokens aren't interchangeable
+    setPageToken(null);
+    setPrevPageTokens([]);
+    if (user?.id) {
+      updateUserSettings(user.id, { mail_list_mode: mode }).catch(err =>
+        toast({ title: "Couldn't save list mode", description: (err as Error).message, variant: "destructive" })
+      );
+    }
+  };
+
+  // Reply drafts resume in their thread's reply box, new messages in the compose dialog
+  const openDraftById = (draftId: string, threadId: string | null) => {
+    if (threadId) {
+      navigate(`/emails/thread/${threadId}?draft=${encodeURIComponent(draftId)}`);
+    } else {
+      const nextParams = new URLSearchParams(searchParams);
+      nextParams.set('draft', draftId);
+      navigate(`/emails?${nextParams.toString()}`);
+    }
+  };
+
+  const openDraft = (email: EmailItem) => {
+    if (!email.draft) return;
+    openDraftById(email.draft.id, email.draft.isReply ? email.threadId : null);
+  };
+
+  const openScheduledMessage = (message: ScheduledMessage) => openDraftById(message.draft_id, message.thread_id);
+
   const goToNextPage = () => {
     if (nextPageToken) {
       setPrevPageTokens([...prevPageTokens, pageToken || '']); 
@@ -636,8 +1056,10 @@ const EmailsList = () => {
       setPageToken(null);
       setError(null);
       setRefreshKey(prevKey => prevKey + 1);
+      // Pull new mail now instead of waiting for the next background sync
+      syncNow();
     }
-  }, [isTagView, isSearchView, isNewTagFilterView, isLoading]);
+  }, [isTagView, isSearchView, isNewTagFilterView, isLoading, syncNow]);
 
   useEffect(() => {
     const handleRefresh = () => {
@@ -654,32 +1076,57 @@ const EmailsList = () => {
     <div className="flex flex-col h-full">
       <EmailListToolbar
         activeTab={activeTab}
-        onTabChange={setActiveTab}
+        onTabChange={handleTabChange}
         selectAll={selectAll}
         onSelectAll={handleSelectAll}
         isLoading={isLoading}
         hasEmails={filteredEmails.length > 0}
+        listMode={listMode}
+        onListModeChange={handleListModeChange}
       />
 
-      {isLoading && (
+      {(selectedEmails.length > 0 || matchingSelection) && activeTab !== 'drafts' && !hasOwnList && (
+        <BulkActionBar
+          selectedCount={matchingSelection?.ids.length ?? selectedEmails.length}
+          availableTags={availableTags}
+          onAction={handleBulkAction}
+          onTagChange={handleBulkTagChange}
+          isRunning={isBulkRunning}
+          pageSelected={selectAll}
+          matchingEstimate={matchingEstimate}
+          allMatchingSelected={!!matchingSelection}
+          matchingTruncated={!!matchingSelection?.truncated}
+          isSelectingAllMatching={isSelectingAllMatching}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClearSelection={clearSelection}
+        />
+      )}
+
+      {isScheduledView && user?.id && (
+        <ScheduledMessagesList userId={user.id} onEdit={openScheduledMessage} />
+      )}
+
+      {isSubscriptionsView && user?.id && <SubscriptionsList userId={user.id} />}
+
+      {!hasOwnList && isLoading && (
         <div className="flex-grow flex justify-center items-center">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
         </div>
       )}
 
-      {!isLoading && error && (
+      {!hasOwnList && !isLoading && error && (
         <div className="flex-grow flex justify-center items-center text-red-600">
           Error: {error}
         </div>
       )}
 
-      {!isLoading && !error && filteredEmails.length === 0 && (
+      {!hasOwnList && !isLoading && !error && filteredEmails.length === 0 && (
         <div className="flex-grow flex justify-center items-center text-muted-foreground">
           No emails found.
         </div>
       )}
 
-      {!isLoading && !error && filteredEmails.length > 0 && (
+      {!hasOwnList && !isLoading && !error && filteredEmails.length > 0 && (
         <div className="flex-grow overflow-y-auto border-t">
           {filteredEmails.map((email, index) => (
             <div key={email.id}>
@@ -692,6 +1139,7 @@ const EmailsList = () => {
                 onToggleSelection={toggleEmailSelection}
                 onTagToggle={handleTagToggle}
                 navigate={navigate}
+                onOpen={email.draft ? openDraft : undefined}
               />
               {index < filteredEmails.length - 1 && <hr className="border-gray-100" />}
             </div>
@@ -699,8 +1147,8 @@ const EmailsList = () => {
         </div>
       )}
 
-      {/* Hide pagination controls for any filtered view (old tag, search, or new tag filter) */}
-      {!isTagView && !isSearchView && !isNewTagFilterView && (
+      {/* Hide pagination controls for the views that list everything at once */}
+      {!isTagView && !isNewTagFilterView && !hasOwnList && (
         <PaginationControls
           hasPrevPage={prevPageTokens.length > 0}
           hasNextPage={!!nextPageToken}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { format, isSameDay, subDays } from 'date-fns';
+import { AlertTriangle, CalendarDays, Check, ExternalLink, HelpCircle, Loader2, MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { decodeBase64Body, GmailMessagePart } from '@/lib/supabaseClient';
+import { fetchAttachmentData } from '@/lib/gmailAttachments';
+import {
+  CalendarInvitation,
+  getMainInvitationEvent,
+  InvitationEvent,
+  InvitationPerson,
+  parseCalendarInvitation,
+} from '@/lib/icsParser';
+import {
+  AttendeeResponseStatus,
+  fetchCalendarEvents,
+  findCalendarEventByICalUID,
+  GoogleCalendarEvent,
+  respondToCalendarEvent,
+} from '@/lib/googleCalendarClient';
+
+interface InvitationCardProps {
+  userId: string;
+  messageId: string;
+  /** The message's text/calendar part, from `findCalendarPart`. */
+  part: GmailMessagePart;
+  ownAddresses: string[];
+}
+
+const RESPONSES: { status: AttendeeResponseStatus; label: string }[] = [
+  { status: 'accepted', label: 'Yes' },
+  { status: 'tentative', label: 'Maybe' },
+  { status: 'declined', label: 'No' },
+];
+
+const REPLY_LABELS: Record<string, string> = {
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'tentatively accepted',
+};
+
+const loadCalendarText = async (messageId: string, part: GmailMessagePart, signal: AbortSignal): Promise<string> => {
+  if (part.body.data) return decodeBase64Body(part.body.data);
+  const bytes = await fetchAttachmentData(messageId, part.body.attachmentId ?? '', signal);
+  return new TextDecoder().decode(bytes);
+};
+
+// In the user's zone; the end of an all-day event is exclusive, so its last day is the one before
+const formatEventTime = (event: InvitationEvent): string => {
+  if (!event.start) return 'Time not given';
+  const end = event.end ?? event.start;
+  if (event.allDay) {
+    const lastDay = subDays(end, 1);
+    return lastDay > event.start
+      ? `${format(event.start, 'EEE, MMM d')} – ${format(lastDay, 'EEE, MMM d, yyyy')}`
+      : format(event.start, 'EEEE, MMMM d, yyyy');
+  }
+  const endText = isSameDay(event.start, end) ? format(end, 'p') : format(end, 'EEE, MMM d, p');
+  return `${format(event.start, 'EEEE, MMMM d, yyyy · p')} – ${endText}`;
+};
+
+const personLabel = (person: InvitationPerson): string => person.name || person.email;
+
+const StatusIcon: React.FC<{ status: InvitationPerson['status'] }> = ({ status }) => {
+  if (status === 'ACCEPTED') return <Check className="h-3 w-3 text-green-600" />;
+  if (status === 'DECLINED') return <X className="h-3 w-3 text-red-600" />;
+  if (status === 'TENTATIVE') return <HelpCircle className="h-3 w-3 text-amber-600" />;
+  return null;
+};
+
+// Events on the user's calendar that overlap the invitation's time, leaving out the
+// invitation itself, free-time events and events the user declined
+const isConflict = (event: GoogleCalendarEvent, uid: string): boolean =>
+  event.iCalUID !== uid
+  && !!event.start?.dateTime
+  && event.transparency !== 'transparent'
+  && !event.attendees?.some(attendee => attendee.self && attendee.responseStatus === 'declined');
+
+/** The invitation a message carries, with conflicts and Yes/Maybe/No replies. */
+export const InvitationCard: React.FC<InvitationCardProps> = ({ userId, messageId, part, ownAddresses }) => {
+  const [invitation, setInvitation] = useState<CalendarInvitation | null>(null);
+  // undefined while it's being looked up, null when the event isn't on the calendar
+  const [calendarEvent, setCalendarEvent] = useState<GoogleCalendarEvent | null | undefined>(undefined);
+  const [conflicts, setConflicts] = useState<GoogleCalendarEvent[]>([]);
+  const [respondingWith, setRespondingWith] = useState<AttendeeResponseStatus | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setInvitation(null);
+    loadCalendarText(messageId, part, controller.signal)
+      .then(text => {
+        if (!controller.signal.aborted) setInvitation(parseCalendarInvitation(text));
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.warn(`Failed to read the invitation in message ${messageId}:`, err);
+      });
+    return () => controller.abort();
+  }, [messageId, part]);
+
+  const event = invitation ? getMainInvitationEvent(invitation) : null;
+  const isCancelled = invitation?.method === 'CANCEL' || event?.status === 'CANCELLED';
+  const isReply = invitation?.method === 'REPLY';
+  const uid = event?.uid;
+  const startMs = event?.start?.getTime();
+  const endMs = event?.end?.getTime();
+  const allDay = event?.allDay;
+
+  useEffect(() => {
+    if (!uid || isReply) return;
+    const controller = new AbortController();
+    setCalendarEvent(undefined);
+    setConflicts([]);
+    findCalendarEventByICalUID('primary', uid, controller.signal)
+      .then(found => {
+        if (!controller.signal.aborted) setCalendarEvent(found);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          console.warn(`Failed to look up calendar event ${uid}:`, err);
+          setCalendarEvent(null);
+        }
+      });
+    if (!isCancelled && !allDay && startMs !== undefined && endMs !== undefined && endMs > startMs) {
+      fetchCalendarEvents(userId, 'primary', new Date(startMs).toISOString(), new Date(endMs).toISOString(), controller.signal)
+        .then(events => {
+          if (!controller.signal.aborted) setConflicts(events.filter(item => isConflict(item, uid)));
+        })
+        .catch(err => {
+          if (!controller.signal.aborted) console.warn(`Failed to check conflicts for ${uid}:`, err);
+        });
+    }
+    return () => controller.abort();
+  }, [userId, uid, startMs, endMs, allDay, isReply, isCancelled]);
+
+  if (!event) return null;
+
+  const own = new Set(ownAddresses.map(address => address.toLowerCase()));
+  const ownResponse = calendarEvent?.attendees?.find(attendee => attendee.self || own.has(attendee.email.toLowerCase()))?.responseStatus;
+  const replier = isReply ? event.attendees[0] : undefined;
+
+  const handleRespond = async (status: AttendeeResponseStatus) => {
+    if (!calendarEvent) return;
+    setRespondingWith(status);
+    try {
+      const updated = await respondToCalendarEvent('primary', calendarEvent, status, ownAddresses);
+      setCalendarEvent(updated);
+      toast({ title: 'Response sent', description: `${RESPONSES.find(response => response.status === status)?.label} to "${event.summary}".` });
+    } catch (err) {
+      toast({ title: 'Could not send response', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setRespondingWith(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-md border bg-muted/30 p-3 text-sm">
+      <div className="flex items-start gap-3">
+        <CalendarDays className="mt-0.5 h-5 w-5 flex-shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="text-xs font-medium uppercase text-muted-foreground">
+            {isCancelled ? 'Cancelled event' : isReply ? 'Invitation reply' : event.sequence > 0 ? 'Updated invitation' : 'Invitation'}
+          </div>
+          <div className={`font-semibold ${isCancelled ? 'line-through' : ''}`}>{event.summary || '(No title)'}</div>
+          <div>
+            {formatEventTime(event)}
+            {event.recurring && ' · Repeats'}
+            <span className="ml-1 text-xs text-muted-foreground">({Intl.DateTimeFormat().resolvedOptions().timeZone})</span>
+          </div>
+          {event.location && (
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <MapPin className="h-3 w-3 flex-shrink-0" /> <span className="truncate">{event.location}</span>
+            </div>
+          )}
+          {replier && (
+            <div>{personLabel(replier)} {REPLY_LABELS[replier.status ?? ''] ?? 'replied'}.</div>
+          )}
+          {!isReply && event.organizer && (
+            <div className="text-muted-foreground">
+              <span className="font-medium text-foreground">Organizer:</span> {personLabel(event.organizer)}
+            </div>
+          )}
+          {!isReply && event.attendees.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {event.attendees.map(attendee => (
+                <span key={attendee.email} className="inline-flex items-center gap-1" title={attendee.email}>
+                  {personLabel(attendee)} <StatusIcon status={attendee.status} />
+                </span>
+              ))}
+            </div>
+          )}
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-1 text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+              <span>
+                Conflicts with{' '}
+                {conflicts
+                  .map(conflict => `${conflict.summary || '(No title)'} (${format(new Date(conflict.start?.dateTime ?? ''), 'p')})`)
+                  .join(', ')}
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!isReply && !isCancelled && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 pl-8">
+          {calendarEvent === undefined ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : calendarEvent === null ? (
+            <span className="text-xs text-muted-foreground">This event is not on your Google Calendar.</span>
+          ) : (
+            <>
+              <span className="mr-1 text-xs text-muted-foreground">Going?</span>
+              {RESPONSES.map(({ status, label }) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  className="h-7"
+                  variant={ownResponse === status ? 'default' : 'outline'}
+                  onClick={() => handleRespond(status)}
+                  disabled={!!respondingWith}
+                >
+                  {respondingWith === status && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  {label}
+                </Button>
+              ))}
+              {calendarEvent.htmlLink && (
+                <Button variant="link" size="sm" className="h-7" asChild>
+                  <a href={calendarEvent.htmlLink} target="_blank" rel="noopener noreferrer">
+                    Open in Calendar <ExternalLink className="ml-1 h-3 w-3" />
+                  </a>
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GmailUserLabel } from '@/lib/supabaseClient';
+import {
+  MailRuleInput,
+  RULE_ACTION_LABELS,
+  RULE_FIELDS,
+  RULE_OPERATOR_LABELS,
+  RuleAction,
+  RuleCondition,
+  RuleConditionField,
+} from '@/lib/mailRules';
+
+interface MailRuleEditorProps {
+  value: MailRuleInput;
+  onChange: (value: MailRuleInput) => void;
+  labels: GmailUserLabel[];
+  tags: { id: string; name: string }[];
+  disabled?: boolean;
+}
+
+const NEW_CONDITION: RuleCondition = { field: 'from', operator: 'contains', value: '' };
+const NEW_ACTION: RuleAction = { type: 'add_tag', tagId: '' };
+
+const VALUE_PLACEHOLDERS: Partial<Record<RuleConditionField, string>> = {
+  from: '*@client.com',
+  to: 'team@example.com',
+  cc: 'team@example.com',
+  subject: 'invoice',
+  header: 'value',
+  attachment_name: '*.pdf',
+  body: 'unsubscribe',
+};
+
+/** The name, conditions and actions of a mail rule. */
+export const MailRuleEditor: React.FC<MailRuleEditorProps> = ({ value, onChange, labels, tags, disabled }) => {
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    onChange({ ...value, conditions: value.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  // A different field starts over with its own first operator and an empty value
+  const changeField = (index: number, field: RuleConditionField) => {
+    const operators = RULE_FIELDS.find(f => f.field === field)?.operators ?? [];
+    onChange({
+      ...value,
+      conditions: value.conditions.map((c, i) => (i === index ? { field, operator: operators[0], value: '' } : c)),
+    });
+  };
+
+  const updateAction = (index: number, action: RuleAction) => {
+    onChange({ ...value, actions: value.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const renderConditionValue = (condition: RuleCondition, index: number) => {
+    if (condition.field === 'has_attachment') return <div className="flex-1" />;
+    if (condition.field === 'label') {
+      return (
+        <Select value={condition.value} onValueChange={(labelId) => updateCondition(index, { value: labelId })} disabled={disabled}>
+          <SelectTrigger className="flex-1 h-9">
+            <SelectValue placeholder="Choose a label" />
+          </SelectTrigger>
+          <SelectContent>
+            {labels.map(label => (
+              <SelectItem key={label.id} value={label.id}>{label.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        value={condition.value}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        placeholder={VALUE_PLACEHOLDERS[condition.field]}
+        className="flex-1 h-9"
+        disabled={disabled}
+      />
+    );
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-end gap-4">
+        <div className="grid gap-2 flex-grow">
+          <Label htmlFor="ruleName">Name</Label>
+          <Input
+            id="ruleName"
+            value={value.name}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+            placeholder="Client invoices"
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            id="ruleEnabled"
+            checked={value.enabled}
+            onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+            disabled={disabled}
+          />
+          <Label htmlFor="ruleEnabled">Runs on new mail</Label>
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span>When</span>
+          <Select
+            value={value.match_mode}
+            onValueChange={(mode) => onChange({ ...value, match_mode: mode as MailRuleInput['match_mode'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">all</SelectItem>
+              <SelectItem value="any">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of these are true:</span>
+        </div>
+        {value.conditions.map((condition, index) => {
+          const field = RULE_FIELDS.find(f => f.field === condition.field);
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={condition.field} onValueChange={(field) => changeField(index, field as RuleConditionField)} disabled={disabled}>
+                <SelectTrigger className="w-40 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_FIELDS.map(option => (
+                    <SelectItem key={option.field} value={option.field}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {condition.field === 'header' && (
+                <Input
+                  value={condition.header ?? ''}
+                  onChange={(e) => updateCondition(index, { header: e.target.value })}
+                  placeholder="X-Mailer"
+                  className="w-32 h-9"
+                  disabled={disabled}
+                />
+              )}
+              <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator: operator as RuleCondition['operator'] })} disabled={disabled}>
+                <SelectTrigger className="w-44 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {field?.operators.map(operator => (
+                    <SelectItem key={operator} value={operator}>
+                      {field.operatorLabels?.[operator] ?? RULE_OPERATOR_LABELS[operator]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderConditionValue(condition, index)}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => onChange({ ...value, conditions: value.conditions.filter((_, i) => i !== index) })}
+                aria-label="Remove condition"
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="justify-self-start"
+          onClick={() => onChange({ ...value, conditions: [...value.conditions, NEW_CONDITION] })}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add condition
+        </Button>
+      </div>
+
+      <div className="grid gap-2">
+        <span className="text-sm">Then:</span>
+        {value.actions.map((action, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={action.type}
+              onValueChange={(type) => updateAction(index, type === 'add_tag' ? { type: 'add_tag', tagId: '' } : { type: type as Exclude<RuleAction['type'], 'add_tag'> })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-56 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_ACTION_LABELS) as RuleAction['type'][]).map(type => (
+                  <SelectItem key={type} value={type}>{RULE_ACTION_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {action.type === 'add_tag' ? (
+              <Select value={action.tagId} onValueChange={(tagId) => updateAction(index, { type: 'add_tag', tagId })} disabled={disabled}>
+                <SelectTrigger className="flex-1 h-9">
+                  <SelectValue placeholder="Choose a tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tags.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="flex-1" />
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={() => onChange({ ...value, actions: value.actions.filter((_, i) => i !== index) })}
+              aria-label="Remove action"
+              disabled={disabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="justify-self-start"
+          onClick={() => onChange({ ...value, actions: [...value.actions, NEW_ACTION] })}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add action
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,484 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { History, Loader2, Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { fetchTags, GmailUserLabel } from '@/lib/supabaseClient';
+import {
+  applyRuleToExistingMail,
+  createMailRule,
+  deleteMailRule,
+  EXISTING_MAIL_LIMIT,
+  fetchMailRules,
+  fetchRuleHits,
+  fetchRuleLabels,
+  findRuleMatches,
+  MailRule,
+  MailRuleHit,
+  MailRuleInput,
+  RULE_ACTION_LABELS,
+  RuleMatch,
+  updateMailRule,
+  validateMailRule,
+} from '@/lib/mailRules';
+import { formatSnoozeTime } from '@/lib/snooze';
+import { MailRuleEditor } from './MailRuleEditor';
+
+interface MailRulesDialogProps {
+  children: React.ReactNode;
+}
+
+const EMPTY_RULE: MailRuleInput = {
+  name: '',
+  enabled: true,
+  match_mode: 'all',
+  conditions: [{ field: 'from', operator: 'matches', value: '' }],
+  actions: [{ type: 'add_tag', tagId: '' }],
+};
+
+// How many preview matches are listed; the count covers all of them
+const PREVIEW_LIST_LIMIT = 20;
+
+const MailRulesDialog: React.FC<MailRulesDialogProps> = ({ children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rules, setRules] = useState<MailRule[]>([]);
+  const [labels, setLabels] = useState<GmailUserLabel[]>([]);
+  const [tags, setTags] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // null: showing the list; 'new' or a rule id: showing the form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MailRuleInput>(EMPTY_RULE);
+  const [ruleToDelete, setRuleToDelete] = useState<MailRule | null>(null);
+  const [historyRule, setHistoryRule] = useState<MailRule | null>(null);
+  const [hits, setHits] = useState<MailRuleHit[] | null>(null);
+  const [preview, setPreview] = useState<{ matches: RuleMatch[]; scanned: number } | null>(null);
+  const [previewProgress, setPreviewProgress] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const previewAbort = useRef<AbortController | null>(null);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const isPreviewing = previewProgress !== null;
+  const isBusy = isSaving || isPreviewing;
+
+  useEffect(() => {
+    if (!isOpen || !userId) return;
+    let cancelled = false;
+    setEditingId(null);
+    setRuleToDelete(null);
+    setHistoryRule(null);
+    setIsLoading(true);
+    Promise.all([
+      fetchMailRules(userId),
+      fetchTags(userId, 'pin'),
+      fetchTags(userId, 'priority'),
+      fetchRuleLabels().catch(err => {
+        console.warn('Failed to load Gmail labels for rules:', err);
+        return [];
+      }),
+    ])
+      .then(([loadedRules, pinTags, priorityTags, loadedLabels]) => {
+        if (cancelled) return;
+        setRules(loadedRules);
+        setTags([...pinTags, ...priorityTags].sort((a, b) => a.name.localeCompare(b.name)));
+        setLabels(loadedLabels);
+      })
+      .catch(err => {
+        if (!cancelled) toast({ title: "Error", description: `Failed to load rules: ${(err as Error).message}`, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, userId, toast]);
+
+  useEffect(() => {
+    if (!historyRule) return;
+    let cancelled = false;
+    setHits(null);
+    fetchRuleHits(historyRule.id)
+      .then(loaded => {
+        if (!cancelled) setHits(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        toast({ title: "Error", description: `Failed to load the rule's history: ${(err as Error).message}`, variant: "destructive" });
+        setHits([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyRule, toast]);
+
+  const stopPreview = () => {
+    previewAbort.current?.abort();
+    previewAbort.current = null;
+    setPreviewProgress(null);
+    setPreview(null);
+  };
+
+  // A preview no longer applies once the rule changes
+  const updateForm = (next: MailRuleInput) => {
+    stopPreview();
+    setForm(next);
+  };
+
+  const startEditing = (rule: MailRule | null) => {
+    stopPreview();
+    setEditingId(rule?.id ?? 'new');
+    setForm(rule
+      ? { name: rule.name, enabled: rule.enabled, match_mode: rule.match_mode, conditions: rule.conditions, actions: rule.actions }
+      : EMPTY_RULE);
+  };
+
+  const closeForm = () => {
+    stopPreview();
+    setEditingId(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isSaving) return;
+    if (!open) stopPreview();
+    setIsOpen(open);
+  };
+
+  const sortRules = (list: MailRule[]) => [...list].sort((a, b) => a.position - b.position);
+
+  // Creates or updates the rule from the form; the form stays open
+  const saveRule = async (): Promise<MailRule | null> => {
+    if (!userId) return null;
+    const problem = validateMailRule(form);
+    if (problem) {
+      toast({ title: "Incomplete rule", description: problem, variant: "destructive" });
+      return null;
+    }
+    const input = { ...form, name: form.name.trim() };
+    if (editingId === 'new') {
+      const position = rules.reduce((max, rule) => Math.max(max, rule.position + 1), 0);
+      const created = await createMailRule(userId, input, position);
+      setRules(prev => sortRules([...prev, created]));
+      setEditingId(created.id);
+      return created;
+    }
+    const updated = await updateMailRule(editingId as string, input);
+    setRules(prev => sortRules(prev.map(rule => (rule.id === updated.id ? updated : rule))));
+    return updated;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveRule();
+      if (!saved) return;
+      toast({ title: "Success", description: `Rule "${saved.name}" saved.` });
+      closeForm();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to save rule: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const problem = validateMailRule(form);
+    if (problem) {
+      toast({ title: "Incomplete rule", description: problem, variant: "destructive" });
+      return;
+    }
+    stopPreview();
+    const controller = new AbortController();
+    previewAbort.current = controller;
+    setPreviewProgress('Looking through recent mail...');
+    try {
+      const result = await findRuleMatches(form, {
+        signal: controller.signal,
+        onProgress: (done, total) => setPreviewProgress(`Checked ${done} of ${total} messages...`),
+      });
+      if (!controller.signal.aborted) setPreview(result);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        toast({ title: "Error", description: `Preview failed: ${(err as Error).message}`, variant: "destructive" });
+      }
+    } finally {
+      if (previewAbort.current === controller) {
+        previewAbort.current = null;
+        setPreviewProgress(null);
+      }
+    }
+  };
+
+  // Saves the rule as it is in the form, then runs its actions on what the preview found
+  const handleRunOnExisting = async () => {
+    if (!userId || !preview) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveRule();
+      if (!saved) return;
+      const applied = await applyRuleToExistingMail(userId, saved, preview.matches);
+      const skipped = preview.matches.length - applied;
+      toast({
+        title: "Rule applied",
+        description: `"${saved.name}" acted on ${applied} message${applied === 1 ? '' : 's'}`
+          + (skipped > 0 ? ` (${skipped} it had already handled).` : '.'),
+      });
+      setPreview(null);
+      window.dispatchEvent(new CustomEvent('refreshEmails'));
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to run the rule: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (rule: MailRule, enabled: boolean) => {
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled } : r)));
+    try {
+      await updateMailRule(rule.id, { enabled });
+    } catch (err) {
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled: rule.enabled } : r)));
+      toast({ title: "Error", description: `Failed to update rule: ${(err as Error).message}`, variant: "destructive" });
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+    setIsSaving(true);
+    try {
+      await deleteMailRule(ruleToDelete.id);
+      setRules(prev => prev.filter(rule => rule.id !== ruleToDelete.id));
+      toast({ title: "Success", description: `Rule "${ruleToDelete.name}" deleted.` });
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to delete rule: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setRuleToDelete(null);
+      setIsSaving(false);
+    }
+  };
+
+  const openThread = (threadId: string) => {
+    handleOpenChange(false);
+    navigate(`/emails/thread/${threadId}`);
+  };
+
+  const describeActions = (rule: MailRule) =>
+    rule.actions
+      .map(action => action.type === 'add_tag'
+        ? `Tag ${tags.find(tag => tag.id === action.tagId)?.name ?? '(deleted tag)'}`
+        : RULE_ACTION_LABELS[action.type])
+      .join(', ');
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center items-center min-h-[120px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (rules.length === 0) {
+      return <p className="text-sm text-muted-foreground py-6 text-center">No rules yet.</p>;
+    }
+    return (
+      <div className="max-h-[360px] overflow-y-auto divide-y border rounded-md">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-2 px-3 py-2">
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(enabled) => handleToggleEnabled(rule, enabled)}
+              aria-label={`Run "${rule.name}" on new mail`}
+            />
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-medium truncate">{rule.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {rule.conditions.length} condition{rule.conditions.length === 1 ? '' : 's'} → {describeActions(rule)}
+              </p>
+            </div>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setHistoryRule(rule)} aria-label={`History of ${rule.name}`} title="History">
+              <History className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(rule)} aria-label={`Edit ${rule.name}`} title="Edit">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={() => setRuleToDelete(rule)} aria-label={`Delete ${rule.name}`} title="Delete">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPreview = () => {
+    if (previewProgress) {
+      return (
+        <p className="text-sm text-muted-foreground flex items-center">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" /> {previewProgress}
+        </p>
+      );
+    }
+    if (!preview) return null;
+    return (
+      <div className="grid gap-2 border rounded-md p-3">
+        <p className="text-sm">
+          Matches <strong>{preview.matches.length}</strong> of the {preview.scanned} most recent messages.
+          {' '}Nothing has been changed yet.
+        </p>
+        {preview.matches.length > 0 && (
+          <div className="max-h-[180px] overflow-y-auto divide-y">
+            {preview.matches.slice(0, PREVIEW_LIST_LIMIT).map(match => (
+              <div key={match.id} className="py-1 text-xs flex gap-2">
+                <span className="w-40 flex-shrink-0 truncate font-medium">{match.from}</span>
+                <span className="flex-grow truncate">{match.subject || '(No Subject)'}</span>
+                <span className="flex-shrink-0 text-muted-foreground">{match.date.toLocaleDateString()}</span>
+              </div>
+            ))}
+            {preview.matches.length > PREVIEW_LIST_LIMIT && (
+              <p className="py-1 text-xs text-muted-foreground">and {preview.matches.length - PREVIEW_LIST_LIMIT} more</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderHistory = () => {
+    if (!hits) {
+      return (
+        <div className="flex justify-center items-center min-h-[120px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (hits.length === 0) {
+      return <p className="text-sm text-muted-foreground py-6 text-center">This rule hasn't acted on any messages yet.</p>;
+    }
+    return (
+      <div className="max-h-[360px] overflow-y-auto divide-y border rounded-md">
+        {hits.map(hit => (
+          <div key={hit.id} className="px-3 py-2">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="text-sm font-medium truncate flex-grow text-left hover:underline disabled:no-underline"
+                onClick={() => openThread(hit.thread_id as string)}
+                disabled={!hit.thread_id}
+              >
+                {hit.subject || '(No Subject)'}
+              </button>
+              <Badge variant="secondary" className="px-1.5 py-0 text-[10px] flex-shrink-0">
+                {hit.source === 'backfill' ? 'Existing mail' : 'New mail'}
+              </Badge>
+              <span className="text-xs text-muted-foreground flex-shrink-0">{formatSnoozeTime(new Date(hit.created_at))}</span>
+            </div>
+            <p className="text-xs text-muted-foreground truncate">{hit.sender}</p>
+            {hit.error && <p className="text-xs text-red-600">Failed: {hit.error}</p>}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const title = ruleToDelete
+    ? 'Delete Rule'
+    : historyRule
+      ? `History: ${historyRule.name}`
+      : editingId === 'new' ? 'New Rule' : editingId ? 'Edit Rule' : 'Mail Rules';
+
+  const description = ruleToDelete
+    ? `Are you sure you want to delete the rule "${ruleToDelete.name}"? Its history is deleted with it.`
+    : historyRule
+      ? 'The most recent messages this rule acted on.'
+      : editingId
+        ? `Preview shows what the rule matches among your ${EXISTING_MAIL_LIMIT} most recent messages, without changing anything.`
+        : 'Rules act on new mail as it arrives, in the order they were created.';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {ruleToDelete ? (
+          <DialogFooter className="flex justify-between sm:justify-between mt-4">
+            <Button type="button" variant="outline" onClick={() => setRuleToDelete(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleConfirmDelete} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Rule
+            </Button>
+          </DialogFooter>
+        ) : historyRule ? (
+          <>
+            {renderHistory()}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setHistoryRule(null)}>
+                Back
+              </Button>
+            </DialogFooter>
+          </>
+        ) : editingId ? (
+          <>
+            <div className="grid gap-4 py-2 max-h-[60vh] overflow-y-auto">
+              <MailRuleEditor value={form} onChange={updateForm} labels={labels} tags={tags} disabled={isSaving} />
+              {renderPreview()}
+            </div>
+            <DialogFooter className="flex justify-between sm:justify-between">
+              <Button type="button" variant="outline" onClick={closeForm} disabled={isSaving}>
+                Back
+              </Button>
+              <div className="flex gap-2">
+                {preview && preview.matches.length > 0 ? (
+                  <Button type="button" variant="outline" onClick={handleRunOnExisting} disabled={isBusy}>
+                    <Play className="mr-2 h-4 w-4" /> Save and run on {preview.matches.length} message{preview.matches.length === 1 ? '' : 's'}
+                  </Button>
+                ) : (
+                  <Button type="button" variant="outline" onClick={handlePreview} disabled={isBusy}>
+                    {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Preview on existing mail
+                  </Button>
+                )}
+                <Button type="button" className="bg-purple-600 hover:bg-purple-700" onClick={handleSave} disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Rule
+                </Button>
+              </div>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            {renderList()}
+            <DialogFooter>
+              <Button type="button" onClick={() => startEditing(null)} disabled={isLoading}>
+                <Plus className="mr-2 h-4 w-4" /> New Rule
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MailRulesDialog;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from '@/components/providers/AuthProvider';
+import {
+  DEFAULT_USER_SETTINGS,
+  fetchUserSettings,
+  UNDO_SEND_OPTIONS,
+  updateUserSettings,
+  UserSettings,
+} from '@/lib/supabaseClient';
+import { EmailSignature, fetchEmailSignatures } from '@/lib/signatures';
+import EmailSignaturesDialog from './EmailSignaturesDialog';
+
+// Select items can't have an empty value
+const NO_SIGNATURE = 'none';
+
+interface MailSettingsDialogProps {
+  children: React.ReactNode;
+}
+
+const MailSettingsDialog: React.FC<MailSettingsDialogProps> = ({ children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [signatures, setSignatures] = useState<EmailSignature[]>([]);
+  const [signaturesVersion, setSignaturesVersion] = useState(0);
+  const [manageSignaturesOpen, setManageSignaturesOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchUserSettings(user.id)
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) toast({ title: "Error", description: `Failed to load settings: ${(err as Error).message}`, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user?.id, toast]);
+
+  // Reloaded after the signatures are managed, since deleting one also clears it as a default
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+    let cancelled = false;
+    Promise.all([fetchEmailSignatures(user.id), signaturesVersion > 0 ? fetchUserSettings(user.id) : null])
+      .then(([loaded, reloadedSettings]) => {
+        if (cancelled) return;
+        setSignatures(loaded);
+        if (reloadedSettings) setSettings(reloadedSettings);
+      })
+      .catch(err => {
+        if (!cancelled) toast({ title: "Error", description: `Failed to load signatures: ${(err as Error).message}`, variant: "destructive" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user?.id, signaturesVersion, toast]);
+
+  // Settings apply as soon as they are changed
+  const handleChange = async (changes: Partial<UserSettings>) => {
+    if (!user?.id) return;
+    const previous = settings;
+    setSettings(prev => ({ ...prev, ...changes }));
+    try {
+      await updateUserSettings(user.id, changes);
+    } catch (err) {
+      setSettings(previous);
+      toast({ title: "Error", description: `Failed to save settings: ${(err as Error).message}`, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mail Settings</DialogTitle>
+          <DialogDescription>Changes are saved right away.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="undoSendSeconds">Undo send</Label>
+          <Select
+            value={String(settings.undo_send_seconds)}
+            onValueChange={(value) => handleChange({ undo_send_seconds: Number(value) })}
+            disabled={isLoading}
+          >
+            <SelectTrigger id="undoSendSeconds">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNDO_SEND_OPTIONS.map(seconds => (
+                <SelectItem key={seconds} value={String(seconds)}>{seconds} seconds</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            How long after clicking Send you can still call a message back.
+          </p>
+        </div>
+        <div className="grid gap-2 pb-4">
+          <Label>Signatures</Label>
+          {([
+            ['new_message_signature_id', 'newMessageSignature', 'New messages'],
+            ['reply_signature_id', 'replySignature', 'Replies and forwards'],
+          ] as const).map(([key, id, label]) => (
+            <div key={key} className="grid grid-cols-3 items-center gap-2">
+              <Label htmlFor={id} className="text-sm font-normal text-muted-foreground">{label}</Label>
+              <Select
+                value={settings[key] ?? NO_SIGNATURE}
+                onValueChange={(value) => handleChange({ [key]: value === NO_SIGNATURE ? null : value })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id={id} className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SIGNATURE}>No signature</SelectItem>
+                  {signatures.map(signature => (
+                    <SelectItem key={signature.id} value={signature.id}>{signature.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" className="justify-self-start" onClick={() => setManageSignaturesOpen(true)}>
+            Manage signatures...
+          </Button>
+        </div>
+        {user?.id && (
+          <EmailSignaturesDialog
+            userId={user.id}
+            open={manageSignaturesOpen}
+            onOpenChange={setManageSignaturesOpen}
+            onChanged={() => setSignaturesVersion(version => version + 1)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MailSettingsDialog;
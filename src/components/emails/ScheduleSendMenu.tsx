@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getSchedulePresets } from '@/lib/outbox';
+import { formatSnoozeTime } from '@/lib/snooze';
+import { DateTimePickerDialog } from './DateTimePickerDialog';
+
+interface ScheduleSendMenuProps {
+  /** When the message is already scheduled; the picker starts from it. */
+  scheduledFor?: Date | null;
+  onSchedule: (sendAt: Date) => void;
+  disabled?: boolean;
+}
+
+export const ScheduleSendMenu: React.FC<ScheduleSendMenuProps> = ({ scheduledFor, onSchedule, disabled }) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const presets = getSchedulePresets();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="icon" disabled={disabled} title="Schedule send" aria-label="Schedule send">
+            <CalendarClock className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>
+            {scheduledFor ? `Scheduled for ${formatSnoozeTime(scheduledFor)}` : 'Schedule send'}
+          </DropdownMenuLabel>
+          {presets.map(preset => (
+            <DropdownMenuItem key={preset.label} onSelect={() => onSchedule(preset.sendAt)} className="flex justify-between">
+              <span>{preset.label}</span>
+              <span className="text-xs text-muted-foreground">{formatSnoozeTime(preset.sendAt)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setPickerOpen(true)}>Pick date & time...</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {/* Sending runs in the browser, so a closed app can't send on time */}
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">
+            Keep the app open in a tab at the send time. If it is closed then, the message goes out the next time you open it.
+          </p>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DateTimePickerDialog
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        title="Schedule send"
+        description="The message waits in Scheduled and goes out at this time, or as soon as the app is open again if it is closed then."
+        label="Send at"
+        confirmLabel="Schedule send"
+        initialValue={scheduledFor ?? presets[0].sendAt}
+        onConfirm={onSchedule}
+      />
+    </>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { useMailSync } from '@/hooks/useMailSync';
+import {
+  cancelScheduledMessage,
+  fetchScheduledMessages,
+  rescheduleMessage,
+  ScheduledMessage,
+} from '@/lib/outbox';
+import { formatSnoozeTime } from '@/lib/snooze';
+import { DateTimePickerDialog } from './DateTimePickerDialog';
+
+interface ScheduledMessagesListProps {
+  userId: string;
+  /** Opens the message's draft for editing (reply box or compose dialog). */
+  onEdit: (message: ScheduledMessage) => void;
+}
+
+const StatusLine: React.FC<{ message: ScheduledMessage }> = ({ message }) => {
+  switch (message.status) {
+    case 'sending':
+      return <span className="text-xs text-muted-foreground">Sending...</span>;
+    case 'sent':
+      return (
+        <span className="text-xs text-muted-foreground">
+          Sent {message.sent_at ? formatSnoozeTime(new Date(message.sent_at)) : ''}
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="text-xs text-red-600">
+          <Badge variant="destructive" className="mr-2 px-1.5 py-0">Failed</Badge>
+          {message.last_error}
+        </span>
+      );
+    default:
+      if (message.attempts === 0 && new Date(message.send_at) < new Date()) {
+        return (
+          <span className="text-xs text-amber-600">
+            Was due {formatSnoozeTime(new Date(message.send_at))}, sending now
+          </span>
+        );
+      }
+      return (
+        <span className="text-xs text-muted-foreground">
+          Sends {formatSnoozeTime(new Date(message.send_at))}
+          {message.attempts > 0 && (
+            <span className="text-amber-600">
+              {' '}· attempt {message.attempts} failed ({message.last_error}), retrying {formatSnoozeTime(new Date(message.next_attempt_at))}
+            </span>
+          )}
+        </span>
+      );
+  }
+};
+
+export const ScheduledMessagesList: React.FC<ScheduledMessagesListProps> = ({ userId, onEdit }) => {
+  const [messages, setMessages] = useState<ScheduledMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busyDraftId, setBusyDraftId] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<ScheduledMessage | null>(null);
+  const { toast } = useToast();
+  const { dispatchOutbox } = useMailSync();
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    fetchScheduledMessages(userId)
+      .then(rows => {
+        if (!cancelled) setMessages(rows);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, reloadKey]);
+
+  // The outbox announces sends and failures like any other mailbox change
+  useEffect(() => {
+    const handleRefresh = () => setReloadKey(key => key + 1);
+    window.addEventListener('refreshEmails', handleRefresh);
+    return () => window.removeEventListener('refreshEmails', handleRefresh);
+  }, []);
+
+  const runAction = async (message: ScheduledMessage, action: () => Promise<void>, successTitle: string) => {
+    setBusyDraftId(message.draft_id);
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusyDraftId(null);
+      setReloadKey(key => key + 1);
+    }
+  };
+
+  const handleSendNow = (message: ScheduledMessage) =>
+    runAction(message, async () => {
+      await rescheduleMessage(userId, message.draft_id, new Date());
+      await dispatchOutbox();
+    }, message.status === 'failed' ? "Retrying now" : "Sending now");
+
+  const handleReschedule = (sendAt: Date) => {
+    if (!rescheduling) return;
+    runAction(rescheduling, () => rescheduleMessage(userId, rescheduling.draft_id, sendAt), `Rescheduled for ${formatSnoozeTime(sendAt)}`);
+  };
+
+  const handleCancel = (message: ScheduledMessage) =>
+    runAction(
+      message,
+      () => cancelScheduledMessage(userId, message.draft_id),
+      message.status === 'sent' ? "Removed from the list" : "Schedule cancelled. The message is back in Drafts."
+    );
+
+  if (isLoading) {
+    return (
+      <div className="flex-grow flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-red-600">
+        Error: {error}
+      </div>
+    );
+  }
+
+  if (messages.length === 0) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-muted-foreground">
+        No scheduled emails.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow overflow-y-auto border-t">
+      <p className="px-4 py-2 text-xs text-muted-foreground bg-muted/50 border-b">
+        Scheduled emails are sent by this app while it is open in a tab. One due while the app is closed goes out the next time you open it.
+      </p>
+      {messages.map((message, index) => {
+        const isPending = message.status === 'scheduled' || message.status === 'failed';
+        return (
+          <div key={message.id}>
+            <div
+              className={`flex items-center p-4 ${isPending ? 'cursor-pointer hover:bg-muted/50' : ''}`}
+              onClick={() => isPending && onEdit(message)}
+            >
+              <div className="flex-grow min-w-0 mr-4">
+                <span className="text-sm truncate block">{message.recipients ? `To: ${message.recipients}` : '(No Recipients)'}</span>
+                <h3 className="text-sm truncate">{message.subject || '(No Subject)'}</h3>
+                <StatusLine message={message} />
+              </div>
+              {busyDraftId === message.draft_id ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : message.status !== 'sending' && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 p-0" aria-label="Scheduled message actions">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    {isPending ? (
+                      <>
+                        <DropdownMenuItem onSelect={() => onEdit(message)}>Edit</DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setRescheduling(message)}>Reschedule...</DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => handleSendNow(message)}>
+                          {message.status === 'failed' ? 'Retry now' : 'Send now'}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => handleCancel(message)}>Cancel (move to Drafts)</DropdownMenuItem>
+                      </>
+                    ) : (
+                      <DropdownMenuItem onSelect={() => handleCancel(message)}>Remove from list</DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+            {index < messages.length - 1 && <hr className="border-gray-100" />}
+          </div>
+        );
+      })}
+
+      <DateTimePickerDialog
+        open={!!rescheduling}
+        onOpenChange={(open) => { if (!open) setRescheduling(null); }}
+        title="Reschedule"
+        description={`Pick a new time for "${rescheduling?.subject || '(No Subject)'}".`}
+        label="Send at"
+        confirmLabel="Reschedule"
+        initialValue={rescheduling ? new Date(rescheduling.send_at) : new Date()}
+        onConfirm={handleReschedule}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { MessageSignature } from '@/lib/mimeBuilder';
+import { EmailSignature, fetchEmailSignatures, findMatchingSignature, toMessageSignature } from '@/lib/signatures';
+import { fetchUserSettings } from '@/lib/supabaseClient';
+
+// Select items can't have an empty value
+const NO_SIGNATURE = 'none';
+const EDITED_SIGNATURE = 'edited';
+
+interface SignatureEditorProps {
+  userId: string;
+  /** Which of the user's default signatures to start with. */
+  kind: 'new' | 'reply';
+  /** `undefined` until a signature has been picked; the default is filled in then. */
+  value: MessageSignature | null | undefined;
+  onChange: (signature: MessageSignature | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Picks the signature for the message being written and lets it be edited for just this message. */
+export const SignatureEditor: React.FC<SignatureEditorProps> = ({ userId, kind, value, onChange, disabled, className }) => {
+  const [signatures, setSignatures] = useState<EmailSignature[]>([]);
+  // The default signature, once the user's signatures and settings have loaded
+  const [defaultSignature, setDefaultSignature] = useState<MessageSignature | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchEmailSignatures(userId), fetchUserSettings(userId)])
+      .then(([loaded, settings]) => {
+        if (cancelled) return;
+        const defaultId = kind === 'reply' ? settings.reply_signature_id : settings.new_message_signature_id;
+        const found = loaded.find(s => s.id === defaultId);
+        setSignatures(loaded);
+        setDefaultSignature(found ? toMessageSignature(found) : null);
+      })
+      .catch(err => {
+        console.warn('Failed to load signatures:', err);
+        if (!cancelled) setDefaultSignature(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, kind]);
+
+  useEffect(() => {
+    if (value === undefined && defaultSignature !== undefined) onChange(defaultSignature);
+  }, [value, defaultSignature, onChange]);
+
+  const selected = !value ? NO_SIGNATURE : findMatchingSignature(signatures, value)?.id ?? EDITED_SIGNATURE;
+
+  const handleSelect = (id: string) => {
+    const signature = signatures.find(s => s.id === id);
+    onChange(signature ? toMessageSignature(signature) : null);
+  };
+
+  if (signatures.length === 0 && !value) return null;
+
+  return (
+    <div className={cn('grid gap-2', className)}>
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`signature-${kind}`} className="text-xs text-muted-foreground">Signature</Label>
+        <Select value={selected} onValueChange={handleSelect} disabled={disabled}>
+          <SelectTrigger id={`signature-${kind}`} className="h-7 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SIGNATURE}>No signature</SelectItem>
+            {signatures.map(signature => (
+              <SelectItem key={signature.id} value={signature.id}>{signature.name}</SelectItem>
+            ))}
+            {selected === EDITED_SIGNATURE && <SelectItem value={EDITED_SIGNATURE} disabled>Edited</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+      {value && (
+        <>
+          <Textarea
+            value={value.text}
+            // Edits apply to this message only; the formatted version is dropped since it no longer matches
+            onChange={(e) => onChange({ text: e.target.value, html: null })}
+            className="min-h-[60px] resize-y text-sm"
+            aria-label="Signature"
+            disabled={disabled}
+          />
+          {value.html && (
+            <p className="text-xs text-muted-foreground">
+              Sent with its formatting from Gmail; editing it here sends it as plain text.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
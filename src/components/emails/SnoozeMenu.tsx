@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { AlarmClock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { formatSnoozeTime, getSnoozePresets } from '@/lib/snooze';
+import { DateTimePickerDialog } from './DateTimePickerDialog';
+
+interface SnoozeMenuProps {
+  snoozedUntil: Date | null;
+  onSnooze: (until: Date) => void;
+  onUnsnooze: () => void;
+  isBusy?: boolean;
+}
+
+export const SnoozeMenu: React.FC<SnoozeMenuProps> = ({ snoozedUntil, onSnooze, onUnsnooze, isBusy }) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const presets = getSnoozePresets();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isBusy}>
+            {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <AlarmClock className="mr-2 h-4 w-4" />}
+            {snoozedUntil ? `Snoozed until ${formatSnoozeTime(snoozedUntil)}` : 'Snooze'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Snooze until...</DropdownMenuLabel>
+          {presets.map(preset => (
+            <DropdownMenuItem key={preset.label} onSelect={() => onSnooze(preset.until)} className="flex justify-between">
+              <span>{preset.label}</span>
+              <span className="text-xs text-muted-foreground">{formatSnoozeTime(preset.until)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setPickerOpen(true)}>Pick date & time...</DropdownMenuItem>
+          {snoozedUntil && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={onUnsnooze}>Unsnooze</DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DateTimePickerDialog
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        title="Pick date & time"
+        description="The conversation comes back to the top of your inbox, unread, at this time."
+        label="Snooze until"
+        confirmLabel="Snooze"
+        initialValue={snoozedUntil ?? presets.find(p => p.label === 'Tomorrow')!.until}
+        onConfirm={onSnooze}
+      />
+    </>
+  );
+};
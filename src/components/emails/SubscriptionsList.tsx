@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, Loader2, MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { formatDate } from '@/lib/emailHelpers';
+import {
+  archiveSenderMail,
+  findSubscriptions,
+  recordWebsiteUnsubscribe,
+  Subscription,
+  SUBSCRIPTION_SCAN_LIMIT,
+  unsubscribe,
+} from '@/lib/subscriptions';
+
+interface SubscriptionsListProps {
+  userId: string;
+}
+
+/** Senders of mailing-list mail, with unsubscribe and archive-all actions. */
+export const SubscriptionsList: React.FC<SubscriptionsListProps> = ({ userId }) => {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyAddress, setBusyAddress] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    setProgress(null);
+    findSubscriptions(userId, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ done, total }),
+    })
+      .then(found => {
+        if (!controller.signal.aborted) setSubscriptions(found);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [userId]);
+
+  const markUnsubscribed = (address: string, unsubscribedAt: Date) =>
+    setSubscriptions(prev => prev.map(s => (s.address === address ? { ...s, unsubscribedAt } : s)));
+
+  const runAction = async (subscription: Subscription, action: () => Promise<void>) => {
+    setBusyAddress(subscription.address);
+    try {
+      await action();
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  const handleUnsubscribe = (subscription: Subscription) =>
+    runAction(subscription, async () => {
+      markUnsubscribed(subscription.address, await unsubscribe(userId, subscription));
+      toast({
+        title: "Unsubscribed",
+        description: subscription.methods.oneClickUrl
+          ? `Asked ${subscription.name} to stop sending mail.`
+          : `Sent an unsubscribe request to ${subscription.name}.`,
+      });
+    });
+
+  // The page itself is up to the user; it counts as done once they were sent there
+  const handleOpenWebsite = (subscription: Subscription) =>
+    runAction(subscription, async () => {
+      markUnsubscribed(subscription.address, await recordWebsiteUnsubscribe(userId, subscription.address));
+    });
+
+  const handleArchiveAll = (subscription: Subscription) =>
+    runAction(subscription, async () => {
+      const archived = await archiveSenderMail(userId, subscription.address);
+      toast({
+        title: archived > 0 ? "Archived" : "Nothing to archive",
+        description: archived > 0
+          ? `Moved ${archived} email${archived === 1 ? '' : 's'} from ${subscription.name} out of the inbox.`
+          : `There is no mail from ${subscription.name} in the inbox.`,
+      });
+      if (archived > 0) window.dispatchEvent(new CustomEvent('refreshEmails'));
+    });
+
+  const renderUnsubscribeButton = (subscription: Subscription) => {
+    const { oneClickUrl, mailto, url } = subscription.methods;
+    if (oneClickUrl || mailto) {
+      return (
+        <Button variant="outline" size="sm" onClick={() => handleUnsubscribe(subscription)}>
+          Unsubscribe
+        </Button>
+      );
+    }
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <a href={url} target="_blank" rel="noopener noreferrer" onClick={() => handleOpenWebsite(subscription)}>
+          Unsubscribe <ExternalLink className="ml-2 h-3 w-3" />
+        </a>
+      </Button>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-grow flex flex-col gap-2 justify-center items-center text-sm text-muted-foreground">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        {progress && `Looking through ${progress.done} of ${progress.total} recent emails...`}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-red-600">
+        Error: {error}
+      </div>
+    );
+  }
+
+  if (subscriptions.length === 0) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-muted-foreground">
+        No mailing lists found in your last {SUBSCRIPTION_SCAN_LIMIT} emails.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow overflow-y-auto border-t">
+      {subscriptions.map((subscription, index) => (
+        <div key={subscription.address}>
+          <div className="flex items-center gap-4 p-4">
+            <div className="flex-grow min-w-0">
+              <span className="text-sm font-medium truncate block">{subscription.name}</span>
+              <span className="text-xs text-muted-foreground truncate block">{subscription.address}</span>
+              <span className="text-xs text-muted-foreground">
+                {subscription.messageCount} email{subscription.messageCount === 1 ? '' : 's'} · last {formatDate(subscription.lastSeen)}
+              </span>
+            </div>
+            {busyAddress === subscription.address ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <>
+                {subscription.unsubscribedAt ? (
+                  <Badge variant="secondary" className="font-normal">
+                    Unsubscribed {formatDate(subscription.unsubscribedAt)}
+                  </Badge>
+                ) : (
+                  renderUnsubscribeButton(subscription)
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 p-0" aria-label="Subscription actions">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => handleArchiveAll(subscription)}>
+                      Archive all from this sender
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </>
+            )}
+          </div>
+          {index < subscriptions.length - 1 && <hr className="border-gray-100" />}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  EmailTemplate,
+  extractTemplateVariables,
+  fetchEmailTemplates,
+  fillTemplate,
+  getTemplateContextValues,
+  TemplateContext,
+} from '@/lib/emailTemplates';
+import EmailTemplatesDialog from './EmailTemplatesDialog';
+
+interface TemplatePickerProps {
+  userId: string;
+  context: TemplateContext;
+  onInsert: (filled: { subject: string; body: string }) => void;
+  disabled?: boolean;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ userId, context, onInsert, disabled }) => {
+  const [templates, setTemplates] = useState<EmailTemplate[] | null>(null);
+  const [manageOpen, setManageOpen] = useState(false);
+  // The template waiting for the variables that couldn't be filled in automatically
+  const [pending, setPending] = useState<{ template: EmailTemplate; values: Record<string, string>; missing: string[] } | null>(null);
+  const { toast } = useToast();
+
+  // Reloaded every time the menu opens, so edits made elsewhere show up
+  const handleMenuOpenChange = (open: boolean) => {
+    if (!open) return;
+    fetchEmailTemplates(userId)
+      .then(setTemplates)
+      .catch(err => {
+        toast({ title: "Error", description: `Failed to load templates: ${(err as Error).message}`, variant: "destructive" });
+        setTemplates([]);
+      });
+  };
+
+  const insert = (template: EmailTemplate, values: Record<string, string>) => {
+    onInsert({ subject: fillTemplate(template.subject, values), body: fillTemplate(template.body, values) });
+  };
+
+  const handleSelect = (template: EmailTemplate) => {
+    const values = getTemplateContextValues(context);
+    const missing = extractTemplateVariables(template).filter(name => !(name in values));
+    if (missing.length === 0) {
+      insert(template, values);
+      return;
+    }
+    setPending({ template, values: { ...values, ...Object.fromEntries(missing.map(name => [name, ''])) }, missing });
+  };
+
+  const handlePendingSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pending) return;
+    insert(pending.template, pending.values);
+    setPending(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={handleMenuOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled}>
+            <FileText className="mr-2 h-4 w-4" /> Templates
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64 max-h-72 overflow-y-auto">
+          <DropdownMenuLabel>Insert template</DropdownMenuLabel>
+          {templates === null ? (
+            <DropdownMenuItem disabled>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading...
+            </DropdownMenuItem>
+          ) : templates.length === 0 ? (
+            <DropdownMenuItem disabled>No templates yet</DropdownMenuItem>
+          ) : (
+            templates.map(template => (
+              <DropdownMenuItem key={template.id} onSelect={() => handleSelect(template)}>
+                <span className="truncate">{template.name}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManageOpen(true)}>Manage templates...</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!pending} onOpenChange={(open) => { if (!open) setPending(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handlePendingSubmit}>
+            <DialogHeader>
+              <DialogTitle>Fill in "{pending?.template.name}"</DialogTitle>
+              <DialogDescription>These parts of the template couldn't be filled in automatically.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-3 py-4">
+              {pending?.missing.map((name, index) => (
+                <div key={name} className="grid gap-1">
+                  <Label htmlFor={`template-var-${name}`}>{name.replace(/_/g, ' ')}</Label>
+                  <Input
+                    id={`template-var-${name}`}
+                    value={pending.values[name]}
+                    autoFocus={index === 0}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setPending(prev => prev && { ...prev, values: { ...prev.values, [name]: value } });
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Insert</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <EmailTemplatesDialog
+        userId={userId}
+        open={manageOpen}
+        onOpenChange={setManageOpen}
+        onChanged={() => setTemplates(null)}
+      />
+    </>
+  );
+};
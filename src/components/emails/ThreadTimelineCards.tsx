@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Clock, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import AddEditTimelineCardDialog from '@/components/timeline/AddEditTimelineCardDialog';
+import { decodeBase64Body, findPartByMimeType, getHeaderValue, GmailMessagePayload, GmailThread } from '@/lib/supabaseClient';
+import { htmlToPlainText } from '@/lib/mimeBuilder';
+import { findDatesInText } from '@/lib/dateExtraction';
+import { foldQuotedContent } from '@/lib/quotedContent';
+import { fetchTimelineCardsForThread, TimelineCard, TimelineCardDraft } from '@/lib/timelineClient';
+
+interface ThreadTimelineCardsProps {
+  userId: string;
+  threadId: string;
+  thread: GmailThread;
+  /** The thread's tags, copied onto a new card. */
+  tagIds: string[];
+}
+
+type LinkedCard = Omit<TimelineCard, 'tags'>;
+
+// The text a message adds, without the quoted history and "On ... wrote:" lines that
+// would bring in the dates of earlier messages
+const newMessageText = (payload: GmailMessagePayload): string => {
+  const textPart = findPartByMimeType(payload, 'text/plain');
+  if (textPart) {
+    const text = decodeBase64Body(textPart.body.data);
+    return foldQuotedContent(text, true) ?? text;
+  }
+  const htmlPart = findPartByMimeType(payload, 'text/html');
+  if (!htmlPart) return '';
+  const html = decodeBase64Body(htmlPart.body.data);
+  return htmlToPlainText(foldQuotedContent(html, false) ?? html);
+};
+
+// Subject as title, the first message's snippet as description and the span of the
+// dates mentioned in the messages' new text (today when there are none)
+const buildCardDraft = (threadId: string, thread: GmailThread, tagIds: string[]): TimelineCardDraft => {
+  const first = thread.messages[0];
+  const subject = getHeaderValue(first.payload.headers, 'Subject');
+  const dates = thread.messages
+    .flatMap(message => findDatesInText(newMessageText(message.payload), new Date(Number(message.internalDate || Date.now()))))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const start = dates[0] ?? new Date();
+  const end = dates.length > 1 ? dates[dates.length - 1] : null;
+  return {
+    title: subject,
+    description: htmlToPlainText(first.snippet || ''),
+    start_date: format(start, 'yyyy-MM-dd'),
+    end_date: end && end.getTime() !== start.getTime() ? format(end, 'yyyy-MM-dd') : null,
+    email_thread_id: threadId,
+    email_subject: subject || null,
+    tagIds,
+  };
+};
+
+/** The project cards made from this thread, and the action to make another. */
+export const ThreadTimelineCards: React.FC<ThreadTimelineCardsProps> = ({ userId, threadId, thread, tagIds }) => {
+  const navigate = useNavigate();
+  const [cards, setCards] = useState<LinkedCard[]>([]);
+  const [draft, setDraft] = useState<TimelineCardDraft | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCards([]);
+    fetchTimelineCardsForThread(userId, threadId)
+      .then(linked => {
+        if (!cancelled) setCards(linked);
+      })
+      .catch(err => console.warn(`Failed to load timeline cards of thread ${threadId}:`, err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, threadId]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {cards.map(card => (
+        <Badge
+          key={card.id}
+          variant="outline"
+          className="cursor-pointer font-normal hover:bg-muted"
+          onClick={() => navigate('/timeline')}
+          title="Open the project timeline"
+        >
+          <Clock className="mr-1 h-3 w-3" />
+          {card.title} · {format(new Date(`${card.start_date}T00:00:00`), 'MMM d')}
+        </Badge>
+      ))}
+      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDraft(buildCardDraft(threadId, thread, tagIds))}>
+        <Plus className="mr-1 h-3 w-3" /> Create timeline card
+      </Button>
+
+      <AddEditTimelineCardDialog
+        isOpen={!!draft}
+        onOpenChange={(open) => { if (!open) setDraft(null); }}
+        cardToEdit={null}
+        initialValues={draft}
+        onSaveSuccess={(card) => setCards(prev => [...prev, card].sort((a, b) => a.start_date.localeCompare(b.start_date)))}
+        onDeleteSuccess={() => {}}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUndoPrompts } from '@/hooks/useUndoSend';
+
+/** The Undo buttons of messages held for undo send, each shown until its window ends. */
+export const UndoSendPrompts: React.FC = () => {
+  const prompts = useUndoPrompts();
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the countdowns while any prompt is shown
+  useEffect(() => {
+    if (prompts.length === 0) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [prompts.length]);
+
+  if (prompts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] flex w-80 max-w-[calc(100vw-2rem)] flex-col gap-2" role="status" aria-live="polite">
+      {prompts.map(prompt => (
+        <div key={prompt.id} className="flex items-center gap-3 rounded-md border bg-background p-3 text-sm shadow-lg">
+          <Send className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1">
+            <div className="font-semibold">{prompt.title}</div>
+            <div className="text-xs text-muted-foreground">
+              You can undo this for {Math.max(0, Math.ceil((prompt.endsAt - now) / 1000))} seconds.
+            </div>
+          </div>
+          <Button variant="outline" size="sm" className="h-8" onClick={prompt.undo}>
+            Undo
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { syncMailbox, syncLabels } from '@/lib/mailSync';
+import { deleteMailStore, isMailStoreSupported, subscribeToMailStore } from '@/lib/mailStore';
+import { isTokenExpiredError } from '@/lib/googleApiClient';
+import { resurfaceDueSnoozes } from '@/lib/snooze';
+import { dispatchDueMessages, sendHeldMessagesNow } from '@/lib/outbox';
+import { toast } from '@/components/ui/use-toast';
+import { MailSyncContext } from '@/hooks/useMailSync';
+
+const SYNC_INTERVAL_MS = 60_000;
+// Scheduled sends are checked more often than mail is synced, and in hidden tabs too
+const OUTBOX_INTERVAL_MS = 30_000;
+
+export const MailSyncProvider = ({ children }: { children: ReactNode }) => {
+  const { user, gmailConnected } = useAuth();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [storeVersion, setStoreVersion] = useState(0);
+  const prevUserId = useRef<string | null>(null);
+  const stopped = useRef(false);
+
+  const userId = gmailConnected ? user?.id ?? null : null;
+
+  const runSync = useCallback(async (refreshLabels = false) => {
+    if (!userId || stopped.current) return;
+    setIsSyncing(true);
+    try {
+      // Expired snoozes go back to the inbox first, so this sync already picks them up
+      await resurfaceDueSnoozes(userId).catch(err => console.warn('Failed to resurface snoozed threads:', err));
+      await syncMailbox(userId);
+      if (refreshLabels) await syncLabels(userId);
+      setLastSyncedAt(Date.now());
+    } catch (err) {
+      console.error('Background mail sync failed:', err);
+      // Polling with a dead token only produces more 401s; the next page load redirects to /auth.
+      if (isTokenExpiredError(err)) stopped.current = true;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId]);
+
+  const dispatchOutbox = useCallback(async () => {
+    if (!userId || stopped.current) return;
+    try {
+      const { sent, failed } = await dispatchDueMessages(userId);
+      sent.forEach(message => {
+        window.dispatchEvent(new CustomEvent('scheduledMessageSent', { detail: message }));
+      });
+      failed.forEach(message => {
+        toast({
+          title: "Scheduled email not sent",
+          description: `"${message.subject || '(No Subject)'}": ${message.last_error}`,
+          variant: "destructive",
+        });
+      });
+      if (sent.length > 0 || failed.length > 0) window.dispatchEvent(new CustomEvent('refreshEmails'));
+    } catch (err) {
+      console.error('Scheduled send failed:', err);
+      if (isTokenExpiredError(err)) stopped.current = true;
+    }
+  }, [userId]);
+
+  // Clear the previous user's local mail when they sign out or switch accounts.
+  useEffect(() => {
+    const previous = prevUserId.current;
+    if (previous && previous !== user?.id && isMailStoreSupported()) {
+      deleteMailStore(previous).catch(err => console.error('Failed to delete local mail store:', err));
+    }
+    prevUserId.current = user?.id ?? null;
+    stopped.current = false;
+  }, [user?.id]);
+
+  useEffect(() => {
+    return subscribeToMailStore((changedUserId) => {
+      if (changedUserId === userId) setStoreVersion(v => v + 1);
+    });
+  }, [userId]);
+
+  // Sync on start, on an interval while the tab is visible, and whenever it becomes visible again.
+  useEffect(() => {
+    if (!userId || !isMailStoreSupported()) return;
+
+    runSync();
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === 'visible') runSync();
+    }, SYNC_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') runSync();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [userId, runSync]);
+
+  // The outbox doesn't depend on the local mail store. Messages held for undo send are
+  // dispatched the moment their window ends, or right away if the tab is closing.
+  useEffect(() => {
+    if (!userId) return;
+    dispatchOutbox();
+    const interval = window.setInterval(dispatchOutbox, OUTBOX_INTERVAL_MS);
+    window.addEventListener('outboxDue', dispatchOutbox);
+    window.addEventListener('pagehide', sendHeldMessagesNow);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('outboxDue', dispatchOutbox);
+      window.removeEventListener('pagehide', sendHeldMessagesNow);
+    };
+  }, [userId, dispatchOutbox]);
+
+  const syncNow = useCallback(() => runSync(true), [runSync]);
+
+  return (
+    <MailSyncContext.Provider value={{ isSyncing, lastSyncedAt, storeVersion, syncNow, dispatchOutbox }}>
+      {children}
+    </MailSyncContext.Provider>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTheme } from 'next-themes';
+import {
+  BarChart3,
+  CalendarDays,
+  Clock,
+  LayoutDashboard,
+  Loader2,
+  LucideIcon,
+  Mail,
+  PenSquare,
+  Plus,
+  StickyNote,
+  SunMoon,
+  Tag,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { getSearchIndex, rankSearchItems, SearchItem, SearchItemKind } from '@/lib/searchIndex';
+
+/** Window event that opens the palette, e.g. from the sidebar's search button. */
+export const OPEN_COMMAND_PALETTE_EVENT = 'openCommandPalette';
+
+const RESULT_LIMIT = 30;
+
+type PalettePage = 'root' | 'tags';
+
+interface PaletteCommand extends SearchItem {
+  icon: LucideIcon;
+}
+
+// Commands without an href run in handleSelect
+const GO_TO_TAG = 'command:go-to-tag';
+const TOGGLE_THEME = 'command:toggle-theme';
+
+const COMMANDS: PaletteCommand[] = [
+  { id: 'command:compose', kind: 'command', title: 'Compose', subtitle: 'Write a new email', href: '/emails?compose=new', icon: PenSquare },
+  { id: 'command:new-timeline-card', kind: 'command', title: 'New timeline card', subtitle: 'Add a card to the project timeline', href: '/timeline?new=card', icon: Plus },
+  { id: GO_TO_TAG, kind: 'command', title: 'Go to tag…', subtitle: 'Show the emails with a tag', href: '', icon: Tag },
+  { id: TOGGLE_THEME, kind: 'command', title: 'Toggle theme', subtitle: 'Switch between light and dark', href: '', icon: SunMoon },
+  { id: 'command:dashboard', kind: 'command', title: 'Go to Dashboard', subtitle: '', href: '/', icon: LayoutDashboard },
+  { id: 'command:emails', kind: 'command', title: 'Go to Emails', subtitle: '', href: '/emails', icon: Mail },
+  { id: 'command:timeline', kind: 'command', title: 'Go to Project', subtitle: 'Timeline', href: '/timeline', icon: Clock },
+  { id: 'command:calendar', kind: 'command', title: 'Go to Calendar', subtitle: '', href: '/calendar', icon: CalendarDays },
+  { id: 'command:insights', kind: 'command', title: 'Go to Insights', subtitle: '', href: '/insights', icon: BarChart3 },
+];
+
+const KIND_LABELS: Record<SearchItemKind, { heading: string; icon: LucideIcon }> = {
+  command: { heading: 'Commands', icon: Plus },
+  email: { heading: 'Emails', icon: Mail },
+  event: { heading: 'Calendar events', icon: CalendarDays },
+  card: { heading: 'Dashboard cards', icon: StickyNote },
+  timeline: { heading: 'Timeline cards', icon: Clock },
+  tag: { heading: 'Tags', icon: Tag },
+};
+
+// Groups appear in the order of their best match
+const groupByKind = (items: SearchItem[]): [SearchItemKind, SearchItem[]][] => {
+  const groups = new Map<SearchItemKind, SearchItem[]>();
+  items.forEach(item => groups.set(item.kind, [...(groups.get(item.kind) ?? []), item]));
+  return Array.from(groups.entries());
+};
+
+/** Ctrl/Cmd-K palette: ranked search over mail, events, cards and tags, plus app commands. */
+const CommandPalette: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { resolvedTheme, setTheme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState<PalettePage>('root');
+  const [index, setIndex] = useState<SearchItem[]>([]);
+  const [isIndexing, setIsIndexing] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    };
+  }, []);
+
+  // The index is (re)built when the palette opens; a recent one is reused
+  useEffect(() => {
+    if (!open || !user?.id) return;
+    let cancelled = false;
+    setIsIndexing(true);
+    getSearchIndex(user.id)
+      .then(items => {
+        if (!cancelled) setIndex(items);
+      })
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, user?.id]);
+
+  const results = useMemo(() => {
+    if (page === 'tags') return rankSearchItems(index.filter(item => item.kind === 'tag'), query, RESULT_LIMIT);
+    if (!query.trim()) return COMMANDS;
+    return rankSearchItems([...COMMANDS, ...index], query, RESULT_LIMIT);
+  }, [page, index, query]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setQuery('');
+      setPage('root');
+    }
+  };
+
+  const handleSelect = (item: SearchItem) => {
+    if (item.id === GO_TO_TAG) {
+      setPage('tags');
+      setQuery('');
+      return;
+    }
+    if (item.id === TOGGLE_THEME) setTheme(resolvedTheme === 'dark' ? 'light' : 'dark');
+    else navigate(item.href);
+    handleOpenChange(false);
+  };
+
+  const itemIcon = (item: SearchItem): React.ReactNode => {
+    if (item.kind === 'tag') {
+      return <span className="mr-2 h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: item.color }} />;
+    }
+    const Icon = COMMANDS.find(command => command.id === item.id)?.icon ?? KIND_LABELS[item.kind].icon;
+    return <Icon className="mr-2 h-4 w-4 flex-shrink-0 text-muted-foreground" />;
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        placeholder={page === 'tags' ? 'Find a tag…' : 'Search mail, events, cards and tags, or type a command…'}
+        value={query}
+        onValueChange={setQuery}
+        onKeyDown={(event) => {
+          // Backspace on an empty query leaves the tag list
+          if (event.key === 'Backspace' && !query && page !== 'root') {
+            event.preventDefault();
+            setPage('root');
+          }
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>
+          {isIndexing ? <Loader2 className="mx-auto h-4 w-4 animate-spin" /> : 'No results found.'}
+        </CommandEmpty>
+        {groupByKind(results).map(([kind, items]) => (
+          <CommandGroup key={kind} heading={page === 'tags' ? 'Go to tag' : KIND_LABELS[kind].heading}>
+            {items.map(item => (
+              <CommandItem key={item.id} value={item.id} onSelect={() => handleSelect(item)}>
+                {itemIcon(item)}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{item.title}</div>
+                  {item.subtitle && <div className="truncate text-xs text-muted-foreground">{item.subtitle}</div>}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -12,6 +12,9 @@ import {
   ChevronRight, 
   Trash2,
   ChevronLeft, 
+  Link2,
+  BarChart3,
+  Search,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -34,13 +37,17 @@ import {
   fetchTags,
   deleteTag,
 } from '@/lib/supabaseClient';
+import { getStoredLabels } from '@/lib/mailStore';
 import { ThemeToggle } from '@/components/theme-toggle';
+import TagLabelLinkDialog from './TagLabelLinkDialog';
+import { OPEN_COMMAND_PALETTE_EVENT } from '@/components/search/CommandPalette';
 
 interface TagItem {
   id: string;
   name: string;
   count: number;
   type: 'pin' | 'priority';
+  gmail_label_id?: string | null; // Gmail label kept in sync with this tag
 }
 
 // Define props for the Sidebar component
@@ -68,10 +75,12 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
   const [addPriorityDialogOpen, setAddPriorityDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [tagToDelete, setTagToDelete] = useState<TagItem | null>(null);
+  const [tagToLink, setTagToLink] = useState<TagItem | null>(null);
 
   // Tag state (fetched from Supabase)
   const [pins, setPins] = useState<TagItem[]>([]);
   const [priorities, setPriorities] = useState<TagItem[]>([]);
+  const [gmailLabelNames, setGmailLabelNames] = useState<Record<string, string>>({});
 
   useEffect(() => {
     const loadTags = async () => {
@@ -82,6 +91,10 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
 
       const fetchedPriorities = await fetchTags(user.id, 'priority');
       setPriorities(fetchedPriorities.map(priority => ({ ...priority, count: 0, type: 'priority' }))); // Initialize count to 0 and set type
+
+      // Label names for the sync indicator come from the local mail store (kept fresh by the mail sync)
+      const labels = await getStoredLabels(user.id).catch(() => []);
+      setGmailLabelNames(Object.fromEntries(labels.map(label => [label.id, label.name])));
     };
 
     if (isAuthenticated) {
@@ -192,6 +205,13 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
     }
   };
 
+  const handleTagLinked = (tagId: string, label: { id: string; name: string } | null) => {
+    const update = (tags: TagItem[]) => tags.map(t => (t.id === tagId ? { ...t, gmail_label_id: label?.id ?? null } : t));
+    setPins(update);
+    setPriorities(update);
+    if (label) setGmailLabelNames(prev => ({ ...prev, [label.id]: label.name }));
+  };
+
   const handleTagClick = (type: string, name: string) => {
     if (pathname !== '/emails') {
       navigate(`/emails?${type}=${encodeURIComponent(name.toLowerCase())}`);
@@ -208,7 +228,8 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
     { href: '/', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/emails', label: 'Emails', icon: Mail },
     { href: '/timeline', label: 'Project', icon: Clock },
-    { href: '/calendar', label: 'Calendar', icon: CalendarDays }
+    { href: '/calendar', label: 'Calendar', icon: CalendarDays },
+    { href: '/insights', label: 'Insights', icon: BarChart3 }
   ];
 
   return (
@@ -232,6 +253,22 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
       </div>
 
       <div className="space-y-1">
+        <button
+          type="button"
+          onClick={() => window.dispatchEvent(new CustomEvent(OPEN_COMMAND_PALETTE_EVENT))}
+          className={cn(
+            "flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-gray-500 transition-colors hover:bg-accent",
+            isCollapsed ? "justify-center px-2" : "justify-start"
+          )}
+        >
+          <Search className="h-4 w-4 text-gray-500" />
+          {!isCollapsed && (
+            <>
+              <span>Search</span>
+              <kbd className="ml-auto rounded border px-1.5 text-[10px] text-muted-foreground">Ctrl K</kbd>
+            </>
+          )}
+        </button>
         {links.map((link) => {
           const Icon = link.icon;
           const isActive = pathname === link.href;
@@ -296,6 +333,21 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
                         </Badge>
                       )}
                     </div>
+                    <div
+                      className={cn(
+                        "h-5 w-5 flex items-center justify-center hover:text-purple-600 flex-shrink-0 cursor-pointer",
+                        pin.gmail_label_id ? "text-purple-600" : "text-gray-400 opacity-0 group-hover:opacity-100"
+                      )}
+                      title={pin.gmail_label_id
+                        ? `Synced with Gmail label "${gmailLabelNames[pin.gmail_label_id] ?? 'unknown'}"`
+                        : 'Sync with a Gmail label'}
+                      onClick={(e) => {
+                        e.stopPropagation(); // Prevent navigation
+                        setTagToLink(pin);
+                      }}
+                    >
+                      <Link2 className="h-3.5 w-3.5" />
+                    </div>
                     <div
                       className="h-5 w-5 flex items-center justify-center text-gray-400 hover:text-red-500 opacity-100 flex-shrink-0 cursor-pointer" // Replaced Button with div
                       onClick={(e) => {
@@ -361,6 +413,21 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
                         </Badge>
                       )}
                     </div>
+                    <div
+                      className={cn(
+                        "h-5 w-5 flex items-center justify-center hover:text-purple-600 flex-shrink-0 cursor-pointer",
+                        priority.gmail_label_id ? "text-purple-600" : "text-gray-400 opacity-0 group-hover:opacity-100"
+                      )}
+                      title={priority.gmail_label_id
+                        ? `Synced with Gmail label "${gmailLabelNames[priority.gmail_label_id] ?? 'unknown'}"`
+                        : 'Sync with a Gmail label'}
+                      onClick={(e) => {
+                        e.stopPropagation(); // Prevent navigation
+                        setTagToLink(priority);
+                      }}
+                    >
+                      <Link2 className="h-3.5 w-3.5" />
+                    </div>
                     <div
                       className="h-5 w-5 flex items-center justify-center text-gray-400 hover:text-red-500 opacity-100 flex-shrink-0 cursor-pointer" // Replaced Button with div
                       onClick={(e) => {
@@ -521,6 +588,16 @@ const Sidebar = ({ isCollapsed, toggleCollapse }: SidebarProps) => {
         </DialogContent>
       </Dialog>
 
+      {/* Dialog for syncing a tag with a Gmail label */}
+      {user?.id && (
+        <TagLabelLinkDialog
+          userId={user.id}
+          tag={tagToLink}
+          onClose={() => setTagToLink(null)}
+          onLinked={handleTagLinked}
+        />
+      )}
+
       {/* Theme Toggle Button at the bottom */}
       {!isCollapsed && (
         <div className="mt-auto px-3 py-2 flex flex-col gap-2">
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from 'lucide-react';
+import {
+  createGmailLabel,
+  fetchGmailUserLabels,
+  GmailUserLabel,
+  linkTagToGmailLabel,
+} from '@/lib/supabaseClient';
+
+interface TagLabelLinkDialogProps {
+  userId: string;
+  tag: { id: string; name: string; gmail_label_id?: string | null } | null;
+  onClose: () => void;
+  onLinked: (tagId: string, label: GmailUserLabel | null) => void;
+}
+
+// Select items can't have an empty value
+const NOT_SYNCED = '__none__';
+const CREATE_LABEL = '__create__';
+
+const TagLabelLinkDialog: React.FC<TagLabelLinkDialogProps> = ({ userId, tag, onClose, onLinked }) => {
+  const [labels, setLabels] = useState<GmailUserLabel[]>([]);
+  const [selected, setSelected] = useState(NOT_SYNCED);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!tag) return;
+    const controller = new AbortController();
+    setSelected(tag.gmail_label_id || NOT_SYNCED);
+    setIsLoading(true);
+    fetchGmailUserLabels(controller.signal)
+      .then(setLabels)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          toast({ title: "Error", description: `Failed to load Gmail labels: ${(err as Error).message}`, variant: "destructive" });
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [tag, toast]);
+
+  const handleSave = async () => {
+    if (!tag) return;
+    setIsSaving(true);
+    try {
+      let label: GmailUserLabel | null = null;
+      if (selected === CREATE_LABEL) {
+        label = await createGmailLabel(tag.name);
+      } else if (selected !== NOT_SYNCED) {
+        label = labels.find(l => l.id === selected) ?? null;
+      }
+      if ((label?.id ?? null) !== (tag.gmail_label_id ?? null)) {
+        await linkTagToGmailLabel(userId, tag.id, label?.id ?? null);
+      }
+      onLinked(tag.id, label);
+      toast({
+        title: "Success",
+        description: label
+          ? `Tag "${tag.name}" is now synced with the Gmail label "${label.name}".`
+          : `Tag "${tag.name}" is no longer synced with Gmail.`,
+      });
+      onClose();
+    } catch (err) {
+      toast({ title: "Error", description: `Failed to update Gmail sync: ${(err as Error).message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!tag} onOpenChange={(open) => { if (!open && !isSaving) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sync with Gmail</DialogTitle>
+          <DialogDescription>
+            Keep the tag "{tag?.name}" in sync with a Gmail label. Tagging an email adds the label in Gmail,
+            and labelling a message in Gmail tags it here. Existing tags and labels are merged when you link them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="tagGmailLabel">Gmail label</Label>
+          <Select value={selected} onValueChange={setSelected} disabled={isLoading || isSaving}>
+            <SelectTrigger id="tagGmailLabel">
+              <SelectValue placeholder={isLoading ? "Loading labels..." : "Choose a label"} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_SYNCED}>Not synced</SelectItem>
+              <SelectItem value={CREATE_LABEL}>Create label "{tag?.name}"</SelectItem>
+              {labels.length > 0 && <SelectSeparator />}
+              {labels.map(label => (
+                <SelectItem key={label.id} value={label.id}>{label.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter className="flex justify-between sm:justify-between">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            className="bg-purple-600 hover:bg-purple-700"
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagLabelLinkDialog;
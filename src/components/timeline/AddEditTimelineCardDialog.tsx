@@ -22,7 +22,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, Trash2, Tag } from 'lucide-react';
+import { Loader2, Trash2, Tag, Mail } from 'lucide-react';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { fetchTags } from '@/lib/supabaseClient'; // For fetching available tags
 import {
@@ -31,6 +31,7 @@ import {
     deleteTimelineCard,
     setTagsForTimelineCard,
     TimelineCard, 
+    TimelineCardDraft,
     TimelineCardInput 
 } from '@/lib/timelineClient'; 
 
@@ -46,6 +47,7 @@ interface AddEditTimelineCardDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   cardToEdit: TimelineCard | null; // Pass the full card data for editing
+  initialValues?: TimelineCardDraft | null; // Pre-fills a new card (ignored when editing)
   onSaveSuccess: (savedCard: TimelineCard) => void;
   onDeleteSuccess: (deletedCardId: string) => void;
 }
@@ -73,6 +75,7 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
   isOpen,
   onOpenChange,
   cardToEdit,
+  initialValues,
   onSaveSuccess,
   onDeleteSuccess,
 }) => {
@@ -88,6 +91,8 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
 
   const isEditing = !!cardToEdit;
+  // The email thread the card links back to, kept as is when editing
+  const emailLink = isEditing ? cardToEdit : initialValues;
 
   // --- Populate form on edit ---
   useEffect(() => {
@@ -98,6 +103,12 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
         setStartDate(formatDateForInput(cardToEdit.start_date));
         setEndDate(formatDateForInput(cardToEdit.end_date)); // Handles null/undefined
         setSelectedTagIds(cardToEdit.tags?.map(tag => tag.id) || []);
+      } else if (initialValues) {
+        setTitle(initialValues.title);
+        setDescription(initialValues.description || '');
+        setStartDate(initialValues.start_date);
+        setEndDate(initialValues.end_date || '');
+        setSelectedTagIds(initialValues.tagIds);
       } else {
         // Reset form for adding
         setTitle('');
@@ -107,7 +118,7 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
         setSelectedTagIds([]);
       }
     }
-  }, [isOpen, isEditing, cardToEdit]);
+  }, [isOpen, isEditing, cardToEdit, initialValues]);
 
   // --- Fetch Available Tags ---
   useEffect(() => {
@@ -167,6 +178,9 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
       description: description.trim() || undefined, // Store undefined if empty
       start_date: startDate,
       end_date: endDate || null, // Store null if empty
+      ...(!isEditing && initialValues?.email_thread_id
+        ? { email_thread_id: initialValues.email_thread_id, email_subject: initialValues.email_subject ?? null }
+        : {}),
     };
 
     try {
@@ -310,6 +324,17 @@ const AddEditTimelineCardDialog: React.FC<AddEditTimelineCardDialogProps> = ({
             />
           </div>
 
+          {/* Linked email thread */}
+          {emailLink?.email_thread_id && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Email</Label>
+              <p className="col-span-3 flex items-center text-sm text-muted-foreground min-w-0">
+                <Mail className="mr-2 h-4 w-4 flex-shrink-0" />
+                <span className="truncate">{emailLink.email_subject || '(No Subject)'}</span>
+              </p>
+            </div>
+          )}
+
           {/* Tags */}
            <div className="grid grid-cols-4 items-center gap-4">
              <Label className="text-right">Tags</Label>
@@ -1,6 +1,7 @@
 import type React from "react"
 import { useTheme } from 'next-themes';
 import { useState, useMemo } from "react"
+import { useNavigate } from "react-router-dom"
 import {
     addDays,
     format,
@@ -17,7 +18,7 @@ import {
     isSameDay,
     isSameMonth,
 } from "date-fns"
-import {  ChevronLeft, ChevronRight, Calendar, Maximize, Minimize } from "lucide-react" // Added Maximize, Minimize
+import {  ChevronLeft, ChevronRight, Calendar, Maximize, Minimize, Mail } from "lucide-react" // Added Maximize, Minimize
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -53,6 +54,7 @@ type ViewType = "weekly" | "monthly" | "yearly"
 const GanttChart: React.FC<GanttChartProps> = ({ cards, isLoading }) => {
     const { theme: currentTheme } = useTheme();
     const darkMode = currentTheme === 'dark';
+    const navigate = useNavigate()
     const [view, setView] = useState<ViewType>("weekly")
     const [currentDate, setCurrentDate] = useState(new Date())
     const [selectedCard, setSelectedCard] = useState<TimelineCard | null>(null)
@@ -441,6 +443,20 @@ const GanttChart: React.FC<GanttChartProps> = ({ cards, isLoading }) => {
                             </div>
                         )}
 
+                        {selectedCard?.email_thread_id && (
+                            <div>
+                                <h4 className="text-sm font-medium mb-1">Email</h4>
+                                <Button
+                                    variant="link"
+                                    className="h-auto p-0 text-sm max-w-full"
+                                    onClick={() => navigate(`/emails/thread/${selectedCard.email_thread_id}`)}
+                                >
+                                    <Mail className="mr-2 h-4 w-4 flex-shrink-0" />
+                                    <span className="truncate">{selectedCard.email_subject || "(No Subject)"}</span>
+                                </Button>
+                            </div>
+                        )}
+
                         {selectedCard?.tags && selectedCard.tags.length > 0 && (
                             <div>
                                 <h4 className="text-sm font-medium mb-1">Tags</h4>
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { buildMimeMessage } from "@/lib/mimeBuilder";
+import {
+  deleteDraft,
+  DraftContent,
+  draftContentToMimeMessage,
+  isDraftContentEmpty,
+  saveDraft,
+} from "@/lib/gmailDrafts";
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// Attachments are compared by name/size/mtime rather than by content.
+const signatureOf = (content: DraftContent): string =>
+  JSON.stringify({
+    ...content,
+    attachments: content.attachments.map((file) => [file.name, file.size, file.lastModified]),
+  });
+
+/**
+ * Saves `content` as a Gmail draft a moment after the user stops typing.
+ * Saves run one at a time so a slow create can never produce two drafts.
+ */
+export const useDraftAutosave = ({
+  content,
+  threadId,
+  enabled,
+  isEmpty = isDraftContentEmpty,
+}: {
+  content: DraftContent;
+  threadId?: string;
+  enabled: boolean;
+  /** Replies come with recipients and subject filled in, so they judge emptiness by the body. */
+  isEmpty?: (content: DraftContent) => boolean;
+}) => {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [status, setStatus] = useState<DraftSaveStatus>("idle");
+  const draftIdRef = useRef<string | null>(null);
+  const savedSignature = useRef<string | null>(null);
+  const saveChain = useRef<Promise<void>>(Promise.resolve());
+  const contentRef = useRef(content);
+  const threadIdRef = useRef(threadId);
+  const enabledRef = useRef(enabled);
+  const isEmptyRef = useRef(isEmpty);
+  contentRef.current = content;
+  isEmptyRef.current = isEmpty;
+  threadIdRef.current = threadId;
+  enabledRef.current = enabled;
+
+  const saveNow = useCallback(async () => {
+    const current = contentRef.current;
+    const signature = signatureOf(current);
+    if (signature === savedSignature.current) return;
+    // Never create an empty draft; an existing one keeps its last content.
+    if (isEmptyRef.current(current) && !draftIdRef.current) return;
+
+    setStatus("saving");
+    try {
+      const mime = buildMimeMessage(await draftContentToMimeMessage(current));
+      const draft = await saveDraft(draftIdRef.current, mime, threadIdRef.current);
+      draftIdRef.current = draft.id;
+      savedSignature.current = signature;
+      setDraftId(draft.id);
+      setStatus("saved");
+    } catch (error) {
+      console.error("Draft autosave failed:", error);
+      setStatus("error");
+    }
+  }, []);
+
+  /** Saves any unsaved changes now and resolves once every pending save has finished. */
+  const flush = useCallback((): Promise<void> => {
+    saveChain.current = saveChain.current.then(saveNow);
+    return saveChain.current;
+  }, [saveNow]);
+
+  /** Waits for in-flight saves without starting a new one (e.g. right before sending). */
+  const settle = useCallback(async (): Promise<string | null> => {
+    await saveChain.current;
+    return draftIdRef.current;
+  }, []);
+
+  /** Saves any unsaved changes and returns the draft id; throws if the draft doesn't match what's on screen. */
+  const persist = useCallback(async (): Promise<string> => {
+    await flush();
+    if (!draftIdRef.current || savedSignature.current !== signatureOf(contentRef.current)) {
+      throw new Error("The message could not be saved as a draft.");
+    }
+    return draftIdRef.current;
+  }, [flush]);
+
+  /** Adopts an existing draft (when resuming) without immediately saving it again. */
+  const load = useCallback((id: string, loadedContent: DraftContent) => {
+    draftIdRef.current = id;
+    savedSignature.current = signatureOf(loadedContent);
+    setDraftId(id);
+    setStatus("saved");
+  }, []);
+
+  /** Forgets the current draft, e.g. after it was sent or when the composer closes. */
+  const reset = useCallback(() => {
+    draftIdRef.current = null;
+    savedSignature.current = null;
+    setDraftId(null);
+    setStatus("idle");
+  }, []);
+
+  const discard = useCallback(async () => {
+    const id = await settle();
+    reset();
+    // Don't let a pending autosave recreate the draft from the text still on screen.
+    savedSignature.current = signatureOf(contentRef.current);
+    if (id) await deleteDraft(id);
+  }, [settle, reset]);
+
+  // Debounced autosave
+  const signature = signatureOf(content);
+  useEffect(() => {
+    if (!enabled || signature === savedSignature.current) return;
+    const timer = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [enabled, signature, flush]);
+
+  // Keep whatever was typed last when the component goes away (navigating off a reply)
+  useEffect(() => {
+    return () => {
+      if (enabledRef.current) flush();
+    };
+  }, [flush]);
+
+  return { draftId, status, flush, settle, persist, load, reset, discard };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+export interface MailSyncContextType {
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  /** Increments whenever the local mail store changes, so lists can re-read it. */
+  storeVersion: number;
+  syncNow: () => Promise<void>;
+  /** Sends scheduled messages that are due now instead of at the next outbox check. */
+  dispatchOutbox: () => Promise<void>;
+}
+
+export const MailSyncContext = createContext<MailSyncContextType | undefined>(undefined);
+
+export const useMailSync = () => {
+  const context = useContext(MailSyncContext);
+  if (context === undefined) {
+    throw new Error('useMailSync must be used within a MailSyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import { DEFAULT_USER_SETTINGS, fetchUserSettings } from "@/lib/supabaseClient";
+import { holdMessage, ScheduleRequest, undoHeldMessage } from "@/lib/outbox";
+
+export interface UndoPrompt {
+  /** The held draft's id. */
+  id: string;
+  title: string;
+  /** When the undo window ends, in ms since the epoch. */
+  endsAt: number;
+  undo: () => void;
+}
+
+// The undo prompts live outside the toasts, which only show one at a time: any toast shown
+// while a message is held would otherwise take away its Undo button
+let prompts: UndoPrompt[] = [];
+const listeners = new Set<(prompts: UndoPrompt[]) => void>();
+
+const setPrompts = (next: UndoPrompt[]) => {
+  prompts = next;
+  listeners.forEach(listener => listener(prompts));
+};
+
+const removePrompt = (id: string) => setPrompts(prompts.filter(prompt => prompt.id !== id));
+
+/** The messages that can still be taken back, for UndoSendPrompts. */
+export const useUndoPrompts = (): UndoPrompt[] => {
+  const [state, setState] = useState(prompts);
+
+  useEffect(() => {
+    listeners.add(setState);
+    setState(prompts);
+    return () => {
+      listeners.delete(setState);
+    };
+  }, []);
+
+  return state;
+};
+
+/**
+ * Sends a saved draft after the user's undo window, showing an Undo prompt meanwhile.
+ * `onUndone` runs once the send was called off, to reopen the draft.
+ */
+export const useUndoSend = () => {
+  const { toast } = useToast();
+
+  return useCallback(
+    async (userId: string, request: ScheduleRequest, onUndone: () => void): Promise<void> => {
+      const settings = await fetchUserSettings(userId).catch(() => DEFAULT_USER_SETTINGS);
+      const seconds = settings.undo_send_seconds;
+      await holdMessage(userId, request, seconds);
+
+      const handleUndo = async () => {
+        removePrompt(request.draftId);
+        try {
+          if (await undoHeldMessage(userId, request.draftId)) {
+            toast({ title: "Sending undone" });
+            onUndone();
+          } else {
+            toast({ title: "Too late to undo", description: "The message is already on its way.", variant: "destructive" });
+          }
+        } catch (error) {
+          toast({ title: "Couldn't undo", description: (error as Error).message, variant: "destructive" });
+        }
+      };
+
+      setPrompts([
+        ...prompts.filter(prompt => prompt.id !== request.draftId),
+        {
+          id: request.draftId,
+          title: request.threadId ? "Sending reply..." : "Sending...",
+          endsAt: Date.now() + seconds * 1000,
+          undo: handleUndo,
+        },
+      ]);
+      window.setTimeout(() => removePrompt(request.draftId), seconds * 1000);
+    },
+    [toast]
+  );
+};
@@ -0,0 +1,248 @@
+// --- Dates in Text ---
+// Finds calendar dates written out in email bodies: ISO dates (2025-03-14), US numeric
+// dates with a year (3/14/2025) and dates with a month name ("March 14", "14th of Mar
+// 2025"). Dates without a year are placed in the reference date's year, or the next one
+// if that would put them well before the reference (a mail from December mentioning
+// "January 5" means the coming one).
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(?:,?\\s+(\\d{4}))?';
+
+const ISO_DATE = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g;
+const US_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g;
+const MONTH_DAY = new RegExp(`\\b${MONTH_NAME}\\s+${DAY}\\b${YEAR}`, 'gi');
+const DAY_MONTH = new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH_NAME}\\b${YEAR}`, 'gi');
+
+// How far before the reference a year-less date may fall before it's taken to mean next year
+const PAST_TOLERANCE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DateMention {
+  date: Date;
+  /** Where in the text the mention starts, so the first one can be picked. */
+  index: number;
+  /** Where it ends, to tell a weekday written right next to an explicit date. */
+  end: number;
+  /** Whether the year was written out rather than taken from the reference. */
+  hasYear?: boolean;
+  /** The day of the week a weekday mention names. */
+  weekday?: number;
+}
+
+const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  // Rejects overflow such as February 31st
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+const withoutYear = (month: number, day: number, reference: Date): Date | null => {
+  const date = buildDate(reference.getFullYear(), month, day);
+  if (!date) return null;
+  const earliest = new Date(reference.getTime() - PAST_TOLERANCE_DAYS * DAY_MS);
+  return date < earliest ? buildDate(reference.getFullYear() + 1, month, day) : date;
+};
+
+const fullYear = (year: string): number => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+const findExplicitDates = (text: string, reference: Date): DateMention[] => {
+  const mentions: DateMention[] = [];
+  const add = (date: Date | null, match: RegExpMatchArray, hasYear: boolean) => {
+    const index = match.index ?? 0;
+    if (date) mentions.push({ date, index, end: index + match[0].length, hasYear });
+  };
+  for (const match of text.matchAll(ISO_DATE)) {
+    const [, year, month, day] = match;
+    add(buildDate(Number(year), Number(month) - 1, Number(day)), match, true);
+  }
+  for (const match of text.matchAll(US_DATE)) {
+    const [, month, day, year] = match;
+    add(buildDate(fullYear(year), Number(month) - 1, Number(day)), match, true);
+  }
+  for (const match of text.matchAll(MONTH_DAY)) {
+    const [, month, day, year] = match;
+    add(year ? buildDate(Number(year), monthIndex(month), Number(day)) : withoutYear(monthIndex(month), Number(day), reference), match, !!year);
+  }
+  for (const match of text.matchAll(DAY_MONTH)) {
+    const [, day, month, year] = match;
+    add(year ? buildDate(Number(year), monthIndex(month), Number(day)) : withoutYear(monthIndex(month), Number(day), reference), match, !!year);
+  }
+  return mentions;
+};
+
+/** Every distinct date mentioned in the text, earliest first, at local midnight. */
+export const findDatesInText = (text: string, reference: Date = new Date()): Date[] => {
+  const byTime = new Map<number, Date>();
+  findExplicitDates(text, reference).forEach(({ date }) => byTime.set(date.getTime(), date));
+  return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+};
+
+// --- Event Details ---
+// Reads what a meeting request says about when and where: the first date mentioned
+// (explicit, or relative such as "tomorrow" or "next Tuesday"), the first time or time
+// range ("3pm", "14:30", "2-3:30pm", "noon"), a duration ("for 45 minutes", "1.5 hour
+// call", "half an hour") and a location ("Location: ..." lines, or a video call link). The subject is
+// read before the body. All relative wording is taken from the reference date, which
+// should be when the email was sent.
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const RELATIVE_DAY = /\b(today|tonight|tomorrow)\b/gi;
+const WEEKDAY = /\b(?:(?:next|this|on)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/gi;
+
+const MERIDIEM = '([ap])\\.?m\\b\\.?';
+const CLOCK = `(\\d{1,2})(?::(\\d{2}))?\\s*(?:${MERIDIEM})?`;
+const TIME_RANGE = new RegExp(`\\b${CLOCK}\\s*(?:-|–|to|until|till)\\s*${CLOCK}`, 'gi');
+const SINGLE_TIME = new RegExp(`\\b${CLOCK}(?![\\w:/-])`, 'gi');
+const NAMED_TIME = /\b(noon|midday|midnight)\b/gi;
+
+const DURATION = /\b(?:(for|lasting)\s+)?(an?|half an|\d+(?:\.\d+)?)[\s-]*(hours?|hrs?|minutes?|mins?)\b/gi;
+const LOCATION_LINE = /^\s*(?:location|where|venue|place|address)\s*:\s*(.+?)\s*$/im;
+const MEETING_LINK = /https?:\/\/(?:[\w-]+\.)*(?:zoom\.us|meet\.google\.com|teams\.microsoft\.com|teams\.live\.com|webex\.com)\/\S+/i;
+
+// Used for the start when a date is found but no time
+const DEFAULT_START_HOUR = 9;
+const DEFAULT_DURATION_MINUTES = 60;
+
+export interface EventDetails {
+  start: Date;
+  end: Date;
+  /** Whether a date was found; without one the event starts on the reference date. */
+  hasDate: boolean;
+  /** Whether a time was found; without one the event starts at 9:00. */
+  hasTime: boolean;
+  location: string | null;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+const findRelativeDates = (text: string, reference: Date): DateMention[] => {
+  const today = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate());
+  const mentions: DateMention[] = [];
+  for (const match of text.matchAll(RELATIVE_DAY)) {
+    const offset = match[1].toLowerCase() === 'tomorrow' ? 1 : 0;
+    const index = match.index ?? 0;
+    mentions.push({ date: new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset), index, end: index + match[0].length });
+  }
+  for (const match of text.matchAll(WEEKDAY)) {
+    // The coming one, a week ahead at most; a weekday named on that same day means next week's
+    const weekday = WEEKDAYS.indexOf(match[1].slice(0, 3).toLowerCase());
+    const ahead = ((weekday - today.getDay() + 7) % 7) || 7;
+    const index = match.index ?? 0;
+    mentions.push({ date: new Date(today.getFullYear(), today.getMonth(), today.getDate() + ahead), index, end: index + match[0].length, weekday });
+  }
+  return mentions;
+};
+
+const toTimeOfDay = (hour: string, minute: string | undefined, meridiem: string | undefined): TimeOfDay | null => {
+  let hours = Number(hour);
+  const minutes = minute ? Number(minute) : 0;
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return { hours, minutes };
+};
+
+const minutesOf = (time: TimeOfDay): number => time.hours * 60 + time.minutes;
+
+// The first time, or time range, in the text. A bare number is not a time: it needs
+// minutes or am/pm, which a range's start may take from its end ("2-3pm").
+const findTime = (text: string): { start: TimeOfDay; end: TimeOfDay | null; index: number } | null => {
+  const found: { start: TimeOfDay; end: TimeOfDay | null; index: number }[] = [];
+
+  for (const match of text.matchAll(TIME_RANGE)) {
+    const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = match;
+    if (!endMeridiem && !(startMinute && endMinute)) continue;
+    const end = toTimeOfDay(endHour, endMinute, endMeridiem);
+    let start = toTimeOfDay(startHour, startMinute, startMeridiem ?? endMeridiem);
+    // "11-1pm": the start is in the morning
+    if (start && end && !startMeridiem && endMeridiem && minutesOf(start) >= minutesOf(end)) {
+      start = toTimeOfDay(startHour, startMinute, 'a');
+    }
+    if (start && end && minutesOf(end) > minutesOf(start)) found.push({ start, end, index: match.index ?? 0 });
+  }
+  for (const match of text.matchAll(SINGLE_TIME)) {
+    const [, hour, minute, meridiem] = match;
+    if (!minute && !meridiem) continue;
+    const start = toTimeOfDay(hour, minute, meridiem);
+    if (start) found.push({ start, end: null, index: match.index ?? 0 });
+  }
+  for (const match of text.matchAll(NAMED_TIME)) {
+    const hours = match[1].toLowerCase() === 'midnight' ? 0 : 12;
+    found.push({ start: { hours, minutes: 0 }, end: null, index: match.index ?? 0 });
+  }
+
+  // A range and the single time at its start share an index; the range comes first
+  return found.sort((a, b) => a.index - b.index)[0] ?? null;
+};
+
+// "a minute" or "an hour" on its own is just a phrase ("take a minute to review"); only
+// "an hour" and "half an hour" count without "for" or "lasting" before them
+const findDurationMinutes = (text: string): number | null => {
+  for (const [, lead, amount, unit] of text.matchAll(DURATION)) {
+    const isArticle = /^an?$/i.test(amount);
+    if (isArticle && !lead && !(amount.toLowerCase() === 'an' && /^h/i.test(unit))) continue;
+    const count = amount.toLowerCase() === 'half an' ? 0.5 : isArticle ? 1 : Number(amount);
+    const minutes = /^h/i.test(unit) ? count * 60 : count;
+    if (minutes > 0 && minutes <= 24 * 60) return Math.round(minutes);
+  }
+  return null;
+};
+
+const findLocation = (text: string): string | null =>
+  text.match(LOCATION_LINE)?.[1] ?? text.match(MEETING_LINK)?.[0] ?? null;
+
+// Only spaces, commas or an opening parenthesis between the two: "Monday, March 16", "3/16 (Mon)"
+const isNextTo = (text: string, first: DateMention, second: DateMention): boolean =>
+  first.end <= second.index && /^[\s,(]*$/.test(text.slice(first.end, second.index));
+
+// A weekday doesn't match the year-less date it was written with: the date is taken in
+// the next year when that makes them agree ("Monday, January 4" sent in December)
+const checkWeekday = (mention: DateMention, weekday: number): Date => {
+  if (mention.hasYear || mention.date.getDay() === weekday) return mention.date;
+  const nextYear = new Date(mention.date.getFullYear() + 1, mention.date.getMonth(), mention.date.getDate());
+  return nextYear.getDay() === weekday ? nextYear : mention.date;
+};
+
+// A weekday written right next to an explicit date only confirms it; the date wins
+const firstDate = (text: string, reference: Date): Date | null => {
+  const explicit = findExplicitDates(text, reference);
+  const relative = findRelativeDates(text, reference).filter(mention => {
+    if (mention.weekday === undefined) return true;
+    const dated = explicit.findIndex(other => isNextTo(text, mention, other) || isNextTo(text, other, mention));
+    if (dated === -1) return true;
+    explicit[dated] = { ...explicit[dated], date: checkWeekday(explicit[dated], mention.weekday) };
+    return false;
+  });
+  return [...explicit, ...relative].sort((a, b) => a.index - b.index)[0]?.date ?? null;
+};
+
+/** When and where the meeting an email asks for takes place, as far as the text tells. */
+export const parseEventDetails = (subject: string, body: string, reference: Date = new Date()): EventDetails => {
+  const date = firstDate(subject, reference) ?? firstDate(body, reference);
+  const time = findTime(subject) ?? findTime(body);
+  const day = date ?? new Date(reference.getFullYear(), reference.getMonth(), reference.getDate());
+
+  const startTime = time?.start ?? { hours: DEFAULT_START_HOUR, minutes: 0 };
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), startTime.hours, startTime.minutes);
+  const duration = time?.end
+    ? minutesOf(time.end) - minutesOf(time.start)
+    : findDurationMinutes(subject) ?? findDurationMinutes(body) ?? DEFAULT_DURATION_MINUTES;
+
+  return {
+    start,
+    end: new Date(start.getTime() + duration * 60 * 1000),
+    hasDate: !!date,
+    hasTime: !!time,
+    location: findLocation(body) ?? findLocation(subject),
+  };
+};
@@ -10,6 +10,10 @@ export interface EmailItem {
     read: boolean;
     starred: boolean;
     tags: { id: string; name: string; color: string; type: string }[];
+    /** Set for items in the Drafts view. */
+    draft?: { id: string; isReply: boolean };
+    /** Set for conversation rows, whose id is the latest message's. */
+    thread?: { messageIds: string[]; messageCount: number };
   }
 
 
@@ -0,0 +1,123 @@
+import { supabase } from './supabaseClient';
+import { parseSender } from './emailHelpers';
+
+// --- Email Templates ---
+// Templates are plain text with {{variables}}. A few variables fill themselves in from
+// the message being written (getTemplateContextValues); any others are asked for when
+// the template is inserted.
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  updated_at: string;
+}
+
+export type EmailTemplateInput = Pick<EmailTemplate, 'name' | 'subject' | 'body'>;
+
+/** What a template can be filled from: the message being replied to, if any. */
+export interface TemplateContext {
+  /** From header of the message being replied to. */
+  from?: string;
+  subject?: string;
+}
+
+export const AUTO_FILL_VARIABLES: { name: string; description: string }[] = [
+  { name: 'sender_name', description: "The sender's name (replies)" },
+  { name: 'sender_first_name', description: "The sender's first name (replies)" },
+  { name: 'sender_email', description: "The sender's address (replies)" },
+  { name: 'subject', description: 'The subject, without Re:/Fwd:' },
+  { name: 'today', description: "Today's date" },
+];
+
+const TEMPLATE_COLUMNS = 'id, name, subject, body, updated_at';
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Variable names used in the subject and body, in order of first use. */
+export const extractTemplateVariables = (template: Pick<EmailTemplate, 'subject' | 'body'>): string[] => {
+  const names = new Set<string>();
+  for (const match of `${template.subject}\n${template.body}`.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+export const getTemplateContextValues = (context: TemplateContext): Record<string, string> => {
+  const values: Record<string, string> = {
+    today: new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+  };
+  if (context.from) {
+    const sender = parseSender(context.from);
+    if (sender.address) values.sender_email = sender.address;
+    // parseSender falls back to the address when there is no display name
+    if (sender.name && sender.name !== sender.address) {
+      values.sender_name = sender.name;
+      values.sender_first_name = sender.name.split(/\s+/)[0];
+    }
+  }
+  const subject = context.subject?.replace(/^((re|fwd?):\s*)+/i, '').trim();
+  if (subject) values.subject = subject;
+  return values;
+};
+
+/** Replaces every known variable; unknown ones are left as they are. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/** Where an inserted template's body goes: in place of an empty body, otherwise after it. */
+export const appendTemplateBody = (current: string, body: string): string =>
+  current.trim() ? `${current.trimEnd()}\n\n${body}` : body;
+
+// --- CRUD ---
+
+export const fetchEmailTemplates = async (userId: string): Promise<EmailTemplate[]> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('Error fetching email templates:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const createEmailTemplate = async (userId: string, input: EmailTemplateInput): Promise<EmailTemplate> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .insert({ user_id: userId, ...input })
+    .select(TEMPLATE_COLUMNS)
+    .single();
+  if (error) {
+    console.error('Error creating email template:', error);
+    throw error;
+  }
+  return data;
+};
+
+export const updateEmailTemplate = async (templateId: string, input: EmailTemplateInput): Promise<EmailTemplate> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .update(input)
+    .eq('id', templateId)
+    .select(TEMPLATE_COLUMNS)
+    .single();
+  if (error) {
+    console.error(`Error updating email template ${templateId}:`, error);
+    throw error;
+  }
+  return data;
+};
+
+export const deleteEmailTemplate = async (templateId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('email_templates')
+    .delete()
+    .eq('id', templateId);
+  if (error) {
+    console.error(`Error deleting email template ${templateId}:`, error);
+    throw error;
+  }
+};
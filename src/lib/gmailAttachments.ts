@@ -0,0 +1,162 @@
+import { GMAIL_API_URL, googleRequest } from './googleApiClient';
+import { getHeaderValue, GmailMessagePart, GmailMessagePayload } from './supabaseClient';
+
+// --- Gmail Attachments ---
+// Attachment bodies are not part of the threads.get response (only an attachmentId),
+// so they are fetched on demand with messages.attachments.get and cached as Blobs.
+
+export interface MessageAttachment {
+  messageId: string;
+  partId: string;
+  /** Missing for small parts whose data is already inlined in the payload. */
+  attachmentId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  /** Content-ID without angle brackets, used by `cid:` references in the HTML body. */
+  contentId?: string;
+  /** Inline image shown inside the body rather than in the attachment list. */
+  inline: boolean;
+  data?: string;
+}
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'text';
+
+const TEXT_PREVIEW_TYPES = ['application/json', 'application/xml', 'text/'];
+const TEXT_PREVIEW_EXTENSIONS = /\.(txt|csv|log|md|json|xml|ics|eml)$/i;
+
+const base64UrlToBytes = (data: string): Uint8Array => {
+  let base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) base64 += '=';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Walks the MIME tree and returns every part that is an attachment or an inline image. */
+export const collectAttachments = (messageId: string, payload: GmailMessagePayload | undefined): MessageAttachment[] => {
+  const attachments: MessageAttachment[] = [];
+  const visit = (part: GmailMessagePayload | GmailMessagePart) => {
+    const attachmentId = 'attachmentId' in part.body ? part.body.attachmentId : undefined;
+    const contentId = getHeaderValue(part.headers || [], 'Content-ID').replace(/^<|>$/g, '') || undefined;
+    const disposition = getHeaderValue(part.headers || [], 'Content-Disposition').toLowerCase();
+    const isBodyText = !part.filename && (part.mimeType === 'text/plain' || part.mimeType === 'text/html');
+
+    if (!part.mimeType.startsWith('multipart/') && !isBodyText && (attachmentId || part.body.data) && (part.filename || contentId)) {
+      attachments.push({
+        messageId,
+        partId: part.partId,
+        attachmentId,
+        filename: part.filename || contentId || 'attachment',
+        mimeType: part.mimeType,
+        size: part.body.size,
+        contentId,
+        inline: !!contentId && !disposition.startsWith('attachment') && part.mimeType.startsWith('image/'),
+        data: part.body.data,
+      });
+    }
+    part.parts?.forEach(visit);
+  };
+  if (payload) visit(payload);
+  return attachments;
+};
+
+export const getPreviewKind = (attachment: Pick<MessageAttachment, 'mimeType' | 'filename'>): AttachmentPreviewKind | null => {
+  const mimeType = attachment.mimeType.toLowerCase();
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (TEXT_PREVIEW_TYPES.some(type => mimeType.startsWith(type)) || TEXT_PREVIEW_EXTENSIONS.test(attachment.filename)) {
+    return 'text';
+  }
+  return null;
+};
+
+// --- Fetching ---
+const blobCache = new Map<string, Promise<Blob>>();
+
+export const fetchAttachmentData = async (messageId: string, attachmentId: string, signal?: AbortSignal): Promise<Uint8Array> => {
+  try {
+    const data = await googleRequest<{ size: number; data: string }>(
+      `${GMAIL_API_URL}/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachmentId)}`,
+      { signal }
+    );
+    return base64UrlToBytes(data.data || '');
+  } catch (error) {
+    console.error(`Error fetching attachment ${attachmentId} of message ${messageId}:`, error);
+    throw error;
+  }
+};
+
+/** Returns the attachment as a Blob typed with its MIME type. Concurrent and repeat calls share one download. */
+export const getAttachmentBlob = (attachment: MessageAttachment, signal?: AbortSignal): Promise<Blob> => {
+  const key = `${attachment.messageId}:${attachment.partId}`;
+  const cached = blobCache.get(key);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    const bytes = attachment.attachmentId
+      ? await fetchAttachmentData(attachment.messageId, attachment.attachmentId, signal)
+      : base64UrlToBytes(attachment.data || '');
+    return new Blob([bytes], { type: attachment.mimeType || 'application/octet-stream' });
+  })();
+  blobCache.set(key, promise);
+  // A failed or aborted download must not stay cached.
+  promise.catch(() => blobCache.delete(key));
+  return promise;
+};
+
+/** The attachment as a File, e.g. to put it back into a composer (drafts, forwards). */
+export const attachmentToFile = async (attachment: MessageAttachment, signal?: AbortSignal): Promise<File> => {
+  const blob = await getAttachmentBlob(attachment, signal);
+  return new File([blob], attachment.filename, { type: attachment.mimeType });
+};
+
+/** Saves the attachment through a temporary link so the browser uses the original filename. */
+export const downloadAttachment = async (attachment: MessageAttachment): Promise<void> => {
+  const blob = await getAttachmentBlob(attachment);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = attachment.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+};
+
+/** Content-ID referenced by a `cid:` URL (which may be percent-encoded). */
+export const contentIdFromCidUrl = (url: string): string => {
+  const value = url.replace(/^cid:/i, '');
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Creates object URLs for the inline images a message's HTML references via `cid:`.
+ * Returns a map of Content-ID to URL; the caller owns the URLs and must revoke them.
+ */
+export const resolveInlineImages = async (
+  html: string,
+  attachments: MessageAttachment[],
+  signal?: AbortSignal
+): Promise<Record<string, string>> => {
+  const referenced = new Set(
+    Array.from(html.matchAll(/cid:[^"'\s)>]+/gi), match => contentIdFromCidUrl(match[0]))
+  );
+  const targets = attachments.filter(a => a.contentId && referenced.has(a.contentId));
+  const urls: Record<string, string> = {};
+  await Promise.all(targets.map(async attachment => {
+    try {
+      const blob = await getAttachmentBlob(attachment, signal);
+      urls[attachment.contentId!] = URL.createObjectURL(blob);
+    } catch (error) {
+      console.warn(`Failed to load inline image ${attachment.contentId}:`, error);
+    }
+  }));
+  return urls;
+};
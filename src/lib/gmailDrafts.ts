@@ -0,0 +1,233 @@
+import {
+  buildGoogleUrl,
+  GMAIL_API_PATH,
+  GMAIL_API_URL,
+  GMAIL_UPLOAD_URL,
+  googleBatch,
+  googleRequest,
+  googleResumableUpload,
+} from './googleApiClient';
+import {
+  decodeBase64Body,
+  findPartByMimeType,
+  getHeaderValue,
+  getMessagePlainText,
+  GmailThreadMessage,
+  SentGmailMessage,
+  SIMPLE_UPLOAD_MAX_BYTES,
+} from './supabaseClient';
+import {
+  encodeRawMessage,
+  fileToMimeAttachment,
+  MessageSignature,
+  MimeMessage,
+  plainTextToHtml,
+  splitSignature,
+} from './mimeBuilder';
+import { attachmentToFile, collectAttachments } from './gmailAttachments';
+
+// --- Gmail Drafts ---
+// Drafts live in Gmail (users.drafts), so anything saved here also shows up in
+// Gmail's own Drafts folder and vice versa. Every update replaces the draft's
+// underlying message, which therefore gets a new message id each time.
+
+export interface GmailDraft {
+  id: string;
+  message: GmailThreadMessage;
+}
+
+export interface DraftSummary {
+  id: string;
+  messageId: string;
+  threadId: string;
+  to: string;
+  subject: string;
+  snippet: string;
+  date: Date;
+  /** Drafts with In-Reply-To belong to an existing thread and resume in its reply box. */
+  isReply: boolean;
+}
+
+/** What the composer and reply box edit; attachments stay as Files until the draft is built. */
+export interface DraftContent {
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  text: string;
+  attachments: File[];
+  inReplyTo?: string;
+  references?: string;
+  /** Kept apart from `text` so it can be swapped or edited on its own. */
+  signature?: MessageSignature | null;
+}
+
+const DRAFT_METADATA_HEADERS = ['To', 'Subject', 'Date', 'In-Reply-To'];
+
+export const isDraftContentEmpty = (content: DraftContent): boolean =>
+  !content.to.trim() && !content.cc.trim() && !content.bcc.trim() && !content.subject.trim()
+  && !content.text.trim() && content.attachments.length === 0;
+
+export const draftContentToMimeMessage = async (content: DraftContent): Promise<MimeMessage> => ({
+  to: content.to,
+  cc: content.cc,
+  bcc: content.bcc,
+  subject: content.subject,
+  text: content.text,
+  html: plainTextToHtml(content.text),
+  attachments: await Promise.all(content.attachments.map(fileToMimeAttachment)),
+  inReplyTo: content.inReplyTo,
+  references: content.references,
+  signature: content.signature,
+});
+
+// --- Listing ---
+export const listDrafts = async (
+  pageToken?: string | null,
+  maxResults: number = 20,
+  signal?: AbortSignal
+): Promise<{ drafts: DraftSummary[]; nextPageToken?: string }> => {
+  try {
+    const page = await googleRequest<{ drafts?: { id: string }[]; nextPageToken?: string }>(`${GMAIL_API_URL}/drafts`, {
+      query: { maxResults, pageToken },
+      signal,
+    });
+    const ids = (page.drafts || []).map(d => d.id);
+
+    const { results, failures } = await googleBatch<GmailDraft>(
+      ids.map(id => ({
+        path: buildGoogleUrl(`${GMAIL_API_PATH}/drafts/${encodeURIComponent(id)}`, {
+          format: 'metadata',
+          metadataHeaders: DRAFT_METADATA_HEADERS,
+        }),
+      })),
+      { signal }
+    );
+    if (failures.length > 0) {
+      console.warn(`Failed to fetch ${failures.length} of ${ids.length} drafts:`, failures);
+    }
+
+    const drafts = results
+      .filter((draft): draft is GmailDraft => !!draft?.message)
+      .map(draft => {
+        const headers = draft.message.payload?.headers || [];
+        const dateHeader = getHeaderValue(headers, 'Date');
+        return {
+          id: draft.id,
+          messageId: draft.message.id,
+          threadId: draft.message.threadId,
+          to: getHeaderValue(headers, 'To'),
+          subject: getHeaderValue(headers, 'Subject'),
+          snippet: draft.message.snippet || '',
+          date: dateHeader ? new Date(dateHeader) : new Date(Number(draft.message.internalDate || 0)),
+          isReply: !!getHeaderValue(headers, 'In-Reply-To'),
+        };
+      });
+    return { drafts, nextPageToken: page.nextPageToken };
+  } catch (error) {
+    console.error('Error listing drafts:', error);
+    throw error;
+  }
+};
+
+// --- Loading a Draft for Editing ---
+
+/** Fetches a draft and turns it back into editable fields, re-downloading its attachments as Files. */
+export const loadDraftContent = async (
+  draftId: string,
+  signal?: AbortSignal
+): Promise<{ draft: GmailDraft; content: DraftContent }> => {
+  try {
+    const draft = await googleRequest<GmailDraft>(`${GMAIL_API_URL}/drafts/${encodeURIComponent(draftId)}`, {
+      query: { format: 'full' },
+      signal,
+    });
+    const payload = draft.message.payload;
+    const headers = payload?.headers || [];
+
+    const htmlPart = payload ? findPartByMimeType(payload, 'text/html') : null;
+    const { text, signature } = splitSignature(
+      getMessagePlainText(payload),
+      htmlPart ? decodeBase64Body(htmlPart.body.data) : ''
+    );
+    const attachments = await Promise.all(
+      collectAttachments(draft.message.id, payload).map(attachment => attachmentToFile(attachment, signal))
+    );
+
+    return {
+      draft,
+      content: {
+        to: getHeaderValue(headers, 'To'),
+        cc: getHeaderValue(headers, 'Cc'),
+        bcc: getHeaderValue(headers, 'Bcc'),
+        subject: getHeaderValue(headers, 'Subject'),
+        text,
+        attachments,
+        signature,
+        inReplyTo: getHeaderValue(headers, 'In-Reply-To') || undefined,
+        references: getHeaderValue(headers, 'References') || undefined,
+      },
+    };
+  } catch (error) {
+    console.error(`Error loading draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+// --- Saving and Deleting ---
+
+/** Creates the draft when `draftId` is null, otherwise replaces its content. */
+export const saveDraft = async (
+  draftId: string | null,
+  mime: string,
+  threadId?: string,
+  signal?: AbortSignal
+): Promise<GmailDraft> => {
+  const path = draftId ? `drafts/${encodeURIComponent(draftId)}` : 'drafts';
+  const method = draftId ? 'PUT' : 'POST';
+  try {
+    if (mime.length <= SIMPLE_UPLOAD_MAX_BYTES) {
+      return await googleRequest<GmailDraft>(`${GMAIL_API_URL}/${path}`, {
+        method,
+        body: { id: draftId ?? undefined, message: { raw: encodeRawMessage(mime), threadId } },
+        signal,
+        // A retried create could leave a duplicate draft behind.
+        maxRetries: draftId ? undefined : 0,
+      });
+    }
+    return await googleResumableUpload<GmailDraft>(`${GMAIL_UPLOAD_URL}/${path}`, new Blob([mime]), {
+      method,
+      metadata: { id: draftId ?? undefined, message: threadId ? { threadId } : {} },
+      contentType: 'message/rfc822',
+      signal,
+    });
+  } catch (error) {
+    console.error(`Error saving draft ${draftId ?? '(new)'}:`, error);
+    throw error;
+  }
+};
+
+export const deleteDraft = async (draftId: string): Promise<void> => {
+  try {
+    await googleRequest(`${GMAIL_API_URL}/drafts/${encodeURIComponent(draftId)}`, { method: 'DELETE' });
+  } catch (error) {
+    console.error(`Error deleting draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+/** Sends a draft exactly as it was last saved; Gmail replaces it with the sent message. */
+export const sendDraft = async (draftId: string, signal?: AbortSignal): Promise<SentGmailMessage> => {
+  try {
+    return await googleRequest<SentGmailMessage>(`${GMAIL_API_URL}/drafts/send`, {
+      method: 'POST',
+      body: { id: draftId },
+      signal,
+      // Sending is not idempotent: a retried 5xx could deliver the message twice.
+      maxRetries: 0,
+    });
+  } catch (error) {
+    console.error(`Error sending draft ${draftId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,134 @@
+import { FilterMode } from './tagFiltering';
+
+// --- Advanced Search ---
+// The search panel edits an AdvancedSearch, which lives in the URL (so searches can be
+// shared and survive a reload) and is compiled to Gmail's query syntax. Tags are ours,
+// not Gmail's, so they can't be part of the query; they are applied to the results.
+
+export type SizeComparison = 'larger' | 'smaller';
+
+export interface AdvancedSearch {
+  /** Free text from the search box, passed through as typed (it may use Gmail operators itself). */
+  text: string;
+  from: string;
+  to: string;
+  subject: string;
+  hasAttachment: boolean;
+  /** yyyy-mm-dd, as produced by <input type="date">; both ends are inclusive. */
+  after: string;
+  before: string;
+  /** Gmail label name. */
+  label: string;
+  sizeComparison: SizeComparison;
+  /** In MB; empty for no size filter. */
+  size: string;
+  tagIds: string[];
+  tagMode: FilterMode;
+}
+
+export const EMPTY_SEARCH: AdvancedSearch = {
+  text: '',
+  from: '',
+  to: '',
+  subject: '',
+  hasAttachment: false,
+  after: '',
+  before: '',
+  label: '',
+  sizeComparison: 'larger',
+  size: '',
+  tagIds: [],
+  tagMode: 'any',
+};
+
+// Every URL parameter owned by the search; anything else in the URL is left alone.
+// `tags`/`mode` are shared with the tag filter dropdown.
+export const SEARCH_PARAM_KEYS = [
+  'q', 'from', 'to', 'subject', 'has', 'after', 'before', 'label', 'larger', 'smaller', 'tags', 'mode',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const readAdvancedSearch = (params: URLSearchParams): AdvancedSearch => {
+  const smaller = params.get('smaller');
+  const date = (key: string) => {
+    const value = params.get(key) || '';
+    return DATE_PATTERN.test(value) ? value : '';
+  };
+  return {
+    text: params.get('q') || '',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    subject: params.get('subject') || '',
+    hasAttachment: params.get('has') === 'attachment',
+    after: date('after'),
+    before: date('before'),
+    label: params.get('label') || '',
+    sizeComparison: smaller ? 'smaller' : 'larger',
+    size: smaller || params.get('larger') || '',
+    tagIds: params.get('tags')?.split(',').filter(Boolean) || [],
+    tagMode: params.get('mode') === 'all' ? 'all' : 'any',
+  };
+};
+
+/** Returns a copy of `params` with the search fields replaced by `search`. */
+export const writeAdvancedSearch = (params: URLSearchParams, search: AdvancedSearch): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  SEARCH_PARAM_KEYS.forEach(key => next.delete(key));
+  const set = (key: string, value: string) => {
+    if (value.trim()) next.set(key, value.trim());
+  };
+  set('q', search.text);
+  set('from', search.from);
+  set('to', search.to);
+  set('subject', search.subject);
+  if (search.hasAttachment) next.set('has', 'attachment');
+  set('after', search.after);
+  set('before', search.before);
+  set('label', search.label);
+  set(search.sizeComparison, search.size);
+  if (search.tagIds.length > 0) {
+    next.set('tags', search.tagIds.join(','));
+    next.set('mode', search.tagMode);
+  }
+  return next;
+};
+
+// Values with spaces or query syntax in them are quoted; quotes inside can't be escaped.
+const quoteValue = (value: string): string => {
+  const trimmed = value.trim();
+  return /[\s"(){}]/.test(trimmed) ? `"${trimmed.replace(/"/g, '')}"` : trimmed;
+};
+
+const toGmailDate = (date: string, addDays: number = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const d = new Date(year, month - 1, day + addDays);
+  return `${d.getFullYear()}/${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+/** Compiles everything but the tags to a Gmail `q` string; empty when nothing is set. */
+export const buildGmailQuery = (search: AdvancedSearch): string => {
+  const terms: string[] = [];
+  if (search.text.trim()) terms.push(search.text.trim());
+  if (search.from.trim()) terms.push(`from:${quoteValue(search.from)}`);
+  if (search.to.trim()) terms.push(`to:${quoteValue(search.to)}`);
+  if (search.subject.trim()) terms.push(`subject:${quoteValue(search.subject)}`);
+  if (search.hasAttachment) terms.push('has:attachment');
+  if (search.after) terms.push(`after:${toGmailDate(search.after)}`);
+  // Gmail's before: excludes the given day
+  if (search.before) terms.push(`before:${toGmailDate(search.before, 1)}`);
+  if (search.label.trim()) terms.push(`label:${quoteValue(search.label)}`);
+  const size = parseFloat(search.size);
+  if (size > 0) {
+    // Gmail sizes are whole bytes (or K/M suffixes), so fractional MB go in bytes
+    terms.push(`${search.sizeComparison}:${Number.isInteger(size) ? `${size}M` : Math.round(size * 1024 * 1024)}`);
+  }
+  return terms.join(' ');
+};
+
+/** Number of fields set besides the free text, for the panel's badge. */
+export const countSearchFilters = (search: AdvancedSearch): number =>
+  [search.from, search.to, search.subject, search.after, search.before, search.label, search.size]
+    .filter(value => value.trim()).length
+  + (search.hasAttachment ? 1 : 0)
+  + (search.tagIds.length > 0 ? 1 : 0);
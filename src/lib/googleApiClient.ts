@@ -0,0 +1,632 @@
+import { supabase } from './supabaseClient';
+
+// --- Google API Base URLs ---
+export const GMAIL_API_PATH = '/gmail/v1/users/me';
+export const GMAIL_API_URL = `https://gmail.googleapis.com${GMAIL_API_PATH}`;
+export const GOOGLE_CALENDAR_API_URL = 'https://www.googleapis.com/calendar/v3';
+
+// --- Typed Errors ---
+
+/**
+ * Base class for every error returned by a Google API call.
+ * `status` is the HTTP status (0 for network failures) and `reason` is the
+ * first machine-readable reason Google reported, when there is one.
+ */
+export class GoogleApiError extends Error {
+  status: number;
+  reason?: string;
+
+  constructor(message: string, status: number, reason?: string) {
+    super(message);
+    this.name = 'GoogleApiError';
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+/** The provider token is missing, expired or revoked. The user has to sign in again. */
+export class GoogleTokenExpiredError extends GoogleApiError {
+  constructor(message: string = 'Google API token expired') {
+    super(message, 401, 'authError');
+    this.name = 'GoogleTokenExpiredError';
+  }
+}
+
+/** The token is valid but was not granted the scope this call needs. */
+export class GoogleInsufficientScopeError extends GoogleApiError {
+  constructor(message: string = 'Missing permission for this Google API call', reason?: string) {
+    super(message, 403, reason ?? 'insufficientPermissions');
+    this.name = 'GoogleInsufficientScopeError';
+  }
+}
+
+/** A per-user or per-project quota was hit (429, or 403 with a rate limit reason). */
+export class GoogleRateLimitError extends GoogleApiError {
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, reason?: string, retryAfterMs?: number) {
+    super(message, status, reason);
+    this.name = 'GoogleRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class GoogleNotFoundError extends GoogleApiError {
+  constructor(message: string = 'Requested Google resource was not found') {
+    super(message, 404, 'notFound');
+    this.name = 'GoogleNotFoundError';
+  }
+}
+
+export class GoogleServerError extends GoogleApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, status, reason);
+    this.name = 'GoogleServerError';
+  }
+}
+
+export const isTokenExpiredError = (error: unknown): error is GoogleTokenExpiredError =>
+  error instanceof GoogleTokenExpiredError;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/** Errors that retrying or skipping a single item cannot fix, so a whole batch should stop. */
+export const isFatalGoogleError = (error: unknown): boolean =>
+  isAbortError(error) || error instanceof GoogleTokenExpiredError || error instanceof GoogleInsufficientScopeError;
+
+// --- Access Token ---
+export const getGoogleAccessToken = async (): Promise<string> => {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError) {
+    console.error('Error getting Supabase session:', sessionError);
+    throw new GoogleTokenExpiredError();
+  }
+  if (!session?.provider_token) {
+    console.error('No provider_token found in session. User might need to re-authenticate with Google.');
+    throw new GoogleTokenExpiredError();
+  }
+  return session.provider_token;
+};
+
+// --- Request Options ---
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface GoogleRequestOptions {
+  method?: string;
+  /** Query parameters; array values are repeated (e.g. metadataHeaders). */
+  query?: Record<string, QueryValue | QueryValue[]>;
+  /** Plain objects are sent as JSON; strings, Blobs and FormData are sent as-is. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Number of retries for 429/5xx/network failures. Defaults to 3. */
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+const RATE_LIMIT_REASONS = new Set([
+  'rateLimitExceeded',
+  'userRateLimitExceeded',
+  'quotaExceeded',
+  'dailyLimitExceeded',
+  'RATE_LIMIT_EXCEEDED',
+  'RESOURCE_EXHAUSTED',
+]);
+
+const SCOPE_REASONS = new Set([
+  'insufficientPermissions',
+  'ACCESS_TOKEN_SCOPE_INSUFFICIENT',
+]);
+
+export const buildGoogleUrl = (url: string, query?: GoogleRequestOptions['query']): string => {
+  if (!query) return url;
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(v => {
+      if (v !== undefined && v !== null && v !== '') params.append(key, String(v));
+    });
+  });
+  const qs = params.toString();
+  if (!qs) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${qs}`;
+};
+
+// Parses `Retry-After` as either delta-seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+};
+
+const backoffDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Full jitter keeps parallel callers from retrying in lockstep.
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface GoogleErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    errors?: { reason?: string; message?: string }[];
+    details?: { reason?: string }[];
+  } | string;
+  error_description?: string;
+}
+
+/**
+ * Converts a failed response into the matching typed error.
+ * Exported so callers that parse multipart batch responses can reuse it.
+ */
+export const toGoogleApiError = (
+  status: number,
+  body: GoogleErrorBody | null,
+  headers?: Headers
+): GoogleApiError => {
+  const errorObj = typeof body?.error === 'object' ? body.error : undefined;
+  const message = errorObj?.message
+    || (typeof body?.error === 'string' ? body.error_description || body.error : undefined)
+    || `Google API request failed with status ${status}`;
+  const reasons = [
+    ...(errorObj?.errors?.map(e => e.reason) ?? []),
+    ...(errorObj?.details?.map(d => d.reason) ?? []),
+    errorObj?.status,
+  ].filter((r): r is string => !!r);
+  const reason = reasons[0];
+  const wwwAuthenticate = headers?.get('WWW-Authenticate') || '';
+
+  if (status === 401) {
+    return new GoogleTokenExpiredError();
+  }
+  if (status === 429 || (status === 403 && reasons.some(r => RATE_LIMIT_REASONS.has(r)))) {
+    return new GoogleRateLimitError(message, status, reason, parseRetryAfter(headers?.get('Retry-After') ?? null));
+  }
+  if (status === 403 && (reasons.some(r => SCOPE_REASONS.has(r)) || wwwAuthenticate.includes('insufficient_scope'))) {
+    return new GoogleInsufficientScopeError(message, reason);
+  }
+  if (status === 404) {
+    return new GoogleNotFoundError(message);
+  }
+  if (status >= 500) {
+    return new GoogleServerError(message, status, reason);
+  }
+  return new GoogleApiError(message, status, reason);
+};
+
+const isRetryable = (error: GoogleApiError): boolean =>
+  error instanceof GoogleRateLimitError || error instanceof GoogleServerError || error.status === 0;
+
+const serializeBody = (body: unknown, headers: Record<string, string>): BodyInit | undefined => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string' || body instanceof Blob || body instanceof FormData || body instanceof ArrayBuffer) {
+    return body as BodyInit;
+  }
+  if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return JSON.stringify(body);
+};
+
+// --- Core Request Functions ---
+
+/**
+ * Sends an authenticated request to a Google API and returns the raw Response.
+ * Retries 429/5xx and network failures with exponential backoff (honouring
+ * `Retry-After`), maps failures to typed errors and stops as soon as `signal` aborts.
+ */
+export const googleFetch = async (url: string, options: GoogleRequestOptions = {}): Promise<Response> => {
+  const { method = 'GET', query, body, signal, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fullUrl = buildGoogleUrl(url, query);
+
+  for (let attempt = 0; ; attempt++) {
+    const accessToken = await getGoogleAccessToken();
+    const headers: Record<string, string> = { ...options.headers, Authorization: `Bearer ${accessToken}` };
+    const requestBody = serializeBody(body, headers);
+
+    let error: GoogleApiError;
+    try {
+      const response = await fetch(fullUrl, { method, headers, body: requestBody, signal });
+      if (response.ok) return response;
+
+      const errorBody: GoogleErrorBody | null = await response.json().catch(() => null);
+      error = toGoogleApiError(response.status, errorBody, response.headers);
+    } catch (fetchError) {
+      if (isAbortError(fetchError) || signal?.aborted) throw fetchError;
+      if (fetchError instanceof GoogleApiError) throw fetchError;
+      error = new GoogleApiError(`Network error calling Google API: ${(fetchError as Error).message}`, 0, 'networkError');
+    }
+
+    if (!isRetryable(error) || attempt >= maxRetries) {
+      console.error(`Google API ${method} ${url} failed (${error.status}):`, error.message);
+      throw error;
+    }
+
+    const retryAfter = error instanceof GoogleRateLimitError ? error.retryAfterMs : undefined;
+    const delay = Math.min(MAX_BACKOFF_MS, retryAfter ?? backoffDelay(attempt));
+    console.warn(`Google API ${method} ${url} failed (${error.status}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries}).`);
+    await sleep(delay, signal);
+  }
+};
+
+/** Like `googleFetch`, but parses the JSON body. Returns `undefined` for empty (204) responses. */
+export const googleRequest = async <T>(url: string, options: GoogleRequestOptions = {}): Promise<T> => {
+  const response = await googleFetch(url, options);
+  if (response.status === 204) return undefined as T;
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+};
+
+// --- Batch Requests ---
+// Gmail (and other Google APIs) accept up to 100 sub-requests in one multipart/mixed
+// POST to /batch/<api>/<version>. Each sub-request still counts against the per-user
+// quota, so large lists are split into chunks and only a few chunks run at once.
+
+export const GMAIL_BATCH_URL = 'https://gmail.googleapis.com/batch/gmail/v1';
+
+export interface BatchSubRequest {
+  method?: string;
+  /** Path relative to the API host, e.g. `/gmail/v1/users/me/messages/abc?format=metadata`. */
+  path: string;
+  body?: unknown;
+}
+
+export interface BatchOptions {
+  signal?: AbortSignal;
+  /** Sub-requests per HTTP batch. Gmail recommends at most 50. */
+  chunkSize?: number;
+  /** Maximum number of batch requests in flight at once. */
+  concurrency?: number;
+  /** How many times sub-requests that failed with 429/5xx are retried. */
+  maxRetries?: number;
+}
+
+export interface BatchFailure {
+  index: number;
+  error: GoogleApiError;
+}
+
+export interface BatchResult<T> {
+  /** One entry per sub-request, in request order; `undefined` where the sub-request failed. */
+  results: (T | undefined)[];
+  failures: BatchFailure[];
+}
+
+const DEFAULT_BATCH_CHUNK_SIZE = 50;
+const DEFAULT_BATCH_CONCURRENCY = 2;
+const MAX_BATCH_CHUNK_SIZE = 100;
+
+interface ParsedBatchPart {
+  index: number;
+  status: number;
+  headers: Headers;
+  body: string;
+}
+
+const splitHead = (text: string): [string, string] => {
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) return [text, ''];
+  return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+};
+
+const parseHeaderLines = (block: string): Headers => {
+  const headers = new Headers();
+  block.split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  });
+  return headers;
+};
+
+const buildBatchBody = (requests: { index: number; request: BatchSubRequest }[], boundary: string): string => {
+  const parts = requests.map(({ index, request }) => {
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item-${index}>`,
+      '',
+      `${request.method || 'GET'} ${request.path} HTTP/1.1`,
+    ];
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(request.body));
+    }
+    return lines.join('\r\n') + '\r\n';
+  });
+  return parts.join('\r\n') + `\r\n--${boundary}--`;
+};
+
+const parseBatchResponse = (text: string, boundary: string): ParsedBatchPart[] => {
+  const parsed: ParsedBatchPart[] = [];
+  text.split(`--${boundary}`).forEach(rawPart => {
+    const part = rawPart.replace(/^\r?\n/, '');
+    if (!part.trim() || part.startsWith('--')) return;
+
+    const [outerHead, httpMessage] = splitHead(part);
+    const idMatch = /Content-ID:\s*<response-item-(\d+)>/i.exec(outerHead);
+    if (!idMatch) return;
+
+    const [httpHead, body] = splitHead(httpMessage);
+    const [statusLine, ...headerLines] = httpHead.split(/\r?\n/);
+    const statusMatch = /^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine);
+    parsed.push({
+      index: Number(idMatch[1]),
+      status: statusMatch ? Number(statusMatch[1]) : 0,
+      headers: parseHeaderLines(headerLines.join('\n')),
+      body: body.trim(),
+    });
+  });
+  return parsed;
+};
+
+const sendBatchChunk = async (
+  batchUrl: string,
+  chunk: { index: number; request: BatchSubRequest }[],
+  signal?: AbortSignal
+): Promise<ParsedBatchPart[]> => {
+  const boundary = `batch_${Math.random().toString(36).slice(2)}`;
+  const response = await googleFetch(batchUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+    body: buildBatchBody(chunk, boundary),
+    signal,
+  });
+  const contentType = response.headers.get('Content-Type') || '';
+  const responseBoundary = /boundary=("?)([^";]+)\1/i.exec(contentType)?.[2];
+  const text = await response.text();
+  if (!responseBoundary) {
+    throw new GoogleApiError('Batch response is missing its multipart boundary', response.status, 'badBatchResponse');
+  }
+  return parseBatchResponse(text, responseBoundary);
+};
+
+/**
+ * Runs many small requests through a Google batch endpoint.
+ * The whole call only throws for fatal errors (expired token, missing scope, abort);
+ * individual sub-request failures are returned in `failures` so callers can decide
+ * whether a partial result is good enough.
+ */
+export const googleBatch = async <T>(
+  requests: BatchSubRequest[],
+  options: BatchOptions & { batchUrl?: string } = {}
+): Promise<BatchResult<T>> => {
+  const {
+    signal,
+    batchUrl = GMAIL_BATCH_URL,
+    chunkSize = DEFAULT_BATCH_CHUNK_SIZE,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    maxRetries = DEFAULT_MAX_RETRIES,
+  } = options;
+  const size = Math.max(1, Math.min(MAX_BATCH_CHUNK_SIZE, chunkSize));
+
+  const results: (T | undefined)[] = new Array(requests.length).fill(undefined);
+  const errors = new Map<number, GoogleApiError>();
+  let pending = requests.map((request, index) => ({ index, request }));
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const chunks: (typeof pending)[] = [];
+    for (let i = 0; i < pending.length; i += size) chunks.push(pending.slice(i, i + size));
+
+    const retryable: typeof pending = [];
+    let retryAfterMs = 0;
+
+    // Simple worker pool: at most `concurrency` chunks are in flight.
+    let nextChunk = 0;
+    const worker = async () => {
+      while (nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        let parts: ParsedBatchPart[];
+        try {
+          parts = await sendBatchChunk(batchUrl, chunk, signal);
+        } catch (chunkError) {
+          if (isFatalGoogleError(chunkError) || !(chunkError instanceof GoogleApiError)) throw chunkError;
+          // The whole chunk failed even after googleFetch's own retries.
+          chunk.forEach(({ index }) => errors.set(index, chunkError));
+          continue;
+        }
+
+        const seen = new Set<number>();
+        parts.forEach(part => {
+          seen.add(part.index);
+          if (part.status >= 200 && part.status < 300) {
+            try {
+              results[part.index] = (part.body ? JSON.parse(part.body) : undefined) as T;
+              errors.delete(part.index);
+            } catch {
+              // A garbled part fails its own sub-request only
+              errors.set(part.index, new GoogleApiError('Batch response part is not valid JSON', part.status, 'badBatchPart'));
+            }
+            return;
+          }
+          let errorBody = null;
+          try { errorBody = part.body ? JSON.parse(part.body) : null; } catch { /* non-JSON error body */ }
+          const error = toGoogleApiError(part.status, errorBody, part.headers);
+          // Same as googleRequest: an expired token or a missing scope ends the whole call
+          if (isFatalGoogleError(error)) throw error;
+          errors.set(part.index, error);
+          if (isRetryable(error)) {
+            retryable.push({ index: part.index, request: requests[part.index] });
+            if (error instanceof GoogleRateLimitError && error.retryAfterMs) {
+              retryAfterMs = Math.max(retryAfterMs, error.retryAfterMs);
+            }
+          }
+        });
+        chunk.forEach(({ index, request }) => {
+          if (!seen.has(index)) {
+            errors.set(index, new GoogleApiError('Batch response did not include this request', 0, 'missingBatchPart'));
+            retryable.push({ index, request });
+          }
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, chunks.length)) }, worker));
+
+    if (retryable.length === 0 || attempt >= maxRetries) break;
+    const delay = Math.min(MAX_BACKOFF_MS, retryAfterMs || backoffDelay(attempt));
+    console.warn(`Google batch: retrying ${retryable.length} sub-request(s) in ${delay}ms (attempt ${attempt + 1}/${maxRetries}).`);
+    await sleep(delay, signal);
+    pending = retryable.sort((a, b) => a.index - b.index);
+  }
+
+  const failures: BatchFailure[] = Array.from(errors.entries())
+    .map(([index, error]) => ({ index, error }))
+    .sort((a, b) => a.index - b.index);
+  return { results, failures };
+};
+
+// --- Resumable Uploads ---
+// Media endpoints (e.g. Gmail messages.send / drafts.create) accept large payloads
+// through the resumable protocol: one POST opens a session, then the bytes are PUT
+// in chunks. After a dropped connection the session is asked how much it received
+// and the upload continues from there instead of starting over.
+
+export const GMAIL_UPLOAD_URL = `https://gmail.googleapis.com/upload${GMAIL_API_PATH}`;
+
+export interface ResumableUploadOptions {
+  /** Method used to open the session (POST for create/send, PUT for update). */
+  method?: string;
+  /** JSON metadata sent with the session request, e.g. `{ threadId }`. */
+  metadata?: unknown;
+  contentType: string;
+  signal?: AbortSignal;
+  /** Bytes per PUT. Rounded down to a multiple of 256 KiB as the protocol requires. */
+  chunkSize?: number;
+  maxRetries?: number;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+const UPLOAD_CHUNK_GRANULARITY = 256 * 1024;
+const DEFAULT_UPLOAD_CHUNK_SIZE = 20 * UPLOAD_CHUNK_GRANULARITY; // 5 MiB
+
+// Parses the `Range: bytes=0-N` header of a 308 response into the next offset.
+const nextUploadOffset = (response: Response): number => {
+  const range = response.headers.get('Range');
+  const match = range ? /bytes=\d+-(\d+)/.exec(range) : null;
+  return match ? Number(match[1]) + 1 : 0;
+};
+
+const putUploadBytes = async (
+  sessionUrl: string,
+  body: Blob | null,
+  contentRange: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const accessToken = await getGoogleAccessToken();
+  return fetch(sessionUrl, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Range': contentRange },
+    body,
+    signal,
+  });
+};
+
+/**
+ * Uploads `content` through a resumable session and returns the parsed final response.
+ * `url` is the media upload URL without `uploadType`.
+ */
+export const googleResumableUpload = async <T>(
+  url: string,
+  content: Blob,
+  options: ResumableUploadOptions
+): Promise<T> => {
+  const { method = 'POST', metadata, contentType, signal, maxRetries = DEFAULT_MAX_RETRIES, onProgress } = options;
+  const chunkSize = Math.max(
+    UPLOAD_CHUNK_GRANULARITY,
+    Math.floor((options.chunkSize ?? DEFAULT_UPLOAD_CHUNK_SIZE) / UPLOAD_CHUNK_GRANULARITY) * UPLOAD_CHUNK_GRANULARITY
+  );
+  const total = content.size;
+
+  // Opening the session has no side effects, so it can use the normal retry loop.
+  const session = await googleFetch(url, {
+    method,
+    query: { uploadType: 'resumable' },
+    headers: {
+      'X-Upload-Content-Type': contentType,
+      'X-Upload-Content-Length': String(total),
+    },
+    body: metadata ?? {},
+    signal,
+  });
+  const sessionUrl = session.headers.get('Location');
+  if (!sessionUrl) {
+    throw new GoogleApiError('Resumable upload session did not return a Location', session.status, 'badUploadResponse');
+  }
+
+  let offset = 0;
+  let failures = 0;
+  for (;;) {
+    const end = Math.min(offset + chunkSize, total);
+    let response: Response | null = null;
+    let error: GoogleApiError | null = null;
+    try {
+      response = await putUploadBytes(
+        sessionUrl,
+        content.slice(offset, end),
+        total === 0 ? 'bytes */0' : `bytes ${offset}-${end - 1}/${total}`,
+        signal
+      );
+    } catch (fetchError) {
+      if (isAbortError(fetchError) || signal?.aborted) throw fetchError;
+      if (fetchError instanceof GoogleApiError) throw fetchError;
+      error = new GoogleApiError(`Network error during upload: ${(fetchError as Error).message}`, 0, 'networkError');
+    }
+
+    if (response?.ok) {
+      onProgress?.(total, total);
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+    if (response?.status === 308) {
+      offset = nextUploadOffset(response);
+      failures = 0;
+      onProgress?.(offset, total);
+      continue;
+    }
+    if (response) {
+      const errorBody: GoogleErrorBody | null = await response.json().catch(() => null);
+      error = toGoogleApiError(response.status, errorBody, response.headers);
+    }
+
+    // 404/410 mean the session itself is gone; only a fresh upload can recover.
+    if (!error || !isRetryable(error) || failures >= maxRetries) {
+      console.error(`Resumable upload to ${url} failed (${error?.status}):`, error?.message);
+      throw error;
+    }
+    const retryAfter = error instanceof GoogleRateLimitError ? error.retryAfterMs : undefined;
+    await sleep(Math.min(MAX_BACKOFF_MS, retryAfter ?? backoffDelay(failures)), signal);
+    failures++;
+
+    // Ask the session how much actually arrived before sending more.
+    const status = await putUploadBytes(sessionUrl, null, `bytes */${total}`, signal).catch(() => null);
+    if (status?.ok) {
+      onProgress?.(total, total);
+      const text = await status.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+    if (status?.status === 308) offset = nextUploadOffset(status);
+  }
+};
@@ -1,24 +1,5 @@
-import { supabase, fetchCalendarEventTagsForEventIds } from './supabaseClient'; 
-
-// --- Helper Function to get Access Token (Specific to Calendar, might be consolidated later) ---
-const getCalendarAccessToken = async (): Promise<string | null> => {
-  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-  if (sessionError) {
-    console.error('Error getting Supabase session:', sessionError);
-    return null;
-  }
-  // Log session data to inspect provider_token presence
-  console.log('getCalendarAccessToken: Supabase session data:', session);
-  // Ensure the provider_token exists and potentially check if calendar scopes were granted
-  if (!session?.provider_token) {
-    console.error('No provider_token found in session. User might need to re-authenticate with Calendar scope.');
-    throw new Error('Google API token expired'); // Throw the specific error message
-  }
-  return session.provider_token;
-};
-
-// --- Google Calendar API Base URL ---
-const GOOGLE_CALENDAR_API_URL = 'https://www.googleapis.com/calendar/v3';
+import { fetchCalendarEventTagsForEventIds } from './supabaseClient';
+import { GOOGLE_CALENDAR_API_URL, googleRequest, isTokenExpiredError } from './googleApiClient';
 
 // --- Interfaces for Google Calendar Event Resource ---
 // Define Tag type locally or import if shared
@@ -35,16 +16,44 @@ interface GoogleCalendarEventDateTime {
   timeZone?: string; // e.g., 'America/Los_Angeles'
 }
 
+export type AttendeeResponseStatus = 'needsAction' | 'declined' | 'tentative' | 'accepted';
+
+export interface GoogleCalendarEventAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus?: AttendeeResponseStatus;
+  /** Set by Google on the attendee entry of the calendar's owner. */
+  self?: boolean;
+}
+
 export interface GoogleCalendarEventInput {
   summary?: string;
   description?: string;
+  location?: string;
   start?: GoogleCalendarEventDateTime;
   end?: GoogleCalendarEventDateTime;
+  attendees?: GoogleCalendarEventAttendee[];
+}
+
+// Values to start a new event with, e.g. when creating one from an email
+export interface CalendarEventDraft {
+  title: string;
+  description: string;
+  start: Date;
+  end: Date;
+  location: string;
+  /** Offered as attendees; only the ones the user checks are invited. */
+  suggestedAttendees: GoogleCalendarEventAttendee[];
+  tagIds: string[];
 }
 
 export interface GoogleCalendarEvent extends GoogleCalendarEventInput {
   id: string;
+  /** The UID of the event in iCalendar, shared by every copy of an invitation. */
+  iCalUID?: string;
   status?: string; 
+  /** 'transparent' when the event doesn't block time. */
+  transparency?: string;
   htmlLink?: string;
   created?: string;
   updated?: string;
@@ -63,48 +72,26 @@ export const fetchCalendarEvents = async (
   userId: string, // Add userId parameter
   calendarId: string = 'primary',
   timeMin: string,
-  timeMax: string
+  timeMax: string,
+  signal?: AbortSignal
 ): Promise<GoogleCalendarEvent[]> => {
-  // getCalendarAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getCalendarAccessToken();
-  // The catch block in the calling component will handle the error.
   if (!userId) {
       console.error("User ID is required to fetch calendar events with tags.");
       throw new Error('User ID is required.'); // Or return empty array?
   }
 
-  const params = new URLSearchParams({
-    timeMin: timeMin,
-    timeMax: timeMax,
-    singleEvents: 'true', // Expand recurring events into single instances
-    orderBy: 'startTime',
-  });
-
-  const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events?${params.toString()}`;
-
-  // Log the parameters being sent to Google API for debugging
-  console.log(`Fetching Google Calendar events: URL=${url}, AccessToken=${accessToken ? 'Exists' : 'Missing'}`);
-  console.log(`Params: timeMin=${timeMin}, timeMax=${timeMax}`);
-
+  const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events`;
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
+    const data = await googleRequest<{ items?: GoogleCalendarEvent[] }>(url, {
+      query: {
+        timeMin: timeMin,
+        timeMax: timeMax,
+        singleEvents: 'true', // Expand recurring events into single instances
+        orderBy: 'startTime',
       },
+      signal,
     });
-
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-      console.error(`Failed to fetch calendar events: ${response.status}`, errorBody);
-      throw new Error(`Failed to fetch events: ${errorBody?.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
     let events: GoogleCalendarEvent[] = data.items || []; // Events are in the 'items' array
 
     // --- Fetch and Merge Tags ---
@@ -162,44 +149,24 @@ export const fetchTodaysCalendarEvents = async (userId: string): Promise<GoogleC
  * Creates a new event on the specified calendar.
  * @param calendarId - The calendar identifier (usually 'primary').
  * @param eventData - The event data matching GoogleCalendarEventInput.
+ * @param sendUpdates - Whether Google emails invitations to the attendees ('none' by default).
  * @returns Promise resolving to the created GoogleCalendarEvent object.
  */
 export const createCalendarEvent = async (
   calendarId: string = 'primary',
-  eventData: GoogleCalendarEventInput
+  eventData: GoogleCalendarEventInput,
+  sendUpdates: 'all' | 'none' = 'none'
 ): Promise<GoogleCalendarEvent> => {
-   // getCalendarAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getCalendarAccessToken();
-  // The catch block in the calling component will handle the error.
-
   const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events`;
 
-  // Log accessToken presence before the fetch call
-  console.log(`createCalendarEvent: Using access token: ${accessToken ? 'Present' : 'Missing'}`);
-  console.log('createCalendarEvent: Event data:', eventData);
-
   try {
-    const response = await fetch(url, {
+    return await googleRequest<GoogleCalendarEvent>(url, {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(eventData),
+      body: eventData,
+      query: { sendUpdates },
+      // Inserts are not idempotent; a retried 5xx could create a duplicate event.
+      maxRetries: 0,
     });
-
-    if (!response.ok) {
-       // Log the specific status and error body on failure
-       const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-       console.error(`Failed to create calendar event: Status=${response.status}`, errorBody);
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      throw new Error(`Failed to create event: ${errorBody?.error?.message || response.statusText}`);
-    }
-
-    return await response.json();
   } catch (error) {
     console.error('Error creating calendar event:', error);
     throw error;
@@ -218,38 +185,13 @@ export const updateCalendarEvent = async (
   eventId: string,
   eventData: GoogleCalendarEventInput
 ): Promise<GoogleCalendarEvent> => {
-   // getCalendarAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getCalendarAccessToken();
-  // The catch block in the calling component will handle the error.
-
   const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
 
-  // Log accessToken presence before the fetch call
-  console.log(`updateCalendarEvent: Using access token: ${accessToken ? 'Present' : 'Missing'}`);
-  console.log('updateCalendarEvent: Event ID:', eventId, 'Event data:', eventData);
-
   try {
-    const response = await fetch(url, {
+    return await googleRequest<GoogleCalendarEvent>(url, {
       method: 'PUT',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(eventData),
+      body: eventData,
     });
-
-    if (!response.ok) {
-       // Log the specific status and error body on failure
-       const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-       console.error(`Failed to update calendar event ${eventId}: Status=${response.status}`, errorBody);
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      throw new Error(`Failed to update event: ${errorBody?.error?.message || response.statusText}`);
-    }
-
-    return await response.json();
   } catch (error) {
     console.error(`Error updating calendar event ${eventId}:`, error);
     throw error;
@@ -266,34 +208,74 @@ export const deleteCalendarEvent = async (
   calendarId: string = 'primary',
   eventId: string
 ): Promise<void> => {
-  // getCalendarAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getCalendarAccessToken();
-  // The catch block in the calling component will handle the error.
-
   const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
 
   try {
-    const response = await fetch(url, {
-      method: 'DELETE',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
+    // DELETE returns 204 No Content on success
+    await googleRequest<void>(url, { method: 'DELETE' });
+  } catch (error) {
+    console.error(`Error deleting calendar event ${eventId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Finds the calendar's copy of an event by its iCalendar UID, e.g. the one an
+ * invitation email is about.
+ * @param calendarId - The calendar identifier (usually 'primary').
+ * @param iCalUID - The UID from the invitation.
+ * @returns Promise resolving to the event, or null when it isn't on the calendar.
+ */
+export const findCalendarEventByICalUID = async (
+  calendarId: string = 'primary',
+  iCalUID: string,
+  signal?: AbortSignal
+): Promise<GoogleCalendarEvent | null> => {
+  const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events`;
+
+  try {
+    const data = await googleRequest<{ items?: GoogleCalendarEvent[] }>(url, {
+      query: { iCalUID },
+      signal,
     });
+    return data.items?.find(event => event.status !== 'cancelled') ?? null;
+  } catch (error) {
+    console.error(`Error finding calendar event ${iCalUID}:`, error);
+    throw error;
+  }
+};
 
-    // DELETE returns 204 No Content on success
-    if (!response.ok && response.status !== 204) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-      console.error(`Failed to delete calendar event ${eventId}: ${response.status}`, errorBody);
-      throw new Error(`Failed to delete event: ${errorBody?.error?.message || response.statusText}`);
-    }
-    // No body content expected on successful delete (204)
+/**
+ * Sets the user's response to an event they are invited to and lets the organizer know.
+ * @param calendarId - The calendar identifier (usually 'primary').
+ * @param event - The calendar's copy of the event, with its attendees.
+ * @param responseStatus - The new response.
+ * @param ownAddresses - The user's addresses, used when Google hasn't marked their attendee entry.
+ * @returns Promise resolving to the updated GoogleCalendarEvent object.
+ */
+export const respondToCalendarEvent = async (
+  calendarId: string = 'primary',
+  event: GoogleCalendarEvent,
+  responseStatus: AttendeeResponseStatus,
+  ownAddresses: string[] = []
+): Promise<GoogleCalendarEvent> => {
+  const own = new Set(ownAddresses.map(address => address.toLowerCase()));
+  const attendees = event.attendees ?? [];
+  const selfIndex = attendees.findIndex(attendee => attendee.self || own.has(attendee.email.toLowerCase()));
+  if (selfIndex === -1) {
+    throw new Error('You are not on the guest list of this event.');
+  }
+  const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(event.id)}`;
 
+  try {
+    // The attendee list is replaced as a whole, so every other entry is sent back unchanged
+    return await googleRequest<GoogleCalendarEvent>(url, {
+      method: 'PATCH',
+      body: { attendees: attendees.map((attendee, i) => (i === selfIndex ? { ...attendee, responseStatus } : attendee)) },
+      query: { sendUpdates: 'all' },
+    });
   } catch (error) {
-    console.error(`Error deleting calendar event ${eventId}:`, error);
+    console.error(`Error responding to calendar event ${event.id}:`, error);
     throw error;
   }
 };
@@ -311,38 +293,17 @@ export const fetchRecentCalendarActivity = async (
     calendarId: string = 'primary',
     limit: number = 20
 ): Promise<TimelineEvent[]> => {
-    // getCalendarAccessToken now throws an error if token is not available,
-    // so we don't need the explicit check here.
-    const accessToken = await getCalendarAccessToken();
-    // The catch block in the calling component will handle the error.
-
-    const params = new URLSearchParams({
-        maxResults: limit.toString(),
-        orderBy: 'updated', // Order by last modification time
-        showDeleted: 'true', // Include cancelled/deleted events
-        // timeMin could be added here to limit how far back we look, e.g., last 7 days
-        // timeMin: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-    });
-
-    const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events?${params.toString()}`;
+    const url = `${GOOGLE_CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events`;
 
     try {
-        const response = await fetch(url, {
-            headers: { Authorization: `Bearer ${accessToken}` },
+        const data = await googleRequest<{ items?: GoogleCalendarEvent[] }>(url, {
+            query: {
+                maxResults: limit,
+                orderBy: 'updated', // Order by last modification time
+                showDeleted: 'true', // Include cancelled/deleted events
+                // timeMin could be added here to limit how far back we look, e.g., last 7 days
+            },
         });
-
-        if (!response.ok) {
-             if (response.status === 401 || response.status === 403) {
-                throw new Error('Google API token expired');
-            }
-            const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-            console.error(`Failed to fetch recent calendar activity: ${response.status}`, errorBody);
-            // Decide whether to throw or return empty
-            return [];
-            // throw new Error(`Failed to fetch calendar activity: ${errorBody?.error?.message || response.statusText}`);
-        }
-
-        const data = await response.json();
         const events: GoogleCalendarEvent[] = data.items || [];
 
         // Process events into TimelineEvent format
@@ -385,8 +346,9 @@ export const fetchRecentCalendarActivity = async (
 
     } catch (error) {
         console.error('Error fetching recent calendar activity:', error);
-        // Decide whether to throw or return empty
+        // An expired token must still reach the page so it can send the user to /auth;
+        // any other failure just leaves the calendar lane empty.
+        if (isTokenExpiredError(error)) throw error;
         return [];
-        // throw error;
     }
 };
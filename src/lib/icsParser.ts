@@ -0,0 +1,268 @@
+import { GmailMessagePart, GmailMessagePayload } from './supabaseClient';
+
+// --- iCalendar Invitations ---
+// Reads the text/calendar part (RFC 5545) that invitation emails carry next to their
+// readable body. Only what an invitation card needs is kept: the method (REQUEST for an
+// invite or update, CANCEL, REPLY), and per VEVENT its UID, title, times, organizer and
+// attendees. Times written in a named zone are converted with the browser's zone data;
+// zones it doesn't know (such as Outlook's Windows names) are read as local time.
+
+export type InvitationMethod = 'REQUEST' | 'CANCEL' | 'REPLY' | 'PUBLISH' | 'COUNTER';
+
+export type ParticipationStatus = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+
+export interface InvitationPerson {
+  email: string;
+  name: string;
+  status: ParticipationStatus | null;
+}
+
+export interface InvitationEvent {
+  uid: string;
+  /** Set on the occurrence an update is about when it isn't the whole series. */
+  recurrenceId: string | null;
+  sequence: number;
+  summary: string;
+  description: string;
+  location: string;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  recurring: boolean;
+  /** CONFIRMED, TENTATIVE or CANCELLED when the sender sets it. */
+  status: string | null;
+  organizer: InvitationPerson | null;
+  attendees: InvitationPerson[];
+}
+
+export interface CalendarInvitation {
+  method: InvitationMethod | null;
+  events: InvitationEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const CALENDAR_MIME_TYPES = ['text/calendar', 'application/ics'];
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfold = (text: string): string[] => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE, where only quotes protect ';' and ':'
+const parseContentLine = (line: string): ContentLine | null => {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === ';') {
+      segments.push(current);
+      current = '';
+    } else if (!quoted && char === ':') {
+      segments.push(current);
+      const [name, ...params] = segments;
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(
+          params.map(param => {
+            const separator = param.indexOf('=');
+            return [param.slice(0, separator).toUpperCase(), param.slice(separator + 1)];
+          })
+        ),
+        value: line.slice(i + 1),
+      };
+    } else {
+      current += char;
+    }
+  }
+  return null;
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// --- Dates ---
+
+interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+const zoneOffsetMs = (timeZone: string, instant: number): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(instant / 1000) * 1000;
+};
+
+const zonedTimeToDate = (fields: DateFields, timeZone: string): Date | null => {
+  const wallClock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hours, fields.minutes, fields.seconds);
+  try {
+    // The second pass corrects the offset when the first guess fell across a DST change
+    const guess = wallClock - zoneOffsetMs(timeZone, wallClock);
+    return new Date(wallClock - zoneOffsetMs(timeZone, guess));
+  } catch {
+    return null;
+  }
+};
+
+const parseDate = (line: ContentLine): { date: Date; allDay: boolean } | null => {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const fields: DateFields = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hours: Number(hours ?? 0),
+    minutes: Number(minutes ?? 0),
+    seconds: Number(seconds ?? 0),
+  };
+  const local = new Date(fields.year, fields.month - 1, fields.day, fields.hours, fields.minutes, fields.seconds);
+  if (!hours) return { date: local, allDay: true };
+  if (utc) {
+    return { date: new Date(Date.UTC(fields.year, fields.month - 1, fields.day, fields.hours, fields.minutes, fields.seconds)), allDay: false };
+  }
+  const timeZone = line.params.TZID?.replace(/^"|"$/g, '');
+  return { date: (timeZone && zonedTimeToDate(fields, timeZone)) || local, allDay: false };
+};
+
+// P1D, PT1H30M, P1W
+const parseDurationMs = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 60 * 60
+    + Number(hours ?? 0) * 60 * 60 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+// --- Events ---
+
+const parsePerson = (line: ContentLine): InvitationPerson => ({
+  email: line.value.replace(/^mailto:/i, '').trim(),
+  name: (line.params.CN ?? '').replace(/^"|"$/g, ''),
+  status: (line.params.PARTSTAT?.toUpperCase() as ParticipationStatus | undefined) ?? null,
+});
+
+const parseEvent = (lines: ContentLine[]): InvitationEvent | null => {
+  const event: InvitationEvent = {
+    uid: '',
+    recurrenceId: null,
+    sequence: 0,
+    summary: '',
+    description: '',
+    location: '',
+    start: null,
+    end: null,
+    allDay: false,
+    recurring: false,
+    status: null,
+    organizer: null,
+    attendees: [],
+  };
+  let durationMs: number | null = null;
+
+  lines.forEach(line => {
+    switch (line.name) {
+      case 'UID': event.uid = line.value.trim(); break;
+      case 'RECURRENCE-ID': event.recurrenceId = line.value.trim(); break;
+      case 'SEQUENCE': event.sequence = Number(line.value) || 0; break;
+      case 'SUMMARY': event.summary = unescapeText(line.value); break;
+      case 'DESCRIPTION': event.description = unescapeText(line.value); break;
+      case 'LOCATION': event.location = unescapeText(line.value); break;
+      case 'STATUS': event.status = line.value.trim().toUpperCase(); break;
+      case 'RRULE': case 'RDATE': event.recurring = true; break;
+      case 'DURATION': durationMs = parseDurationMs(line.value); break;
+      case 'ORGANIZER': event.organizer = parsePerson(line); break;
+      case 'ATTENDEE': {
+        // Meeting rooms and equipment are listed as attendees too
+        const type = line.params.CUTYPE?.toUpperCase();
+        if (type !== 'ROOM' && type !== 'RESOURCE') event.attendees.push(parsePerson(line));
+        break;
+      }
+      case 'DTSTART': {
+        const parsed = parseDate(line);
+        event.start = parsed?.date ?? null;
+        event.allDay = parsed?.allDay ?? false;
+        break;
+      }
+      case 'DTEND': event.end = parseDate(line)?.date ?? null; break;
+    }
+  });
+
+  if (!event.uid) return null;
+  if (event.start && !event.end) {
+    // Without an end, an all-day event lasts the day and a timed one is an instant
+    const length = durationMs ?? (event.allDay ? 24 * 60 * 60 * 1000 : 0);
+    event.end = new Date(event.start.getTime() + length);
+  }
+  return event;
+};
+
+/** Reads the method and events of an iCalendar object. */
+export const parseCalendarInvitation = (text: string): CalendarInvitation => {
+  const invitation: CalendarInvitation = { method: null, events: [] };
+  let eventLines: ContentLine[] | null = null;
+  // Alarms and time zone definitions nest their own components inside or beside events
+  let nestedDepth = 0;
+
+  unfold(text).forEach(raw => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+    const component = line.value.trim().toUpperCase();
+    if (line.name === 'BEGIN') {
+      if (component === 'VEVENT' && nestedDepth === 0) eventLines = [];
+      else if (component !== 'VCALENDAR') nestedDepth++;
+    } else if (line.name === 'END') {
+      if (component === 'VEVENT' && nestedDepth === 0 && eventLines) {
+        const event = parseEvent(eventLines);
+        if (event) invitation.events.push(event);
+        eventLines = null;
+      } else if (component !== 'VCALENDAR' && nestedDepth > 0) {
+        nestedDepth--;
+      }
+    } else if (nestedDepth > 0) {
+      return;
+    } else if (eventLines) {
+      eventLines.push(line);
+    } else if (line.name === 'METHOD') {
+      invitation.method = component as InvitationMethod;
+    }
+  });
+  return invitation;
+};
+
+/** The event the invitation is about: the series itself rather than one of its changed occurrences. */
+export const getMainInvitationEvent = (invitation: CalendarInvitation): InvitationEvent | null =>
+  invitation.events.find(event => !event.recurrenceId) ?? invitation.events[0] ?? null;
+
+/** The message's calendar part, preferring the inline text/calendar alternative over an invite.ics attachment. */
+export const findCalendarPart = (payload: GmailMessagePayload | undefined): GmailMessagePart | null => {
+  const found: GmailMessagePart[] = [];
+  const visit = (part: GmailMessagePayload | GmailMessagePart) => {
+    const hasBody = !!part.body.data || ('attachmentId' in part.body && !!part.body.attachmentId);
+    if (CALENDAR_MIME_TYPES.includes(part.mimeType.toLowerCase()) && hasBody) found.push(part as GmailMessagePart);
+    part.parts?.forEach(visit);
+  };
+  if (payload) visit(payload);
+  return found.find(part => part.body.data) ?? found[0] ?? null;
+};
@@ -0,0 +1,196 @@
+import { addDays, addWeeks, format, startOfDay, startOfWeek } from 'date-fns';
+import { parseSender } from './emailHelpers';
+import { isMailStoreSupported, StoredMessage } from './mailStore';
+import { readStoredMessagesSince } from './mailSync';
+import { fetchTags, getHeaderValue, supabase } from './supabaseClient';
+
+// --- Mailbox Insights ---
+// Statistics over the synced message metadata in the local store, plus email_tags for
+// the tag breakdown. Everything is counted per message; drafts, spam and trash are left
+// out, and mail carrying the SENT label counts as sent, everything else as received.
+
+export type InsightsBucket = 'day' | 'week';
+
+export interface VolumePoint {
+  /** yyyy-MM-dd of the bucket's first day. */
+  date: string;
+  label: string;
+  received: number;
+  sent: number;
+}
+
+export interface BacklogPoint {
+  /** yyyy-MM-dd of the bucket's first day. */
+  date: string;
+  label: string;
+  unread: number;
+}
+
+export interface SenderCount {
+  /** Lowercased address, or domain for the domain list. */
+  key: string;
+  name: string;
+  count: number;
+}
+
+export interface TagShare {
+  tagId: string;
+  name: string;
+  color: string;
+  count: number;
+  /** Fraction of all messages in the range; a message can carry several tags. */
+  share: number;
+}
+
+export interface MailInsights {
+  received: number;
+  sent: number;
+  topSenders: SenderCount[];
+  topDomains: SenderCount[];
+  volume: VolumePoint[];
+  backlog: BacklogPoint[];
+  tags: TagShare[];
+  /** False when the store doesn't reach back to the start of the range. */
+  complete: boolean;
+}
+
+const TOP_COUNT = 10;
+const TAG_QUERY_CHUNK_SIZE = 500;
+
+const bucketStart = (date: Date, bucket: InsightsBucket): Date =>
+  bucket === 'week' ? startOfWeek(date) : startOfDay(date);
+
+const nextBucket = (date: Date, bucket: InsightsBucket): Date =>
+  bucket === 'week' ? addWeeks(date, 1) : addDays(date, 1);
+
+const topCounts = (counts: Map<string, SenderCount>): SenderCount[] =>
+  Array.from(counts.values()).sort((a, b) => b.count - a.count).slice(0, TOP_COUNT);
+
+const fetchTagIdsByEmail = async (userId: string, emailIds: string[]): Promise<Map<string, string[]>> => {
+  const byEmail = new Map<string, string[]>();
+  for (let i = 0; i < emailIds.length; i += TAG_QUERY_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('email_tags')
+      .select('email_id, tag_id')
+      .eq('user_id', userId)
+      .in('email_id', emailIds.slice(i, i + TAG_QUERY_CHUNK_SIZE));
+    if (error) {
+      console.error('Error fetching email tags for insights:', error);
+      throw error;
+    }
+    (data || []).forEach(row => byEmail.set(row.email_id, [...(byEmail.get(row.email_id) ?? []), row.tag_id]));
+  }
+  return byEmail;
+};
+
+/** Works out the insights for the messages received from `since` to now. */
+export const loadMailInsights = async (
+  userId: string,
+  since: Date,
+  bucket: InsightsBucket,
+  signal?: AbortSignal
+): Promise<MailInsights> => {
+  if (!isMailStoreSupported()) {
+    throw new Error('Insights need the local mail store, which this browser does not support.');
+  }
+  try {
+    const { messages, complete } = await readStoredMessagesSince(userId, since, signal);
+    const counted = messages.filter(message => !message.labelIds?.includes('DRAFT'));
+    const [tagIdsByEmail, pinTags, priorityTags] = await Promise.all([
+      fetchTagIdsByEmail(userId, counted.map(message => message.id)),
+      fetchTags(userId, 'pin'),
+      fetchTags(userId, 'priority'),
+    ]);
+    return {
+      ...summarizeMessages(counted, since, bucket),
+      tags: summarizeTags(counted, tagIdsByEmail, [...pinTags, ...priorityTags]),
+      complete,
+    };
+  } catch (error) {
+    console.error('Error loading mailbox insights:', error);
+    throw error;
+  }
+};
+
+const summarizeMessages = (
+  messages: StoredMessage[],
+  since: Date,
+  bucket: InsightsBucket
+): Omit<MailInsights, 'tags' | 'complete'> => {
+  // One entry per bucket from the start of the range to now, including empty ones
+  const volume = new Map<string, VolumePoint>();
+  const unreadByBucket = new Map<string, number>();
+  const now = new Date();
+  for (let start = bucketStart(since, bucket); start <= now; start = nextBucket(start, bucket)) {
+    const date = format(start, 'yyyy-MM-dd');
+    volume.set(date, { date, label: format(start, 'MMM d'), received: 0, sent: 0 });
+    unreadByBucket.set(date, 0);
+  }
+
+  const senders = new Map<string, SenderCount>();
+  const domains = new Map<string, SenderCount>();
+  let received = 0;
+  let sent = 0;
+  messages.forEach(message => {
+    const date = format(bucketStart(new Date(message.internalDateMs), bucket), 'yyyy-MM-dd');
+    const point = volume.get(date);
+    if (message.labelIds?.includes('SENT')) {
+      sent++;
+      if (point) point.sent++;
+      return;
+    }
+    received++;
+    if (point) point.received++;
+    if (message.labelIds?.includes('UNREAD')) unreadByBucket.set(date, (unreadByBucket.get(date) ?? 0) + 1);
+
+    const { name, address } = parseSender(getHeaderValue(message.payload?.headers || [], 'From'));
+    if (!address) return;
+    const key = address.toLowerCase();
+    const sender = senders.get(key) ?? { key, name, count: 0 };
+    senders.set(key, { ...sender, count: sender.count + 1 });
+    const domain = key.split('@')[1];
+    if (domain) {
+      const entry = domains.get(domain) ?? { key: domain, name: domain, count: 0 };
+      domains.set(domain, { ...entry, count: entry.count + 1 });
+    }
+  });
+
+  // Only today's read state is known, so the backlog is the mail that is still unread,
+  // added up by when it arrived: how much of today's unread mail had piled up by then.
+  let unread = 0;
+  const backlog = Array.from(volume.values()).map(({ date, label }) => {
+    unread += unreadByBucket.get(date) ?? 0;
+    return { date, label, unread };
+  });
+
+  return {
+    received,
+    sent,
+    topSenders: topCounts(senders),
+    topDomains: topCounts(domains),
+    volume: Array.from(volume.values()),
+    backlog,
+  };
+};
+
+const summarizeTags = (
+  messages: StoredMessage[],
+  tagIdsByEmail: Map<string, string[]>,
+  tags: { id: string; name: string; color: string }[]
+): TagShare[] => {
+  const counts = new Map<string, number>();
+  messages.forEach(message =>
+    tagIdsByEmail.get(message.id)?.forEach(tagId => counts.set(tagId, (counts.get(tagId) ?? 0) + 1))
+  );
+  return tags
+    .filter(tag => counts.has(tag.id))
+    .map(tag => {
+      const count = counts.get(tag.id) ?? 0;
+      return { tagId: tag.id, name: tag.name, color: tag.color, count, share: messages.length ? count / messages.length : 0 };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+/** The end of the bucket starting on `date` (yyyy-MM-dd), as the last day it covers. */
+export const bucketEndDate = (date: string, bucket: InsightsBucket): string =>
+  format(addDays(nextBucket(new Date(`${date}T00:00:00`), bucket), -1), 'yyyy-MM-dd');
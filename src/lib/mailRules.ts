@@ -0,0 +1,456 @@
+import { buildGoogleUrl, GMAIL_API_PATH, googleBatch } from './googleApiClient';
+import {
+  addTagToEmails,
+  batchModifyMessages,
+  fetchGmailUserLabels,
+  getHeaderValue,
+  getMessagePlainText,
+  GmailFullMessage,
+  GmailUserLabel,
+  LabelChange,
+  listAllMessageIds,
+  setEmailsStarred,
+  supabase,
+} from './supabaseClient';
+import { collectAttachments } from './gmailAttachments';
+import { parseAddressList } from './mimeBuilder';
+
+// --- Mail Rules ---
+// A rule is a list of conditions (all or any of which must hold) and a list of actions.
+// Enabled rules run on every incoming message the mail sync picks up, and can be run
+// over existing mail on demand. Before a rule acts on a message it claims the
+// (rule, message) pair in mail_rule_hits, so a message is never handled twice by the
+// same rule, even with several tabs open; that row is also the rule's hit log. A hit whose
+// actions failed keeps the error until the rule claims the message again and retries.
+
+export type RuleConditionField =
+  | 'from'
+  | 'to'
+  | 'cc'
+  | 'subject'
+  | 'header'
+  | 'label'
+  | 'has_attachment'
+  | 'attachment_name'
+  | 'body';
+
+export type RuleOperator = 'contains' | 'not_contains' | 'equals' | 'matches' | 'is' | 'is_not';
+
+export interface RuleCondition {
+  field: RuleConditionField;
+  operator: RuleOperator;
+  /** Text to compare with; a label id for 'label'; unused for 'has_attachment'. */
+  value: string;
+  /** Header name, for the 'header' field. */
+  header?: string;
+}
+
+export type RuleAction =
+  | { type: 'add_tag'; tagId: string }
+  | { type: 'star' }
+  | { type: 'archive' }
+  | { type: 'mark_read' };
+
+export interface MailRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match_mode: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  position: number;
+  updated_at: string;
+}
+
+export type MailRuleInput = Pick<MailRule, 'name' | 'enabled' | 'match_mode' | 'conditions' | 'actions'>;
+
+export type RuleHitSource = 'new_mail' | 'backfill';
+
+export interface MailRuleHit {
+  id: string;
+  email_id: string;
+  thread_id: string | null;
+  sender: string | null;
+  subject: string | null;
+  source: RuleHitSource;
+  error: string | null;
+  created_at: string;
+}
+
+/** A message a rule matched, with what the preview and hit log show of it. */
+export interface RuleMatch {
+  id: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  date: Date;
+}
+
+const TEXT_OPERATORS: RuleOperator[] = ['contains', 'not_contains', 'equals', 'matches'];
+const PRESENCE_OPERATORS: RuleOperator[] = ['is', 'is_not'];
+
+export const RULE_FIELDS: {
+  field: RuleConditionField;
+  label: string;
+  operators: RuleOperator[];
+  /** Replaces RULE_OPERATOR_LABELS where those read oddly for the field. */
+  operatorLabels?: Partial<Record<RuleOperator, string>>;
+}[] = [
+  { field: 'from', label: 'From', operators: TEXT_OPERATORS },
+  { field: 'to', label: 'To', operators: TEXT_OPERATORS },
+  { field: 'cc', label: 'Cc', operators: TEXT_OPERATORS },
+  { field: 'subject', label: 'Subject', operators: TEXT_OPERATORS },
+  { field: 'header', label: 'Other header', operators: TEXT_OPERATORS },
+  { field: 'label', label: 'Gmail label', operators: PRESENCE_OPERATORS },
+  { field: 'has_attachment', label: 'Has attachments', operators: PRESENCE_OPERATORS, operatorLabels: { is: 'yes', is_not: 'no' } },
+  { field: 'attachment_name', label: 'Attachment name', operators: TEXT_OPERATORS },
+  { field: 'body', label: 'Body text', operators: TEXT_OPERATORS },
+];
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: 'contains',
+  not_contains: "doesn't contain",
+  equals: 'is exactly',
+  matches: 'matches (* wildcards)',
+  is: 'is',
+  is_not: 'is not',
+};
+
+export const RULE_ACTION_LABELS: Record<RuleAction['type'], string> = {
+  add_tag: 'Add tag',
+  star: 'Star',
+  archive: 'Archive (skip the inbox)',
+  mark_read: 'Mark as read',
+};
+
+const RULE_COLUMNS = 'id, name, enabled, match_mode, conditions, actions, position, updated_at';
+const HIT_COLUMNS = 'id, email_id, thread_id, sender, subject, source, error, created_at';
+
+// Messages the mail sync adds that aren't incoming mail
+const NOT_INCOMING_LABELS = ['SENT', 'DRAFT', 'SPAM', 'TRASH'];
+// What "run on existing mail" and the preview look through, newest first
+const EXISTING_MAIL_QUERY = '-in:sent -in:drafts';
+export const EXISTING_MAIL_LIMIT = 500;
+const FETCH_CHUNK_SIZE = 100;
+
+// System labels worth writing rules for, with the names Gmail shows for them
+const SYSTEM_RULE_LABELS: GmailUserLabel[] = [
+  { id: 'INBOX', name: 'Inbox' },
+  { id: 'IMPORTANT', name: 'Important' },
+  { id: 'CATEGORY_PERSONAL', name: 'Category: Primary' },
+  { id: 'CATEGORY_SOCIAL', name: 'Category: Social' },
+  { id: 'CATEGORY_PROMOTIONS', name: 'Category: Promotions' },
+  { id: 'CATEGORY_UPDATES', name: 'Category: Updates' },
+  { id: 'CATEGORY_FORUMS', name: 'Category: Forums' },
+];
+
+/** Labels a 'label' condition can check: the useful system labels, then the user's own. */
+export const fetchRuleLabels = async (signal?: AbortSignal): Promise<GmailUserLabel[]> => [
+  ...SYSTEM_RULE_LABELS,
+  ...await fetchGmailUserLabels(signal),
+];
+
+/** What is missing before the rule can be saved, or null when it is complete. */
+export const validateMailRule = (input: MailRuleInput): string | null => {
+  if (!input.name.trim()) return 'Please give the rule a name.';
+  if (input.conditions.length === 0) return 'Add at least one condition.';
+  if (input.actions.length === 0) return 'Add at least one action.';
+  for (const condition of input.conditions) {
+    if (condition.field === 'header' && !condition.header?.trim()) return 'Enter the name of the header to check.';
+    if (condition.field === 'label' && !condition.value) return 'Choose the Gmail label to check.';
+    if (TEXT_OPERATORS.includes(condition.operator) && !condition.value.trim()) return 'Every condition needs text to compare with.';
+  }
+  if (input.actions.some(action => action.type === 'add_tag' && !action.tagId)) return 'Choose the tag to add.';
+  return null;
+};
+
+// --- Matching ---
+
+const ADDRESS_FIELDS: RuleConditionField[] = ['from', 'to', 'cc'];
+const CONTENT_FIELDS: RuleConditionField[] = ['has_attachment', 'attachment_name', 'body'];
+
+/** Whether the rule looks at more than headers and labels, which needs the full message. */
+const needsFullMessage = (rules: Pick<MailRule, 'conditions'>[]): boolean =>
+  rules.some(rule => rule.conditions.some(condition => CONTENT_FIELDS.includes(condition.field)));
+
+const wildcardToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+// Each candidate is a whole field value; address fields also offer every single
+// address, so `*@client.com` matches "Client <bob@client.com>, other@example.com".
+const matchesText = (candidates: string[], operator: RuleOperator, value: string): boolean => {
+  const needle = value.trim().toLowerCase();
+  switch (operator) {
+    case 'contains':
+      return candidates.some(candidate => candidate.toLowerCase().includes(needle));
+    case 'not_contains':
+      return !candidates.some(candidate => candidate.toLowerCase().includes(needle));
+    case 'equals':
+      return candidates.some(candidate => candidate.trim().toLowerCase() === needle);
+    case 'matches': {
+      const pattern = wildcardToRegExp(value.trim());
+      return candidates.some(candidate => pattern.test(candidate.trim()));
+    }
+    default:
+      return false;
+  }
+};
+
+const matchesCondition = (message: GmailFullMessage, condition: RuleCondition): boolean => {
+  const headers = message.payload?.headers || [];
+  const isPositive = condition.operator !== 'is_not';
+  switch (condition.field) {
+    case 'label':
+      return (message.labelIds || []).includes(condition.value) === isPositive;
+    case 'has_attachment':
+      return collectAttachments(message.id, message.payload).some(a => !a.inline) === isPositive;
+    case 'attachment_name': {
+      const names = collectAttachments(message.id, message.payload).filter(a => !a.inline).map(a => a.filename);
+      // No attachments: nothing "contains" the text, so only the negative operator holds
+      return names.length > 0 ? matchesText(names, condition.operator, condition.value) : condition.operator === 'not_contains';
+    }
+    case 'body':
+      return matchesText([getMessagePlainText(message.payload)], condition.operator, condition.value);
+    case 'header':
+      return matchesText([getHeaderValue(headers, condition.header || '')], condition.operator, condition.value);
+    default: {
+      const value = getHeaderValue(headers, condition.field);
+      const candidates = ADDRESS_FIELDS.includes(condition.field)
+        ? [value, ...parseAddressList(value).flatMap(({ name, address }) => [address, name].filter(Boolean))]
+        : [value];
+      return matchesText(candidates, condition.operator, condition.value);
+    }
+  }
+};
+
+/** Whether a message meets the rule's conditions. A rule without conditions matches nothing. */
+export const ruleMatchesMessage = (rule: Pick<MailRule, 'match_mode' | 'conditions'>, message: GmailFullMessage): boolean => {
+  if (rule.conditions.length === 0) return false;
+  return rule.match_mode === 'any'
+    ? rule.conditions.some(condition => matchesCondition(message, condition))
+    : rule.conditions.every(condition => matchesCondition(message, condition));
+};
+
+const toRuleMatch = (message: GmailFullMessage): RuleMatch => {
+  const headers = message.payload?.headers || [];
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    from: getHeaderValue(headers, 'From'),
+    subject: getHeaderValue(headers, 'Subject'),
+    date: new Date(Number(message.internalDate || 0)),
+  };
+};
+
+// Without metadataHeaders, format=metadata returns every header.
+const fetchMessagesForRules = async (
+  messageIds: string[],
+  full: boolean,
+  signal?: AbortSignal
+): Promise<GmailFullMessage[]> => {
+  const query = buildGoogleUrl('', { format: full ? 'full' : 'metadata' });
+  const { results, failures } = await googleBatch<GmailFullMessage>(
+    messageIds.map(id => ({ path: `${GMAIL_API_PATH}/messages/${encodeURIComponent(id)}${query}` })),
+    { signal }
+  );
+  if (failures.length > 0) {
+    console.warn(`Failed to fetch ${failures.length} of ${messageIds.length} messages for mail rules:`, failures);
+  }
+  return results.filter((message): message is GmailFullMessage => !!message);
+};
+
+// --- Actions and Hit Log ---
+
+const runActions = async (userId: string, actions: RuleAction[], messageIds: string[]): Promise<void> => {
+  const change: Required<LabelChange> = { addLabelIds: [], removeLabelIds: [] };
+  for (const action of actions) {
+    if (action.type === 'add_tag') await addTagToEmails(userId, messageIds, action.tagId);
+    if (action.type === 'star') await setEmailsStarred(userId, messageIds, true);
+    if (action.type === 'archive') change.removeLabelIds.push('INBOX');
+    if (action.type === 'mark_read') change.removeLabelIds.push('UNREAD');
+  }
+  if (change.removeLabelIds.length > 0) await batchModifyMessages(messageIds, change);
+};
+
+/**
+ * Inserts hit rows for the matches and takes back the ones whose actions failed before;
+ * returns the ids the rule hasn't acted on successfully yet.
+ */
+const claimHits = async (userId: string, ruleId: string, matches: RuleMatch[], source: RuleHitSource): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('mail_rule_hits')
+    .upsert(
+      matches.map(match => ({
+        user_id: userId,
+        rule_id: ruleId,
+        email_id: match.id,
+        thread_id: match.threadId,
+        sender: match.from,
+        subject: match.subject,
+        source,
+      })),
+      { onConflict: 'rule_id,email_id', ignoreDuplicates: true }
+    )
+    .select('email_id');
+  if (error) {
+    console.error(`Error recording hits of mail rule ${ruleId}:`, error);
+    throw error;
+  }
+
+  // Clearing the error is the claim: only one tab's update still finds it set
+  const { data: retried, error: retryError } = await supabase
+    .from('mail_rule_hits')
+    .update({ error: null })
+    .eq('rule_id', ruleId)
+    .in('email_id', matches.map(match => match.id))
+    .not('error', 'is', null)
+    .select('email_id');
+  if (retryError) {
+    console.error(`Error retrying failed hits of mail rule ${ruleId}:`, retryError);
+    throw retryError;
+  }
+  return [...(data || []), ...(retried || [])].map(row => row.email_id as string);
+};
+
+const recordHitError = async (ruleId: string, messageIds: string[], message: string): Promise<void> => {
+  const { error } = await supabase
+    .from('mail_rule_hits')
+    .update({ error: message })
+    .eq('rule_id', ruleId)
+    .in('email_id', messageIds);
+  if (error) console.error(`Error recording failed actions of mail rule ${ruleId}:`, error);
+};
+
+/** Runs the rule's actions on the matches it hasn't handled, or failed on, before; returns how many that were. */
+const applyRule = async (userId: string, rule: MailRule, matches: RuleMatch[], source: RuleHitSource): Promise<number> => {
+  if (matches.length === 0) return 0;
+  const claimed = await claimHits(userId, rule.id, matches, source);
+  if (claimed.length === 0) return 0;
+  try {
+    await runActions(userId, rule.actions, claimed);
+  } catch (error) {
+    await recordHitError(rule.id, claimed, (error as Error).message || 'The actions failed.');
+    throw error;
+  }
+  return claimed.length;
+};
+
+export const fetchRuleHits = async (ruleId: string, limit: number = 50): Promise<MailRuleHit[]> => {
+  const { data, error } = await supabase
+    .from('mail_rule_hits')
+    .select(HIT_COLUMNS)
+    .eq('rule_id', ruleId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error(`Error fetching hits of mail rule ${ruleId}:`, error);
+    throw error;
+  }
+  return data || [];
+};
+
+// --- Running Rules ---
+
+/**
+ * Runs the enabled rules on messages the mail sync just added. Sent mail and drafts
+ * are skipped. Failures are logged per rule and don't hold up the sync.
+ */
+export const applyRulesToNewMessages = async (userId: string, messages: GmailFullMessage[]): Promise<void> => {
+  const incomingIds = messages
+    .filter(message => !(message.labelIds || []).some(label => NOT_INCOMING_LABELS.includes(label)))
+    .map(message => message.id);
+  if (incomingIds.length === 0) return;
+
+  const rules = (await fetchMailRules(userId)).filter(rule => rule.enabled && rule.actions.length > 0);
+  if (rules.length === 0) return;
+  const candidates = await fetchMessagesForRules(incomingIds, needsFullMessage(rules));
+
+  for (const rule of rules) {
+    const matches = candidates.filter(message => ruleMatchesMessage(rule, message)).map(toRuleMatch);
+    await applyRule(userId, rule, matches, 'new_mail').catch(error =>
+      console.warn(`Mail rule "${rule.name}" failed on new mail:`, error)
+    );
+  }
+};
+
+/**
+ * Looks through the most recent existing mail for messages the rule matches, without
+ * changing anything. Used for the dry-run preview and before running a rule on old mail.
+ */
+export const findRuleMatches = async (
+  rule: Pick<MailRule, 'match_mode' | 'conditions'>,
+  { signal, onProgress, limit = EXISTING_MAIL_LIMIT }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void; limit?: number } = {}
+): Promise<{ matches: RuleMatch[]; scanned: number }> => {
+  try {
+    const { ids } = await listAllMessageIds({ q: EXISTING_MAIL_QUERY }, { signal, limit });
+    const full = needsFullMessage([rule]);
+    const matches: RuleMatch[] = [];
+    for (let i = 0; i < ids.length; i += FETCH_CHUNK_SIZE) {
+      const chunk = await fetchMessagesForRules(ids.slice(i, i + FETCH_CHUNK_SIZE), full, signal);
+      matches.push(...chunk.filter(message => ruleMatchesMessage(rule, message)).map(toRuleMatch));
+      onProgress?.(Math.min(i + FETCH_CHUNK_SIZE, ids.length), ids.length);
+    }
+    return { matches, scanned: ids.length };
+  } catch (error) {
+    console.error('Error looking for messages matching a mail rule:', error);
+    throw error;
+  }
+};
+
+/** Runs the rule's actions on matches found by findRuleMatches; returns how many messages were acted on. */
+export const applyRuleToExistingMail = (userId: string, rule: MailRule, matches: RuleMatch[]): Promise<number> =>
+  applyRule(userId, rule, matches, 'backfill');
+
+// --- CRUD ---
+
+export const fetchMailRules = async (userId: string): Promise<MailRule[]> => {
+  const { data, error } = await supabase
+    .from('mail_rules')
+    .select(RULE_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching mail rules:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const createMailRule = async (userId: string, input: MailRuleInput, position: number): Promise<MailRule> => {
+  const { data, error } = await supabase
+    .from('mail_rules')
+    .insert({ user_id: userId, ...input, position })
+    .select(RULE_COLUMNS)
+    .single();
+  if (error) {
+    console.error('Error creating mail rule:', error);
+    throw error;
+  }
+  return data;
+};
+
+export const updateMailRule = async (ruleId: string, input: Partial<MailRuleInput>): Promise<MailRule> => {
+  const { data, error } = await supabase
+    .from('mail_rules')
+    .update(input)
+    .eq('id', ruleId)
+    .select(RULE_COLUMNS)
+    .single();
+  if (error) {
+    console.error(`Error updating mail rule ${ruleId}:`, error);
+    throw error;
+  }
+  return data;
+};
+
+export const deleteMailRule = async (ruleId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('mail_rules')
+    .delete()
+    .eq('id', ruleId);
+  if (error) {
+    console.error(`Error deleting mail rule ${ruleId}:`, error);
+    throw error;
+  }
+};
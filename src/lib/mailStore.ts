@@ -0,0 +1,344 @@
+import type { GmailFullMessage } from './supabaseClient';
+
+// --- Local Mail Store ---
+// A per-user IndexedDB database holding Gmail message metadata (labels, snippet and
+// the metadata headers), thread summaries, the label list and the sync cursor.
+// Only mailSync.ts writes to it; components read through mailSync helpers.
+
+const DB_PREFIX = 'timeloom-mail-';
+// Bumped whenever what is stored per message changes; an older store is dropped and
+// filled again. 2: List-Unsubscribe headers added to the metadata headers.
+const DB_VERSION = 2;
+
+const MESSAGES = 'messages';
+const THREADS = 'threads';
+const LABELS = 'labels';
+const META = 'meta';
+
+export interface StoredMessage extends GmailFullMessage {
+  /** internalDate as a number so it can be indexed and sorted. */
+  internalDateMs: number;
+}
+
+export interface StoredThread {
+  id: string;
+  historyId?: string;
+  messageIds: string[];
+  latestDateMs: number;
+}
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type?: 'system' | 'user';
+  messagesTotal?: number;
+  messagesUnread?: number;
+  color?: { textColor?: string; backgroundColor?: string };
+}
+
+export interface MailSyncState {
+  /** Gmail historyId the store is current up to. */
+  historyId?: string;
+  /** messages.list page token where the initial fill stopped, null once everything is stored. */
+  fillPageToken?: string | null;
+  /** New messages whose details failed to load; fetched again by the next sync. */
+  retryMessageIds?: string[];
+  lastSyncedAt?: number;
+}
+
+export interface MailStoreChange {
+  added: string[];
+  deleted: string[];
+  updated: string[];
+}
+
+// --- Connection Handling ---
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openMailDb = (userId: string): Promise<IDBDatabase> => {
+  const existing = dbPromises.get(userId);
+  if (existing) return existing;
+
+  const promise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`${DB_PREFIX}${userId}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+      const messages = db.createObjectStore(MESSAGES, { keyPath: 'id' });
+      messages.createIndex('byDate', 'internalDateMs');
+      messages.createIndex('byThread', 'threadId');
+      messages.createIndex('byLabel', 'labelIds', { multiEntry: true });
+      db.createObjectStore(THREADS, { keyPath: 'id' });
+      db.createObjectStore(LABELS, { keyPath: 'id' });
+      db.createObjectStore(META);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading or deleting the database must not be blocked by us.
+      db.onversionchange = () => {
+        db.close();
+        dbPromises.delete(userId);
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromises.delete(userId);
+      reject(request.error);
+    };
+  });
+  dbPromises.set(userId, promise);
+  return promise;
+};
+
+export const isMailStoreSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+// --- Change Notifications ---
+type MailStoreListener = (userId: string, change: MailStoreChange) => void;
+const listeners = new Set<MailStoreListener>();
+
+export const subscribeToMailStore = (listener: MailStoreListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifyMailStoreChange = (userId: string, change: MailStoreChange) => {
+  if (change.added.length === 0 && change.deleted.length === 0 && change.updated.length === 0) return;
+  listeners.forEach(listener => listener(userId, change));
+};
+
+// --- Messages ---
+const toStoredMessage = (message: GmailFullMessage): StoredMessage => ({
+  ...message,
+  internalDateMs: Number(message.internalDate || 0),
+});
+
+// Rebuilds the thread summaries for the given thread ids from the messages store.
+const refreshThreads = async (tx: IDBTransaction, threadIds: Set<string>) => {
+  const messages = tx.objectStore(MESSAGES);
+  const threads = tx.objectStore(THREADS);
+  await Promise.all(Array.from(threadIds).map(async threadId => {
+    const threadMessages = await promisifyRequest<StoredMessage[]>(messages.index('byThread').getAll(threadId));
+    const existing = await promisifyRequest<StoredThread | undefined>(threads.get(threadId));
+    if (threadMessages.length === 0) {
+      threads.delete(threadId);
+      return;
+    }
+    threadMessages.sort((a, b) => a.internalDateMs - b.internalDateMs);
+    threads.put({
+      id: threadId,
+      historyId: existing?.historyId,
+      messageIds: threadMessages.map(m => m.id),
+      latestDateMs: threadMessages[threadMessages.length - 1].internalDateMs,
+    } as StoredThread);
+  }));
+};
+
+export const putMessages = async (userId: string, messages: GmailFullMessage[]): Promise<void> => {
+  if (messages.length === 0) return;
+  const db = await openMailDb(userId);
+  const tx = db.transaction([MESSAGES, THREADS], 'readwrite');
+  const store = tx.objectStore(MESSAGES);
+  messages.forEach(message => store.put(toStoredMessage(message)));
+  await refreshThreads(tx, new Set(messages.map(m => m.threadId)));
+  await transactionDone(tx);
+};
+
+export const deleteMessages = async (userId: string, messageIds: string[]): Promise<void> => {
+  if (messageIds.length === 0) return;
+  const db = await openMailDb(userId);
+  const tx = db.transaction([MESSAGES, THREADS], 'readwrite');
+  const store = tx.objectStore(MESSAGES);
+  const existing = await Promise.all(messageIds.map(id => promisifyRequest<StoredMessage | undefined>(store.get(id))));
+  messageIds.forEach(id => store.delete(id));
+  const threadIds = new Set(existing.filter((m): m is StoredMessage => !!m).map(m => m.threadId));
+  await refreshThreads(tx, threadIds);
+  await transactionDone(tx);
+};
+
+/** Applies label deltas to stored messages. Returns the ids that were actually in the store. */
+export const updateMessageLabels = async (
+  userId: string,
+  changes: Map<string, { add: Set<string>; remove: Set<string> }>
+): Promise<string[]> => {
+  if (changes.size === 0) return [];
+  const db = await openMailDb(userId);
+  const tx = db.transaction(MESSAGES, 'readwrite');
+  const store = tx.objectStore(MESSAGES);
+  const updated: string[] = [];
+  await Promise.all(Array.from(changes.entries()).map(async ([id, { add, remove }]) => {
+    const message = await promisifyRequest<StoredMessage | undefined>(store.get(id));
+    if (!message) return;
+    const labels = new Set(message.labelIds ?? []);
+    add.forEach(label => labels.add(label));
+    remove.forEach(label => labels.delete(label));
+    store.put({ ...message, labelIds: Array.from(labels) });
+    updated.push(id);
+  }));
+  await transactionDone(tx);
+  return updated;
+};
+
+export const getStoredMessages = async (userId: string, messageIds: string[]): Promise<Map<string, StoredMessage>> => {
+  const found = new Map<string, StoredMessage>();
+  if (messageIds.length === 0) return found;
+  const db = await openMailDb(userId);
+  const store = db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES);
+  const messages = await Promise.all(messageIds.map(id => promisifyRequest<StoredMessage | undefined>(store.get(id))));
+  messages.forEach(message => {
+    if (message) found.set(message.id, message);
+  });
+  return found;
+};
+
+export interface StoredMessageQuery {
+  /** Only messages carrying this Gmail label. */
+  labelId?: string;
+  offset?: number;
+  limit?: number;
+}
+
+// Same default as messages.list: spam and trash are hidden unless asked for explicitly.
+const HIDDEN_LABELS = ['SPAM', 'TRASH'];
+
+/** Newest-first page of stored messages. `hasMore` is true when the store holds further matches. */
+export const queryStoredMessages = async (
+  userId: string,
+  { labelId, offset = 0, limit = 20 }: StoredMessageQuery = {}
+): Promise<{ messages: StoredMessage[]; hasMore: boolean }> => {
+  const db = await openMailDb(userId);
+  const index = db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES).index('byDate');
+
+  return new Promise((resolve, reject) => {
+    const messages: StoredMessage[] = [];
+    let skipped = 0;
+    const request = index.openCursor(null, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ messages, hasMore: false });
+        return;
+      }
+      const message = cursor.value as StoredMessage;
+      const labels = message.labelIds ?? [];
+      const matches = (labelId ? labels.includes(labelId) : true)
+        && !HIDDEN_LABELS.some(hidden => hidden !== labelId && labels.includes(hidden));
+      if (matches) {
+        if (skipped < offset) {
+          skipped++;
+        } else if (messages.length < limit) {
+          messages.push(message);
+        } else {
+          resolve({ messages, hasMore: true });
+          return;
+        }
+      }
+      cursor.continue();
+    };
+  });
+};
+
+/** Every stored message received at or after `sinceMs`, spam and trash excluded, oldest first. */
+export const getStoredMessagesSince = async (userId: string, sinceMs: number): Promise<StoredMessage[]> => {
+  const db = await openMailDb(userId);
+  const index = db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES).index('byDate');
+  const messages = await promisifyRequest<StoredMessage[]>(index.getAll(IDBKeyRange.lowerBound(sinceMs)));
+  return messages.filter(message => !HIDDEN_LABELS.some(hidden => message.labelIds?.includes(hidden)));
+};
+
+/** internalDate of the oldest stored message, or null while the store is empty. */
+export const getOldestStoredDateMs = async (userId: string): Promise<number | null> => {
+  const db = await openMailDb(userId);
+  const index = db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES).index('byDate');
+  const cursor = await promisifyRequest(index.openCursor());
+  return cursor ? (cursor.value as StoredMessage).internalDateMs : null;
+};
+
+export const countStoredMessages = async (userId: string): Promise<number> => {
+  const db = await openMailDb(userId);
+  return promisifyRequest(db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES).count());
+};
+
+// --- Threads ---
+export const getStoredThread = async (userId: string, threadId: string): Promise<StoredThread | undefined> => {
+  const db = await openMailDb(userId);
+  return promisifyRequest(db.transaction(THREADS, 'readonly').objectStore(THREADS).get(threadId));
+};
+
+/** Records the historyId returned by threads.get so the thread summary stays comparable with sync. */
+export const setThreadHistoryId = async (userId: string, threadId: string, historyId: string): Promise<void> => {
+  const db = await openMailDb(userId);
+  const tx = db.transaction(THREADS, 'readwrite');
+  const store = tx.objectStore(THREADS);
+  const existing = await promisifyRequest<StoredThread | undefined>(store.get(threadId));
+  if (existing) store.put({ ...existing, historyId });
+  await transactionDone(tx);
+};
+
+// --- Labels ---
+export const putLabels = async (userId: string, labels: GmailLabel[]): Promise<void> => {
+  const db = await openMailDb(userId);
+  const tx = db.transaction(LABELS, 'readwrite');
+  const store = tx.objectStore(LABELS);
+  store.clear();
+  labels.forEach(label => store.put(label));
+  await transactionDone(tx);
+};
+
+export const getStoredLabels = async (userId: string): Promise<GmailLabel[]> => {
+  const db = await openMailDb(userId);
+  return promisifyRequest(db.transaction(LABELS, 'readonly').objectStore(LABELS).getAll());
+};
+
+// --- Sync State ---
+const SYNC_STATE_KEY = 'syncState';
+
+export const getSyncState = async (userId: string): Promise<MailSyncState> => {
+  const db = await openMailDb(userId);
+  const state = await promisifyRequest<MailSyncState | undefined>(
+    db.transaction(META, 'readonly').objectStore(META).get(SYNC_STATE_KEY)
+  );
+  return state ?? {};
+};
+
+export const setSyncState = async (userId: string, state: MailSyncState): Promise<void> => {
+  const db = await openMailDb(userId);
+  const tx = db.transaction(META, 'readwrite');
+  const store = tx.objectStore(META);
+  const current = await promisifyRequest<MailSyncState | undefined>(store.get(SYNC_STATE_KEY));
+  store.put({ ...current, ...state }, SYNC_STATE_KEY);
+  await transactionDone(tx);
+};
+
+/** Empties every store; used when the history cursor is too old and a full refill is needed. */
+export const clearMailStore = async (userId: string): Promise<void> => {
+  const db = await openMailDb(userId);
+  const tx = db.transaction([MESSAGES, THREADS, LABELS, META], 'readwrite');
+  [MESSAGES, THREADS, LABELS, META].forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+};
+
+/** Removes the user's database entirely (on sign-out). */
+export const deleteMailStore = async (userId: string): Promise<void> => {
+  const existing = dbPromises.get(userId);
+  if (existing) {
+    (await existing.catch(() => null))?.close();
+    dbPromises.delete(userId);
+  }
+  await promisifyRequest(indexedDB.deleteDatabase(`${DB_PREFIX}${userId}`) as IDBRequest<unknown>);
+};
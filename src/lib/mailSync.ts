@@ -0,0 +1,391 @@
+import { GMAIL_API_URL, GoogleNotFoundError, googleRequest } from './googleApiClient';
+import {
+  deleteEmailTags,
+  fetchEmailDetailsBatch,
+  fetchTagLabelLinks,
+  GmailFullMessage,
+  insertEmailTags,
+  unlinkMissingGmailLabels,
+} from './supabaseClient';
+import {
+  clearMailStore,
+  deleteMessages,
+  getOldestStoredDateMs,
+  getStoredMessages,
+  getStoredMessagesSince,
+  getSyncState,
+  GmailLabel,
+  isMailStoreSupported,
+  MailStoreChange,
+  notifyMailStoreChange,
+  putLabels,
+  putMessages,
+  queryStoredMessages,
+  setSyncState,
+  setThreadHistoryId,
+  StoredMessage,
+  StoredMessageQuery,
+  updateMessageLabels,
+} from './mailStore';
+import { applyRulesToNewMessages } from './mailRules';
+
+// --- Mailbox Sync ---
+// The store is filled once with the most recent messages and then kept current with
+// users.history.list starting from the stored historyId. When Gmail no longer has
+// history that old (404), the store is cleared and filled again. New messages whose
+// details failed to load are kept in the sync state and fetched again by the next sync,
+// since the history cursor moves past them either way.
+
+const LIST_PAGE_SIZE = 100;
+const INITIAL_FILL_PAGES = 5; // ~500 most recent messages
+const MAX_EXTEND_PAGES_PER_QUERY = 3;
+// Reading a date range pulls in at most this many more pages (~2000 messages)
+const MAX_EXTEND_PAGES_PER_RANGE = 20;
+
+interface HistoryMessageRef {
+  message: { id: string; threadId: string; labelIds?: string[] };
+  labelIds?: string[];
+}
+
+interface HistoryRecord {
+  id: string;
+  messagesAdded?: HistoryMessageRef[];
+  messagesDeleted?: HistoryMessageRef[];
+  labelsAdded?: HistoryMessageRef[];
+  labelsRemoved?: HistoryMessageRef[];
+}
+
+interface HistoryListResponse {
+  history?: HistoryRecord[];
+  nextPageToken?: string;
+  historyId: string;
+}
+
+interface MessageListResponse {
+  messages?: { id: string; threadId: string }[];
+  nextPageToken?: string;
+}
+
+// One sync per user at a time; concurrent callers share the running promise.
+const runningSyncs = new Map<string, Promise<MailStoreChange>>();
+
+type LabelChanges = Map<string, { add: Set<string>; remove: Set<string> }>;
+
+const fetchLabels = async (signal?: AbortSignal): Promise<GmailLabel[]> => {
+  const data = await googleRequest<{ labels?: GmailLabel[] }>(`${GMAIL_API_URL}/labels`, { signal });
+  return data.labels || [];
+};
+
+// Lists one page of message ids, fetches their metadata and stores it.
+const storeMessagePage = async (
+  userId: string,
+  pageToken: string | undefined,
+  signal?: AbortSignal
+): Promise<{ ids: string[]; nextPageToken?: string }> => {
+  const page = await googleRequest<MessageListResponse>(`${GMAIL_API_URL}/messages`, {
+    query: { maxResults: LIST_PAGE_SIZE, pageToken },
+    signal,
+  });
+  const ids = (page.messages || []).map(m => m.id);
+  const { messages } = await fetchEmailDetailsBatch(ids, { signal });
+  await putMessages(userId, messages);
+  return { ids: messages.map(m => m.id), nextPageToken: page.nextPageToken };
+};
+
+const initialFill = async (userId: string, signal?: AbortSignal): Promise<MailStoreChange> => {
+  // Take the history cursor *before* listing so nothing that arrives meanwhile is missed.
+  const profile = await googleRequest<{ historyId: string }>(`${GMAIL_API_URL}/profile`, { signal });
+  await putLabels(userId, await fetchLabels(signal));
+
+  const added: string[] = [];
+  let pageToken: string | undefined;
+  for (let page = 0; page < INITIAL_FILL_PAGES; page++) {
+    const result = await storeMessagePage(userId, pageToken, signal);
+    added.push(...result.ids);
+    pageToken = result.nextPageToken;
+    if (!pageToken) break;
+  }
+
+  await setSyncState(userId, {
+    historyId: profile.historyId,
+    fillPageToken: pageToken ?? null,
+    lastSyncedAt: Date.now(),
+  });
+  return { added, deleted: [], updated: [] };
+};
+
+const applyHistory = async (
+  userId: string,
+  startHistoryId: string,
+  retryIds: string[],
+  signal?: AbortSignal
+): Promise<MailStoreChange> => {
+  const added = new Map<string, string>(); // id -> threadId
+  // Before the records, so a retried message deleted since is dropped
+  retryIds.forEach(id => added.set(id, ''));
+  const deleted = new Set<string>();
+  const labelChanges: LabelChanges = new Map();
+  const labelChange = (id: string) => {
+    if (!labelChanges.has(id)) labelChanges.set(id, { add: new Set(), remove: new Set() });
+    return labelChanges.get(id)!;
+  };
+
+  let pageToken: string | undefined;
+  let latestHistoryId = startHistoryId;
+  do {
+    const page = await googleRequest<HistoryListResponse>(`${GMAIL_API_URL}/history`, {
+      query: {
+        startHistoryId,
+        historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+        maxResults: 500,
+        pageToken,
+      },
+      signal,
+    });
+    latestHistoryId = page.historyId || latestHistoryId;
+
+    // Records are in chronological order, so later events win.
+    (page.history || []).forEach(record => {
+      record.messagesAdded?.forEach(({ message }) => {
+        added.set(message.id, message.threadId);
+        deleted.delete(message.id);
+      });
+      record.messagesDeleted?.forEach(({ message }) => {
+        deleted.add(message.id);
+        added.delete(message.id);
+        labelChanges.delete(message.id);
+      });
+      record.labelsAdded?.forEach(({ message, labelIds = [] }) => {
+        const change = labelChange(message.id);
+        labelIds.forEach(label => { change.add.add(label); change.remove.delete(label); });
+      });
+      record.labelsRemoved?.forEach(({ message, labelIds = [] }) => {
+        const change = labelChange(message.id);
+        labelIds.forEach(label => { change.remove.add(label); change.add.delete(label); });
+      });
+    });
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  await deleteMessages(userId, Array.from(deleted));
+
+  // Newly added messages are fetched fresh, so their label deltas are already included.
+  const addedIds = Array.from(added.keys());
+  addedIds.forEach(id => labelChanges.delete(id));
+  const { messages, failed } = await fetchEmailDetailsBatch(addedIds, { signal });
+  await putMessages(userId, messages);
+  // A 404 means the message is gone again; anything else is tried once more next time
+  const retryMessageIds = failed.filter(({ error }) => !(error instanceof GoogleNotFoundError)).map(({ id }) => id);
+  if (retryMessageIds.length > 0) {
+    console.warn(`Failed to fetch ${retryMessageIds.length} new messages, retrying on the next sync:`, failed);
+  }
+
+  const updated = await updateMessageLabels(userId, labelChanges);
+  const tagChanges: LabelChanges = new Map(labelChanges);
+  messages.forEach(m => tagChanges.set(m.id, { add: new Set(m.labelIds || []), remove: new Set() }));
+  await applyLabelChangesToTags(userId, tagChanges);
+  // Rules change labels themselves; those changes come back with the next sync.
+  await applyRulesToNewMessages(userId, messages).catch(error =>
+    console.warn('Failed to run mail rules on new mail:', error)
+  );
+  await setSyncState(userId, { historyId: latestHistoryId, retryMessageIds, lastSyncedAt: Date.now() });
+
+  return { added: messages.map(m => m.id), deleted: Array.from(deleted), updated };
+};
+
+/**
+ * Mirrors label changes of tag-linked Gmail labels onto email_tags. Only the net change
+ * per message and label is applied, so the latest event wins; our own tag changes come
+ * back here as no-ops. Failures are logged and don't hold up the mail sync.
+ */
+const applyLabelChangesToTags = async (userId: string, changes: LabelChanges): Promise<void> => {
+  if (changes.size === 0) return;
+  try {
+    const links = await fetchTagLabelLinks(userId);
+    if (links.size === 0) return;
+
+    const byTag = new Map<string, { add: string[]; remove: string[] }>();
+    const forTag = (tagId: string) => {
+      if (!byTag.has(tagId)) byTag.set(tagId, { add: [], remove: [] });
+      return byTag.get(tagId)!;
+    };
+    changes.forEach(({ add, remove }, messageId) => {
+      add.forEach(labelId => { const tagId = links.get(labelId); if (tagId) forTag(tagId).add.push(messageId); });
+      remove.forEach(labelId => { const tagId = links.get(labelId); if (tagId) forTag(tagId).remove.push(messageId); });
+    });
+
+    for (const [tagId, { add, remove }] of byTag) {
+      if (add.length > 0) await insertEmailTags(userId, add, tagId);
+      if (remove.length > 0) await deleteEmailTags(userId, remove, tagId);
+    }
+  } catch (error) {
+    console.warn('Failed to apply Gmail label changes to tags:', error);
+  }
+};
+
+const runSync = async (userId: string, signal?: AbortSignal): Promise<MailStoreChange> => {
+  const state = await getSyncState(userId);
+  if (!state.historyId) {
+    return initialFill(userId, signal);
+  }
+  try {
+    return await applyHistory(userId, state.historyId, state.retryMessageIds ?? [], signal);
+  } catch (error) {
+    if (!(error instanceof GoogleNotFoundError)) throw error;
+    // Gmail only keeps about a week of history; start over from a fresh fill.
+    console.warn('Stored Gmail historyId has expired, refilling the local mail store.');
+    await clearMailStore(userId);
+    const change = await initialFill(userId, signal);
+    return { ...change, deleted: [] };
+  }
+};
+
+// Rejects with an AbortError once the signal aborts, without stopping the promise itself
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Brings the local store up to date (initial fill or history deltas) and notifies
+ * subscribers of what changed. Safe to call often; overlapping calls share one run.
+ * The run isn't tied to any caller: `signal` only stops this caller from waiting on it.
+ */
+export const syncMailbox = (userId: string, signal?: AbortSignal): Promise<MailStoreChange> => {
+  if (!isMailStoreSupported()) return Promise.resolve({ added: [], deleted: [], updated: [] });
+  const running = runningSyncs.get(userId);
+  if (running) return untilAborted(running, signal);
+
+  const promise = runSync(userId)
+    .then(change => {
+      notifyMailStoreChange(userId, change);
+      return change;
+    })
+    .finally(() => runningSyncs.delete(userId));
+  runningSyncs.set(userId, promise);
+  return untilAborted(promise, signal);
+};
+
+/** Refreshes the stored label list, which history deltas do not cover. */
+export const syncLabels = async (userId: string, signal?: AbortSignal): Promise<GmailLabel[]> => {
+  const labels = await fetchLabels(signal);
+  await putLabels(userId, labels);
+  // A label deleted in Gmail leaves its tag behind, unlinked.
+  await unlinkMissingGmailLabels(userId, labels.map(label => label.id)).catch(error =>
+    console.warn('Failed to unlink deleted Gmail labels from tags:', error)
+  );
+  return labels;
+};
+
+/**
+ * Reads a newest-first page from the store. If the page runs past what the initial
+ * fill stored, older messages are pulled in from Gmail a page at a time.
+ */
+export const readMailStorePage = async (
+  userId: string,
+  query: StoredMessageQuery,
+  signal?: AbortSignal
+): Promise<{ messages: GmailFullMessage[]; hasMore: boolean }> => {
+  let state = await getSyncState(userId);
+  if (!state.historyId) {
+    // Not tied to this caller's signal: the fill is shared with the background sync.
+    await syncMailbox(userId);
+    state = await getSyncState(userId);
+  }
+
+  let page = await queryStoredMessages(userId, query);
+  for (let extended = 0; extended < MAX_EXTEND_PAGES_PER_QUERY; extended++) {
+    if (page.hasMore || !state.fillPageToken) break;
+    const limit = query.limit ?? 20;
+    if (page.messages.length >= limit) {
+      // The page is full; whether more exist depends on what Gmail still has.
+      return { messages: page.messages, hasMore: true };
+    }
+    const result = await storeMessagePage(userId, state.fillPageToken, signal);
+    await setSyncState(userId, { fillPageToken: result.nextPageToken ?? null });
+    state = { ...state, fillPageToken: result.nextPageToken ?? null };
+    page = await queryStoredMessages(userId, query);
+  }
+  return { messages: page.messages, hasMore: page.hasMore || !!state.fillPageToken };
+};
+
+/**
+ * Every message received since `since`, oldest first. When the store does not reach back
+ * that far yet, older messages are pulled in from Gmail, up to a limit; `complete` is
+ * false if the store still stops short of `since` after that.
+ */
+export const readStoredMessagesSince = async (
+  userId: string,
+  since: Date,
+  signal?: AbortSignal
+): Promise<{ messages: StoredMessage[]; complete: boolean }> => {
+  let state = await getSyncState(userId);
+  if (!state.historyId) {
+    await syncMailbox(userId);
+    state = await getSyncState(userId);
+  }
+
+  const reachesBack = async () => ((await getOldestStoredDateMs(userId)) ?? Infinity) <= since.getTime();
+  let complete = !state.fillPageToken || await reachesBack();
+  for (let extended = 0; !complete && extended < MAX_EXTEND_PAGES_PER_RANGE; extended++) {
+    const result = await storeMessagePage(userId, state.fillPageToken ?? undefined, signal);
+    state = { ...state, fillPageToken: result.nextPageToken ?? null };
+    await setSyncState(userId, { fillPageToken: state.fillPageToken });
+    complete = !state.fillPageToken || await reachesBack();
+  }
+  return { messages: await getStoredMessagesSince(userId, since.getTime()), complete };
+};
+
+/**
+ * Returns metadata for the given ids in the same order, reading from the store first
+ * and fetching (then storing) only the ones it does not have yet.
+ */
+export const getMessageDetails = async (
+  userId: string,
+  messageIds: string[],
+  signal?: AbortSignal
+): Promise<GmailFullMessage[]> => {
+  if (messageIds.length === 0) return [];
+  if (!isMailStoreSupported()) {
+    const { messages } = await fetchEmailDetailsBatch(messageIds, { signal });
+    return messages;
+  }
+
+  const stored = await getStoredMessages(userId, messageIds);
+  const missing = messageIds.filter(id => !stored.has(id));
+  if (missing.length > 0) {
+    const { messages, failed } = await fetchEmailDetailsBatch(missing, { signal });
+    if (failed.length > 0) {
+      console.warn(`Failed to fetch details for ${failed.length} of ${missing.length} emails:`, failed);
+    }
+    await putMessages(userId, messages);
+    messages.forEach(message => stored.set(message.id, { ...message, internalDateMs: Number(message.internalDate || 0) }));
+  }
+  return messageIds.map(id => stored.get(id)).filter((m): m is StoredMessage => !!m);
+};
+
+/**
+ * Mirrors a label change made through the API into the store right away, so list
+ * views don't show stale labels until the next history sync.
+ */
+export const applyLocalLabelChange = async (
+  userId: string,
+  messageIds: string[],
+  addLabelIds: string[] = [],
+  removeLabelIds: string[] = []
+): Promise<void> => {
+  if (!isMailStoreSupported() || messageIds.length === 0) return;
+  const change = { add: new Set(addLabelIds), remove: new Set(removeLabelIds) };
+  const updated = await updateMessageLabels(userId, new Map(messageIds.map(id => [id, change])));
+  notifyMailStoreChange(userId, { added: [], deleted: [], updated });
+};
+
+export const recordThreadHistoryId = (userId: string, threadId: string, historyId: string): Promise<void> =>
+  isMailStoreSupported() ? setThreadHistoryId(userId, threadId, historyId) : Promise.resolve();
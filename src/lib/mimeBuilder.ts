@@ -0,0 +1,357 @@
+// --- MIME Message Builder ---
+// Produces RFC 5322 / MIME messages for Gmail's `raw` send and draft endpoints.
+// Everything in the output is 7-bit ASCII: non-ASCII header text is RFC 2047
+// encoded, text bodies are quoted-printable and attachments are base64.
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+  /** Set for inline images referenced from the HTML body as `cid:<contentId>`. */
+  contentId?: string;
+}
+
+export interface MimeMessage {
+  from?: string;
+  /** Comma-separated address lists, as typed by the user. */
+  to: string;
+  cc?: string;
+  bcc?: string;
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  inReplyTo?: string;
+  references?: string;
+  /** Extra headers, written after the standard ones. */
+  headers?: Record<string, string>;
+  /** Added below the body of both the text and the HTML version. */
+  signature?: MessageSignature | null;
+}
+
+/** A signature as it goes out; `html` is its formatted version, if it has one (e.g. imported from Gmail). */
+export interface MessageSignature {
+  text: string;
+  html: string | null;
+}
+
+export interface MailAddress {
+  name: string;
+  address: string;
+}
+
+const MAX_LINE_LENGTH = 76;
+const MAX_HEADER_LINE_LENGTH = 78;
+// 45 bytes -> 60 base64 chars, which keeps each `=?UTF-8?B?...?=` word under 75 chars.
+const ENCODED_WORD_MAX_BYTES = 45;
+
+const utf8Encoder = new TextEncoder();
+
+const needsEncoding = (value: string): boolean => /[^\t\r\n\u0020-\u007e]/.test(value);
+
+// Header values must never contain line breaks, or user input could inject headers.
+const sanitizeHeaderValue = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+};
+
+const wrapLines = (value: string, length: number = MAX_LINE_LENGTH): string =>
+  value.match(new RegExp(`.{1,${length}}`, 'g'))?.join('\r\n') ?? '';
+
+// --- Header Encoding ---
+
+/** RFC 2047 B-encoding, split into words that never cut a UTF-8 sequence in half. */
+export const encodeHeaderWords = (value: string): string => {
+  if (!needsEncoding(value)) return value;
+  const words: number[][] = [];
+  const current: number[] = [];
+  for (const char of value) {
+    const bytes = Array.from(utf8Encoder.encode(char));
+    if (current.length + bytes.length > ENCODED_WORD_MAX_BYTES) {
+      words.push(current.splice(0));
+    }
+    current.push(...bytes);
+  }
+  if (current.length > 0) words.push(current);
+  return words.map(bytes => `=?UTF-8?B?${bytesToBase64(Uint8Array.from(bytes))}?=`).join(' ');
+};
+
+/**
+ * Splits a comma-separated address list, ignoring commas inside quotes or angle brackets.
+ * Accepts `a@b.c`, `Name <a@b.c>` and `"Last, First" <a@b.c>`.
+ */
+export const parseAddressList = (value: string): MailAddress[] => {
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inAngle = true;
+    else if (char === '>' && !inQuotes) inAngle = false;
+    if ((char === ',' || char === ';') && !inQuotes && !inAngle) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = /^(.*?)\s*<([^>]+)>$/.exec(entry);
+      if (match) {
+        return { name: match[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1'), address: match[2].trim() };
+      }
+      return { name: '', address: entry };
+    });
+};
+
+/** Address as a user would type it, e.g. `"Last, First" <a@b.c>` (not header-encoded). */
+export const formatDisplayAddress = ({ name, address }: MailAddress): string => {
+  if (!name) return address;
+  // Names with RFC 5322 specials have to be quoted.
+  const displayName = /[()<>[\]:;@\\,."]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+  return `${displayName} <${address}>`;
+};
+
+const formatAddress = (mailAddress: MailAddress): string => {
+  if (needsEncoding(mailAddress.name)) return `${encodeHeaderWords(mailAddress.name)} <${mailAddress.address}>`;
+  return formatDisplayAddress(mailAddress);
+};
+
+export const formatAddressList = (value: string): string =>
+  parseAddressList(value).map(formatAddress).join(', ');
+
+/** Folds a header onto continuation lines at whitespace so no line exceeds 78 characters. */
+export const foldHeader = (name: string, value: string): string => {
+  const words = `${name}: ${value}`.split(' ');
+  const lines: string[] = [];
+  let line = '';
+  words.forEach(word => {
+    // Never leave the header name alone on its line.
+    if (line && line !== `${name}:` && line.length + 1 + word.length > MAX_HEADER_LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  lines.push(line);
+  return lines.join('\r\n ');
+};
+
+// RFC 2231 parameter for filenames; plain ASCII names stay readable.
+const fileNameParams = (filename: string): { name: string; filename: string } => {
+  const cleaned = sanitizeHeaderValue(filename).replace(/["\\]/g, '_');
+  if (!needsEncoding(cleaned)) {
+    return { name: `name="${cleaned}"`, filename: `filename="${cleaned}"` };
+  }
+  const encoded = encodeURIComponent(cleaned).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return { name: `name="${encodeHeaderWords(cleaned)}"`, filename: `filename*=UTF-8''${encoded}` };
+};
+
+// --- Body Encoding ---
+
+/** Quoted-printable (RFC 2045) over UTF-8, with CRLF line endings and soft breaks at 76 chars. */
+export const encodeQuotedPrintable = (text: string): string => {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .split('\n')
+    .map(line => {
+      const bytes = utf8Encoder.encode(line);
+      const tokens: string[] = [];
+      bytes.forEach((byte, i) => {
+        const isLast = i === bytes.length - 1;
+        const printable = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        tokens.push(printable ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`);
+      });
+      // Soft line breaks leave room for the trailing '='.
+      const wrapped: string[] = [];
+      let current = '';
+      tokens.forEach(token => {
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          wrapped.push(`${current}=`);
+          current = '';
+        }
+        current += token;
+      });
+      wrapped.push(current);
+      return wrapped.join('\r\n');
+    })
+    .join('\r\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** HTML version of a plain-text body: escaped, with line breaks preserved. */
+export const plainTextToHtml = (text: string): string =>
+  `<div dir="auto">${escapeHtml(text).replace(/\r?\n/g, '<br>')}</div>`;
+
+/** Plain-text fallback for an HTML body. */
+export const htmlToPlainText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  doc.querySelectorAll('p, div, li, tr, h1, h2, h3, h4, h5, h6, blockquote').forEach(el => el.append('\n'));
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// --- Signatures ---
+// The text version uses the usual "-- " separator line; the HTML version wraps the
+// signature in the same gmail_signature div Gmail uses, which is also how
+// splitSignature finds it again when a draft is reopened.
+
+const SIGNATURE_SEPARATOR = '\n-- \n';
+const SIGNATURE_CLASS = 'gmail_signature';
+
+const signatureToHtml = (signature: MessageSignature): string =>
+  signature.html ?? plainTextToHtml(signature.text);
+
+/** The message with its signature written into the text and HTML bodies. */
+const applySignature = (message: MimeMessage): MimeMessage => {
+  const signature = message.signature;
+  if (!signature?.text.trim() && !signature?.html) return message;
+  const text = message.text ?? (message.html ? htmlToPlainText(message.html) : '');
+  const signedText = `${text.trimEnd()}${text.trim() ? '\n' : ''}${SIGNATURE_SEPARATOR}${signature.text}`;
+  if (!message.html && !signature.html) return { ...message, text: signedText };
+  const html = message.html ?? plainTextToHtml(text);
+  return {
+    ...message,
+    text: signedText,
+    html: `${html}<br><span class="${SIGNATURE_CLASS}_prefix">-- </span><br><div dir="auto" class="${SIGNATURE_CLASS}">${signatureToHtml(signature)}</div>`,
+  };
+};
+
+/**
+ * Undoes applySignature for a saved message: the body text and the signature.
+ * Only messages whose HTML carries the signature div are split, so a "-- " line
+ * that is part of the body (e.g. in forwarded text) stays where it is.
+ */
+export const splitSignature = (text: string, html: string): { text: string; signature: MessageSignature | null } => {
+  const parseBody = (source: string) => new DOMParser().parseFromString(source, 'text/html').body;
+  const element = html ? parseBody(html).querySelector(`div.${SIGNATURE_CLASS}`) : null;
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const separatorIndex = normalized.lastIndexOf(SIGNATURE_SEPARATOR);
+  if (!element || separatorIndex < 0) return { text, signature: null };
+
+  const signatureText = normalized.slice(separatorIndex + SIGNATURE_SEPARATOR.length);
+  const signatureHtml = element.innerHTML;
+  return {
+    text: normalized.slice(0, separatorIndex).replace(/\n+$/, ''),
+    signature: {
+      text: signatureText,
+      // A plain-text signature's HTML is generated from its text each time
+      html: signatureHtml === parseBody(plainTextToHtml(signatureText)).innerHTML ? null : signatureHtml,
+    },
+  };
+};
+
+// --- Message Assembly ---
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const createBoundary = (): string => {
+  const random = crypto.getRandomValues(new Uint8Array(12));
+  return `=_tl_${Array.from(random, b => b.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const textPart = (subtype: 'plain' | 'html', content: string): MimePart => ({
+  headers: [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: quoted-printable',
+  ],
+  body: encodeQuotedPrintable(content),
+});
+
+const attachmentPart = (attachment: MimeAttachment, inline: boolean): MimePart => {
+  const params = fileNameParams(attachment.filename || 'attachment');
+  const headers = [
+    foldHeader('Content-Type', `${attachment.mimeType || 'application/octet-stream'}; ${params.name}`),
+    foldHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; ${params.filename}`),
+    'Content-Transfer-Encoding: base64',
+  ];
+  if (inline && attachment.contentId) headers.push(`Content-ID: <${attachment.contentId}>`);
+  return { headers, body: wrapLines(bytesToBase64(attachment.content)) };
+};
+
+const multipart = (subtype: 'mixed' | 'alternative' | 'related', parts: MimePart[]): MimePart => {
+  const boundary = createBoundary();
+  const body = parts
+    .map(part => `--${boundary}\r\n${part.headers.join('\r\n')}\r\n\r\n${part.body}`)
+    .join('\r\n');
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}\r\n--${boundary}--`,
+  };
+};
+
+// multipart/mixed( multipart/alternative( text, multipart/related( html, inline images ) ), attachments )
+// with each level left out when it would only have one child.
+const buildBody = (message: MimeMessage): MimePart => {
+  const attachments = message.attachments ?? [];
+  const inlineImages = message.html ? attachments.filter(a => a.contentId) : [];
+  const regularAttachments = attachments.filter(a => !inlineImages.includes(a));
+
+  let body: MimePart;
+  if (message.html) {
+    const htmlPart = inlineImages.length > 0
+      ? multipart('related', [textPart('html', message.html), ...inlineImages.map(a => attachmentPart(a, true))])
+      : textPart('html', message.html);
+    body = multipart('alternative', [textPart('plain', message.text ?? htmlToPlainText(message.html)), htmlPart]);
+  } else {
+    body = textPart('plain', message.text ?? '');
+  }
+
+  if (regularAttachments.length === 0) return body;
+  return multipart('mixed', [body, ...regularAttachments.map(a => attachmentPart(a, false))]);
+};
+
+/** Builds the complete message source (CRLF line endings, ASCII only). */
+export const buildMimeMessage = (message: MimeMessage): string => {
+  const headers: string[] = [];
+  const addressHeader = (name: string, value?: string) => {
+    const formatted = value ? formatAddressList(sanitizeHeaderValue(value)) : '';
+    if (formatted) headers.push(foldHeader(name, formatted));
+  };
+
+  addressHeader('From', message.from);
+  addressHeader('To', message.to);
+  addressHeader('Cc', message.cc);
+  // Gmail reads Bcc from the raw message and strips it before delivery.
+  addressHeader('Bcc', message.bcc);
+  addressHeader('Reply-To', message.replyTo);
+  headers.push(foldHeader('Subject', encodeHeaderWords(sanitizeHeaderValue(message.subject || ''))));
+  if (message.inReplyTo) headers.push(foldHeader('In-Reply-To', sanitizeHeaderValue(message.inReplyTo)));
+  if (message.references) headers.push(foldHeader('References', sanitizeHeaderValue(message.references)));
+  Object.entries(message.headers ?? {}).forEach(([name, value]) => {
+    headers.push(foldHeader(name, encodeHeaderWords(sanitizeHeaderValue(value))));
+  });
+  headers.push('MIME-Version: 1.0');
+
+  const body = buildBody(applySignature(message));
+  return [...headers, ...body.headers].join('\r\n') + '\r\n\r\n' + body.body;
+};
+
+/** base64url of the message's UTF-8 bytes, as the `raw` field expects. */
+export const encodeRawMessage = (mime: string): string =>
+  bytesToBase64(utf8Encoder.encode(mime)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fileToMimeAttachment = async (file: File): Promise<MimeAttachment> => ({
+  filename: file.name,
+  mimeType: file.type || 'application/octet-stream',
+  content: new Uint8Array(await file.arrayBuffer()),
+});
@@ -0,0 +1,412 @@
+import {
+  getGoogleAccessToken,
+  GMAIL_API_URL,
+  googleRequest,
+  GoogleNotFoundError,
+  isTokenExpiredError,
+} from './googleApiClient';
+import { sendDraft } from './gmailDrafts';
+import { supabase } from './supabaseClient';
+
+// --- Outbox ---
+// A scheduled message is a Gmail draft plus a scheduled_messages row saying when to send
+// it, so attachments need no storage of their own and editing a scheduled message is
+// editing its draft. Rows are keyed by draft id. dispatchDueMessages runs in every open
+// tab; each row is claimed before it is sent, so a message only goes out once.
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'sent' | 'failed';
+
+export interface ScheduledMessage {
+  id: string;
+  draft_id: string;
+  /** Set for replies, which are sent into (and edited from) their thread. */
+  thread_id: string | null;
+  recipients: string;
+  subject: string;
+  send_at: string;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_message_id: string | null;
+  sent_at: string | null;
+  updated_at: string;
+}
+
+export interface ScheduleRequest {
+  draftId: string;
+  threadId?: string | null;
+  recipients: string;
+  subject: string;
+}
+
+export interface SchedulePreset {
+  label: string;
+  sendAt: Date;
+}
+
+export interface DispatchResult {
+  sent: ScheduledMessage[];
+  /** Messages given up on during this run, for the caller to report. */
+  failed: ScheduledMessage[];
+}
+
+const SCHEDULED_MESSAGE_COLUMNS =
+  'id, draft_id, thread_id, recipients, subject, send_at, status, attempts, next_attempt_at, last_error, sent_message_id, sent_at, updated_at';
+
+const MAX_ATTEMPTS = 5;
+/** Doubles after every failed attempt: 1, 2, 4, 8 minutes. */
+const RETRY_BASE_DELAY_MS = 60_000;
+/** A send claimed this long ago that never finished was cut off, e.g. by the tab closing. */
+const STALE_SENDING_MS = 10 * 60_000;
+/** Sent messages stay in the Scheduled view for a week. */
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+const atHour = (base: Date, daysAhead: number, hour: number): Date =>
+  new Date(base.getFullYear(), base.getMonth(), base.getDate() + daysAhead, hour, 0, 0, 0);
+
+/** Gmail's schedule-send presets; Monday is left out when it is tomorrow anyway. */
+export const getSchedulePresets = (now: Date = new Date()): SchedulePreset[] => {
+  const presets: SchedulePreset[] = [
+    { label: 'Tomorrow morning', sendAt: atHour(now, 1, 8) },
+    { label: 'Tomorrow afternoon', sendAt: atHour(now, 1, 13) },
+  ];
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+  if (daysToMonday > 1) {
+    presets.push({ label: 'Monday morning', sendAt: atHour(now, daysToMonday, 8) });
+  }
+  return presets;
+};
+
+// --- Reading ---
+
+export const fetchScheduledMessages = async (userId: string): Promise<ScheduledMessage[]> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select(SCHEDULED_MESSAGE_COLUMNS)
+    .eq('user_id', userId)
+    .order('send_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching scheduled messages:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const fetchScheduledMessageForDraft = async (
+  userId: string,
+  draftId: string
+): Promise<ScheduledMessage | null> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select(SCHEDULED_MESSAGE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('draft_id', draftId)
+    .maybeSingle();
+  if (error) {
+    console.error(`Error fetching schedule of draft ${draftId}:`, error);
+    throw error;
+  }
+  return data;
+};
+
+// --- Scheduling ---
+
+/** Schedules a saved draft, or moves an already scheduled one to `sendAt`. */
+export const scheduleMessage = async (userId: string, request: ScheduleRequest, sendAt: Date): Promise<void> => {
+  if (sendAt.getTime() <= Date.now()) {
+    throw new Error('Send time must be in the future.');
+  }
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .upsert(
+      {
+        user_id: userId,
+        draft_id: request.draftId,
+        thread_id: request.threadId ?? null,
+        recipients: request.recipients,
+        subject: request.subject,
+        send_at: sendAt.toISOString(),
+        status: 'scheduled',
+        attempts: 0,
+        next_attempt_at: sendAt.toISOString(),
+        last_error: null,
+      },
+      { onConflict: 'user_id,draft_id' }
+    );
+  if (error) {
+    console.error(`Error scheduling draft ${request.draftId}:`, error);
+    throw error;
+  }
+};
+
+/** Changes the send time, which also restarts a failed message's retries. A time in the past sends it right away. */
+export const rescheduleMessage = async (userId: string, draftId: string, sendAt: Date): Promise<void> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update({
+      send_at: sendAt.toISOString(),
+      status: 'scheduled',
+      attempts: 0,
+      next_attempt_at: sendAt.toISOString(),
+      last_error: null,
+    })
+    .eq('user_id', userId)
+    .eq('draft_id', draftId)
+    .in('status', ['scheduled', 'failed'])
+    .select('id');
+  if (error) {
+    console.error(`Error rescheduling draft ${draftId}:`, error);
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This message is already being sent.');
+  }
+};
+
+/** Refreshes what the Scheduled view shows after the draft was edited. */
+export const updateScheduledMessageDetails = async (
+  userId: string,
+  draftId: string,
+  details: Pick<ScheduleRequest, 'recipients' | 'subject'>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .update({ recipients: details.recipients, subject: details.subject })
+    .eq('user_id', userId)
+    .eq('draft_id', draftId);
+  if (error) {
+    console.error(`Error updating scheduled draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+/** Takes the message out of the outbox; its draft stays in Drafts. */
+export const cancelScheduledMessage = async (userId: string, draftId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .delete()
+    .eq('user_id', userId)
+    .eq('draft_id', draftId);
+  if (error) {
+    console.error(`Error cancelling scheduled draft ${draftId}:`, error);
+    throw error;
+  }
+};
+
+// --- Undo Send ---
+// Send doesn't send right away: the message is scheduled a few seconds ahead and the
+// user can undo until then. If the tab closes during that window, the held messages are
+// sent with keepalive requests, which outlive the page. Their rows can't be updated from
+// there, so the draft ids are remembered in localStorage and reconciled on the next run.
+
+/** Draft id -> access token; the token is fetched up front because unload can't wait for it. */
+const heldMessages = new Map<string, string>();
+
+const SENT_ON_UNLOAD_KEY = 'outbox:sentOnUnload';
+/** A keepalive send may still be in flight this long after the tab closed. */
+const UNLOAD_SEND_GRACE_MS = 60_000;
+
+type SentOnUnload = Record<string, number>; // Draft id -> when the tab closed
+
+const readSentOnUnload = (): SentOnUnload => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_ON_UNLOAD_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeSentOnUnload = (entries: SentOnUnload) => {
+  if (Object.keys(entries).length === 0) {
+    localStorage.removeItem(SENT_ON_UNLOAD_KEY);
+  } else {
+    localStorage.setItem(SENT_ON_UNLOAD_KEY, JSON.stringify(entries));
+  }
+};
+
+/** Schedules a saved draft `delaySeconds` from now and announces `outboxDue` when the time is up. */
+export const holdMessage = async (userId: string, request: ScheduleRequest, delaySeconds: number): Promise<void> => {
+  const accessToken = await getGoogleAccessToken();
+  await scheduleMessage(userId, request, new Date(Date.now() + delaySeconds * 1000));
+  heldMessages.set(request.draftId, accessToken);
+  window.setTimeout(() => window.dispatchEvent(new CustomEvent('outboxDue')), delaySeconds * 1000);
+};
+
+/** Takes a held message back. False when it is too late because sending has already started. */
+export const undoHeldMessage = async (userId: string, draftId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .delete()
+    .eq('user_id', userId)
+    .eq('draft_id', draftId)
+    .eq('status', 'scheduled')
+    .select('id');
+  if (error) {
+    console.error(`Error undoing send of draft ${draftId}:`, error);
+    throw error;
+  }
+  heldMessages.delete(draftId);
+  return !!data && data.length > 0;
+};
+
+/** For `pagehide`: sends every message still held in this tab without waiting for the window to end. */
+export const sendHeldMessagesNow = (event?: Event) => {
+  // A page kept in the back/forward cache comes back with its timers, so the undo window still runs
+  if ((event as PageTransitionEvent | undefined)?.persisted) return;
+  if (heldMessages.size === 0) return;
+  const sentOnUnload = readSentOnUnload();
+  heldMessages.forEach((accessToken, draftId) => {
+    fetch(`${GMAIL_API_URL}/drafts/send`, {
+      method: 'POST',
+      keepalive: true,
+      headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: draftId }),
+    }).catch(() => {});
+    sentOnUnload[draftId] = Date.now();
+  });
+  heldMessages.clear();
+  writeSentOnUnload(sentOnUnload);
+};
+
+// A draft that is gone was sent by the keepalive request. One that is still there after
+// the grace period never made it, and is left to the normal dispatch.
+const reconcileSentOnUnload = async (userId: string): Promise<Set<string>> => {
+  const sentOnUnload = readSentOnUnload();
+  const draftIds = Object.keys(sentOnUnload);
+  const pending = new Set<string>();
+  if (draftIds.length === 0) return pending;
+
+  const { data: rows, error } = await supabase
+    .from('scheduled_messages')
+    .select('id, draft_id')
+    .eq('user_id', userId)
+    .eq('status', 'scheduled')
+    .in('draft_id', draftIds);
+  if (error) {
+    console.error('Error reconciling messages sent on unload:', error);
+    throw error;
+  }
+
+  const remaining: SentOnUnload = {};
+  for (const row of rows || []) {
+    try {
+      await googleRequest(`${GMAIL_API_URL}/drafts/${encodeURIComponent(row.draft_id)}`, { query: { format: 'minimal' } });
+      if (Date.now() - sentOnUnload[row.draft_id] < UNLOAD_SEND_GRACE_MS) {
+        remaining[row.draft_id] = sentOnUnload[row.draft_id];
+        pending.add(row.draft_id);
+      }
+    } catch (draftError) {
+      if (!(draftError instanceof GoogleNotFoundError)) throw draftError;
+      await supabase
+        .from('scheduled_messages')
+        .update({ status: 'sent', sent_at: new Date(sentOnUnload[row.draft_id]).toISOString(), last_error: null })
+        .eq('id', row.id);
+    }
+  }
+  writeSentOnUnload(remaining);
+  return pending;
+};
+
+// --- Dispatching ---
+
+// Sends that were claimed but never finished may or may not have gone out, so they are
+// not retried automatically.
+const failStaleSends = async (userId: string, now: Date): Promise<ScheduledMessage[]> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update({ status: 'failed', last_error: 'Sending was interrupted. Check Sent before trying again.' })
+    .eq('user_id', userId)
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - STALE_SENDING_MS).toISOString())
+    .select(SCHEDULED_MESSAGE_COLUMNS);
+  if (error) {
+    console.error('Error failing interrupted sends:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+const pruneSentMessages = async (userId: string, now: Date): Promise<void> => {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .delete()
+    .eq('user_id', userId)
+    .eq('status', 'sent')
+    .lt('sent_at', new Date(now.getTime() - SENT_RETENTION_MS).toISOString());
+  if (error) console.warn('Failed to prune sent scheduled messages:', error);
+};
+
+/**
+ * Sends every message whose time has come. Failed sends are retried with backoff up to
+ * MAX_ATTEMPTS times; a deleted draft fails at once. Stops (and rethrows) on an expired
+ * token, leaving the remaining messages for the next run.
+ */
+export const dispatchDueMessages = async (userId: string): Promise<DispatchResult> => {
+  const now = new Date();
+  const failed = await failStaleSends(userId, now);
+  await pruneSentMessages(userId, now);
+  const pendingUnloadSends = await reconcileSentOnUnload(userId);
+
+  const { data: due, error } = await supabase
+    .from('scheduled_messages')
+    .select(SCHEDULED_MESSAGE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'scheduled')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching due scheduled messages:', error);
+    throw error;
+  }
+
+  const sent: ScheduledMessage[] = [];
+  for (const row of due || []) {
+    if (pendingUnloadSends.has(row.draft_id)) continue;
+    const { data: claimed, error: claimError } = await supabase
+      .from('scheduled_messages')
+      .update({ status: 'sending' })
+      .eq('id', row.id)
+      .eq('status', 'scheduled')
+      .lte('next_attempt_at', now.toISOString())
+      .select('id');
+    if (claimError) {
+      console.error(`Error claiming scheduled message ${row.id}:`, claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue; // Sent by another tab, or rescheduled meanwhile
+    heldMessages.delete(row.draft_id);
+
+    const attempts = row.attempts + 1;
+    try {
+      const message = await sendDraft(row.draft_id);
+      const sentAt = new Date().toISOString();
+      sent.push({ ...row, status: 'sent', attempts, sent_at: sentAt, sent_message_id: message.id, last_error: null });
+      const { error: updateError } = await supabase
+        .from('scheduled_messages')
+        .update({ status: 'sent', attempts, sent_at: sentAt, sent_message_id: message.id, last_error: null })
+        .eq('id', row.id);
+      // The row stays in "sending" and is reported as interrupted later; better than sending twice
+      if (updateError) console.error(`Error recording sent message ${row.id}:`, updateError);
+    } catch (sendError) {
+      if (isTokenExpiredError(sendError)) {
+        // Not the message's fault; leave it for when the user has signed in again
+        await supabase.from('scheduled_messages').update({ status: 'scheduled' }).eq('id', row.id);
+        throw sendError;
+      }
+      console.error(`Error sending scheduled message ${row.id}:`, sendError);
+      const draftMissing = sendError instanceof GoogleNotFoundError;
+      const giveUp = draftMissing || attempts >= MAX_ATTEMPTS;
+      const lastError = draftMissing ? 'The draft no longer exists.' : (sendError as Error).message;
+      const nextAttemptAt = giveUp
+        ? row.next_attempt_at
+        : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString();
+      await supabase
+        .from('scheduled_messages')
+        .update({ status: giveUp ? 'failed' : 'scheduled', attempts, last_error: lastError, next_attempt_at: nextAttemptAt })
+        .eq('id', row.id);
+      if (giveUp) failed.push({ ...row, status: 'failed', attempts, last_error: lastError });
+    }
+  }
+  return { sent, failed };
+};
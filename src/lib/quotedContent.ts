@@ -0,0 +1,119 @@
+// --- Quoted Content ---
+// Finds where an email body stops being new text: the quoted earlier messages a reply
+// carries below it, and a signature right before them. Only trailing content is folded,
+// so a reply written between quoted lines is left whole. HTML bodies are read for the
+// markup mail clients wrap quotes and signatures in; plain text for "> " lines,
+// "On ... wrote:" attributions, the "-- " signature delimiter and the dividers some
+// clients put above the original message.
+
+// Quotes and signatures as elements wrapping them
+const CONTAINER_SELECTORS = [
+  'blockquote',
+  '.gmail_quote',
+  '.gmail_signature',
+  '[data-smartmail="gmail_signature"]',
+  '.yahoo_quoted',
+  '.moz-cite-prefix',
+  '.moz-signature',
+  '#Signature',
+].join(',');
+
+// Outlook puts the original message after its "From:" header block rather than inside it,
+// so everything from these on is quoted
+const DIVIDER_SELECTORS = '#divRplyFwdMsg, #appendonsend';
+const OUTLOOK_HEADER_BORDER = /border-top\s*:\s*solid\s+#(?:E1E1E1|B5C4DF)/i;
+
+const ATTRIBUTION = /^\s*(?:On|Am|Le|El|Il)\b.+\b(?:wrote|schrieb|a écrit|escribió|ha scritto)\s*:\s*$/i;
+const QUOTE_LINE = /^\s*>/;
+const ORIGINAL_DIVIDER = /^\s*(?:-{2,}\s*Original Message\s*-{2,}|_{20,})\s*$/i;
+const SIGNATURE_DIVIDER = /^\s*(?:-- ?|Sent from my \w+.*|Get Outlook for \w+.*)\s*$/i;
+// More unquoted lines than this after a signature divider are taken for part of the message
+const SIGNATURE_MAX_LINES = 8;
+
+const textLength = (text: string): number => text.replace(/\s/g, '').length;
+
+const isOutlookDivider = (element: Element): boolean =>
+  element.matches(DIVIDER_SELECTORS)
+  || (OUTLOOK_HEADER_BORDER.test(element.getAttribute('style') ?? '') && /^\s*From:/.test(element.textContent ?? ''));
+
+const topLevel = (elements: Element[]): Element[] =>
+  elements.filter(element => !elements.some(other => other !== element && other.contains(element)));
+
+// Length of the text from right after `element` up to `end` (or the end of the body)
+const trailingTextLength = (doc: Document, element: Element, end: Element | null): number => {
+  const range = doc.createRange();
+  range.setStartAfter(element);
+  if (end) range.setEndBefore(end);
+  else range.setEnd(doc.body, doc.body.childNodes.length);
+  return textLength(range.toString());
+};
+
+const hasContentBefore = (doc: Document, element: Element): boolean => {
+  const range = doc.createRange();
+  range.setStart(doc.body, 0);
+  range.setEndBefore(element);
+  return textLength(range.toString()) > 0 || !!range.cloneContents().querySelector('img');
+};
+
+const foldHtml = (html: string): string | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const divider = Array.from(doc.body.querySelectorAll('div, hr')).find(isOutlookDivider) ?? null;
+  const containers = topLevel(Array.from(doc.body.querySelectorAll(CONTAINER_SELECTORS)))
+    .filter(element => !divider || element.compareDocumentPosition(divider) & Node.DOCUMENT_POSITION_FOLLOWING);
+
+  // The first quote or signature followed by nothing but further quotes and signatures
+  const foldAt = containers.find((container, i) => {
+    const later = containers.slice(i + 1).reduce((sum, element) => sum + textLength(element.textContent ?? ''), 0);
+    return trailingTextLength(doc, container, divider) - later <= 0;
+  }) ?? divider;
+  if (!foldAt || !hasContentBefore(doc, foldAt)) return null;
+
+  const range = doc.createRange();
+  range.setStartBefore(foldAt);
+  range.setEnd(doc.body, doc.body.childNodes.length);
+  range.deleteContents();
+  return doc.documentElement.outerHTML;
+};
+
+const isAttributionAt = (lines: string[], i: number): number => {
+  if (ATTRIBUTION.test(lines[i])) return 1;
+  // Long attributions get wrapped: "On Mon, ... John Doe <\njohn@example.com> wrote:"
+  if (/^\s*(?:On|Am|Le|El|Il)\b/.test(lines[i]) && i + 1 < lines.length && ATTRIBUTION.test(`${lines[i]} ${lines[i + 1]}`)) return 2;
+  return 0;
+};
+
+// Whether a divider leads into trailing content only: the original message's header block,
+// or a short signature with at most quoted lines after it
+const isTrailingDivider = (lines: string[], i: number): boolean => {
+  const rest = lines.slice(i + 1);
+  if (ORIGINAL_DIVIDER.test(lines[i])) return /^\s*From:/i.test(rest.find(line => line.trim()) ?? '');
+  if (!SIGNATURE_DIVIDER.test(lines[i])) return false;
+  return rest.filter(line => line.trim() && !QUOTE_LINE.test(line)).length <= SIGNATURE_MAX_LINES;
+};
+
+const foldPlainText = (text: string): string | null => {
+  const lines = text.split(/\r?\n/);
+  const dividerIndex = lines.findIndex((_, i) => isTrailingDivider(lines, i));
+  const end = dividerIndex === -1 ? lines.length : dividerIndex;
+
+  let foldAt = end;
+  for (let i = 0; i < end; i++) {
+    const attributionLines = isAttributionAt(lines, i);
+    if (!attributionLines && !QUOTE_LINE.test(lines[i])) continue;
+    if (lines.slice(i + attributionLines, end).every(line => !line.trim() || QUOTE_LINE.test(line))) {
+      foldAt = i;
+      break;
+    }
+  }
+  if (foldAt === lines.length) return null;
+
+  const kept = lines.slice(0, foldAt).join('\n').trimEnd();
+  return kept.trim() ? kept : null;
+};
+
+/**
+ * The body without its trailing quoted text and signature, or null when there is
+ * nothing to fold (or folding would leave nothing).
+ */
+export const foldQuotedContent = (content: string, isPlainText: boolean): string | null =>
+  isPlainText ? foldPlainText(content) : foldHtml(content);
@@ -0,0 +1,161 @@
+import DOMPurify from 'dompurify';
+import { contentIdFromCidUrl } from './gmailAttachments';
+import { supabase } from './supabaseClient';
+
+// --- Remote Content ---
+// Email HTML is sanitized and then stripped of everything it would load from the web
+// (images, srcset candidates, CSS backgrounds) unless the user allowed remote content for
+// the message or its sender. Tracking pixels are removed either way. What was allowed is
+// kept in remote_content_allowlist.
+
+export type RemoteContentScope = 'message' | 'sender';
+
+export interface RemoteContentAllowlist {
+  messageIds: Set<string>;
+  /** Lowercased sender addresses. */
+  senders: Set<string>;
+}
+
+export interface PreparedEmailHtml {
+  /** Style elements from the email's head, kept since the body is rendered in its own document. */
+  styles: string;
+  body: string;
+  /** Remote images and backgrounds that were held back. */
+  blockedCount: number;
+  /** Tracking pixels that were removed. */
+  trackerCount: number;
+}
+
+export const EMPTY_ALLOWLIST: RemoteContentAllowlist = { messageIds: new Set(), senders: new Set() };
+
+const REMOTE_URL = /^\s*(?:https?:)?\/\//i;
+const CSS_REMOTE_URL = /url\(\s*(['"]?)\s*(?:https?:)?\/\/[^)]*\1\s*\)/gi;
+
+// Open-tracking endpoints of common mailing services, and the URL shapes they share
+const TRACKER_PATTERNS = [
+  /list-manage\.com\/track\/open/i,
+  /sendgrid\.net\/wf\/open/i,
+  /mandrillapp\.com\/track\/open/i,
+  /mailtrack\.io\/trace/i,
+  /mixmax\.com\/api\/track/i,
+  /t\.yesware\.com\//i,
+  /t\.sidekickopen\d*\.com\//i,
+  /track\.hubspot\.com\/__ptq/i,
+  /\/(?:track\/open|open\.php|wf\/open|e\/o|o\/[\w-]{16,})(?:[/?]|$)/i,
+  /\/(?:pixel|beacon|open)\.(?:gif|png)(?:\?|$)/i,
+];
+
+const isTinySize = (value: string | null): boolean => value !== null && /^\s*[01](?:px)?\s*$/i.test(value);
+
+const isTrackingPixel = (img: Element, src: string): boolean => {
+  if (TRACKER_PATTERNS.some(pattern => pattern.test(src))) return true;
+  const style = img.getAttribute('style') ?? '';
+  const styleWidth = style.match(/(?:^|;)\s*width\s*:\s*([^;]+)/i)?.[1] ?? null;
+  const styleHeight = style.match(/(?:^|;)\s*height\s*:\s*([^;]+)/i)?.[1] ?? null;
+  const tiny = (isTinySize(img.getAttribute('width')) || isTinySize(styleWidth))
+    && (isTinySize(img.getAttribute('height')) || isTinySize(styleHeight));
+  return tiny || /display\s*:\s*none/i.test(style);
+};
+
+/**
+ * Sanitizes an email's HTML for display: inline images point at the object URLs fetched
+ * for them, links open in a new tab, tracking pixels are removed and, unless
+ * `allowRemote` is set, so is everything else that would load from the web.
+ */
+export const prepareEmailHtml = (
+  html: string,
+  { cidUrls = {}, allowRemote }: { cidUrls?: Record<string, string>; allowRemote: boolean }
+): PreparedEmailHtml => {
+  const sanitized = DOMPurify.sanitize(html, { WHOLE_DOCUMENT: true, FORBID_TAGS: ['form', 'input', 'button', 'textarea', 'select'] });
+  const doc = new DOMParser().parseFromString(sanitized, 'text/html');
+  let blockedCount = 0;
+  let trackerCount = 0;
+
+  // After sanitizing, so only our own URLs are inserted
+  doc.querySelectorAll('img[src^="cid:" i]').forEach(img => {
+    const contentId = contentIdFromCidUrl(img.getAttribute('src')!);
+    if (cidUrls[contentId]) img.setAttribute('src', cidUrls[contentId]);
+  });
+
+  doc.querySelectorAll('img').forEach(img => {
+    const src = img.getAttribute('src') ?? '';
+    if (!REMOTE_URL.test(src) && !REMOTE_URL.test(img.getAttribute('srcset') ?? '')) return;
+    if (isTrackingPixel(img, src)) {
+      img.remove();
+      trackerCount++;
+    } else if (!allowRemote) {
+      img.removeAttribute('src');
+      img.removeAttribute('srcset');
+      // Keeps the layout readable: the alt text shows where the image was
+      if (!img.getAttribute('alt')) img.setAttribute('alt', '');
+      blockedCount++;
+    }
+  });
+
+  doc.querySelectorAll('a[href]').forEach(link => {
+    link.setAttribute('target', '_blank');
+    link.setAttribute('rel', 'noopener noreferrer');
+  });
+
+  if (!allowRemote) {
+    doc.querySelectorAll('picture source[srcset]').forEach(source => source.remove());
+    doc.querySelectorAll('[background]').forEach(element => {
+      if (REMOTE_URL.test(element.getAttribute('background') ?? '')) {
+        element.removeAttribute('background');
+        blockedCount++;
+      }
+    });
+    doc.querySelectorAll('[style]').forEach(element => {
+      const style = element.getAttribute('style') ?? '';
+      const cleaned = style.replace(CSS_REMOTE_URL, () => {
+        blockedCount++;
+        return 'none';
+      });
+      if (cleaned !== style) element.setAttribute('style', cleaned);
+    });
+    doc.querySelectorAll('style').forEach(style => {
+      style.textContent = (style.textContent ?? '').replace(CSS_REMOTE_URL, 'none').replace(/@import[^;]+;/gi, '');
+    });
+  }
+
+  return {
+    styles: Array.from(doc.head.querySelectorAll('style'), style => style.outerHTML).join(''),
+    body: doc.body.innerHTML,
+    blockedCount,
+    trackerCount,
+  };
+};
+
+// --- Allowlist ---
+
+export const fetchRemoteContentAllowlist = async (userId: string): Promise<RemoteContentAllowlist> => {
+  const { data, error } = await supabase
+    .from('remote_content_allowlist')
+    .select('scope, value')
+    .eq('user_id', userId);
+  if (error) {
+    console.error('Error fetching remote content allowlist:', error);
+    throw error;
+  }
+  const allowlist: RemoteContentAllowlist = { messageIds: new Set(), senders: new Set() };
+  (data || []).forEach(row => (row.scope === 'sender' ? allowlist.senders : allowlist.messageIds).add(row.value));
+  return allowlist;
+};
+
+/** Shows remote content from now on for one message, or for everything from a sender. */
+export const allowRemoteContent = async (userId: string, scope: RemoteContentScope, value: string): Promise<void> => {
+  const normalized = scope === 'sender' ? value.toLowerCase() : value;
+  const { error } = await supabase
+    .from('remote_content_allowlist')
+    .upsert({ user_id: userId, scope, value: normalized }, { onConflict: 'user_id,scope,value' });
+  if (error) {
+    console.error(`Error allowing remote content for ${scope} ${value}:`, error);
+    throw error;
+  }
+};
+
+export const isRemoteContentAllowed = (
+  allowlist: RemoteContentAllowlist,
+  messageId: string,
+  senderAddress: string
+): boolean => allowlist.messageIds.has(messageId) || (!!senderAddress && allowlist.senders.has(senderAddress.toLowerCase()));
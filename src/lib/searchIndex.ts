@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import { getCards } from './cardApi';
+import { parseSender } from './emailHelpers';
+import { fetchCalendarEvents } from './googleCalendarClient';
+import { isMailStoreSupported, queryStoredMessages } from './mailStore';
+import { fetchTags, getHeaderValue } from './supabaseClient';
+import { fetchTimelineCardsWithTags } from './timelineClient';
+
+// --- Search Index ---
+// A flat, in-memory list of what the command palette can jump to: recent threads from the
+// local mail store, calendar events around today, dashboard cards, timeline cards and
+// tags. It is built on demand and reused for a few minutes; each source that fails to
+// load is left out rather than failing the whole index.
+
+export type SearchItemKind = 'email' | 'event' | 'card' | 'timeline' | 'tag' | 'command';
+
+export interface SearchItem {
+  id: string;
+  kind: SearchItemKind;
+  title: string;
+  subtitle: string;
+  /** Where selecting the item navigates to. */
+  href: string;
+  color?: string;
+}
+
+const EMAIL_INDEX_LIMIT = 2000;
+const EVENT_DAYS_BEFORE = 30;
+const EVENT_DAYS_AFTER = 180;
+const INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cachedIndex: { userId: string; builtAt: number; items: Promise<SearchItem[]> } | null = null;
+
+// One entry per thread, from its newest stored message
+const indexEmails = async (userId: string): Promise<SearchItem[]> => {
+  if (!isMailStoreSupported()) return [];
+  const { messages } = await queryStoredMessages(userId, { limit: EMAIL_INDEX_LIMIT });
+  const byThread = new Map<string, SearchItem>();
+  messages.forEach(message => {
+    if (byThread.has(message.threadId) || message.labelIds?.includes('DRAFT')) return;
+    const headers = message.payload?.headers || [];
+    const { name, address } = parseSender(getHeaderValue(headers, 'From'));
+    byThread.set(message.threadId, {
+      id: `email:${message.threadId}`,
+      kind: 'email',
+      title: getHeaderValue(headers, 'Subject') || '(No subject)',
+      subtitle: name && name !== address ? `${name} <${address}>` : address,
+      href: `/emails/thread/${encodeURIComponent(message.threadId)}`,
+    });
+  });
+  return Array.from(byThread.values());
+};
+
+const indexEvents = async (userId: string): Promise<SearchItem[]> => {
+  const now = Date.now();
+  const events = await fetchCalendarEvents(
+    userId,
+    'primary',
+    new Date(now - EVENT_DAYS_BEFORE * DAY_MS).toISOString(),
+    new Date(now + EVENT_DAYS_AFTER * DAY_MS).toISOString()
+  );
+  return events.map(event => {
+    const { dateTime, date } = event.start ?? {};
+    return {
+      id: `event:${event.id}`,
+      kind: 'event',
+      title: event.summary || '(No title)',
+      subtitle: dateTime ? format(new Date(dateTime), 'EEE, MMM d · p') : date ? format(new Date(`${date}T00:00:00`), 'EEE, MMM d') : '',
+      href: '/calendar',
+    };
+  });
+};
+
+const indexCards = async (): Promise<SearchItem[]> =>
+  (await getCards()).map(card => ({
+    id: `card:${card.id}`,
+    kind: 'card',
+    title: card.title,
+    subtitle: card.content.slice(0, 80),
+    href: '/',
+  }));
+
+const indexTimelineCards = async (userId: string): Promise<SearchItem[]> =>
+  (await fetchTimelineCardsWithTags(userId)).map(card => ({
+    id: `timeline:${card.id}`,
+    kind: 'timeline',
+    title: card.title,
+    subtitle: format(new Date(`${card.start_date}T00:00:00`), 'MMM d, yyyy'),
+    href: '/timeline',
+  }));
+
+const indexTags = async (userId: string): Promise<SearchItem[]> => {
+  const [pins, priorities] = await Promise.all([fetchTags(userId, 'pin'), fetchTags(userId, 'priority')]);
+  return [...pins, ...priorities].map(tag => ({
+    id: `tag:${tag.id}`,
+    kind: 'tag',
+    title: tag.name,
+    subtitle: tag.type === 'pin' ? 'Pin' : 'Priority',
+    // Same link as the tag's entry in the sidebar
+    href: `/emails?${tag.type}=${encodeURIComponent(tag.name.toLowerCase())}`,
+    color: tag.color,
+  }));
+};
+
+const buildSearchIndex = async (userId: string): Promise<SearchItem[]> => {
+  const sources: [string, Promise<SearchItem[]>][] = [
+    ['emails', indexEmails(userId)],
+    ['calendar events', indexEvents(userId)],
+    ['cards', indexCards()],
+    ['timeline cards', indexTimelineCards(userId)],
+    ['tags', indexTags(userId)],
+  ];
+  const results = await Promise.all(sources.map(([name, items]) =>
+    items.catch(err => {
+      console.warn(`Failed to index ${name} for search:`, err);
+      return [];
+    })
+  ));
+  return results.flat();
+};
+
+/** The search index for the user, rebuilt when it is older than a few minutes or `refresh` is set. */
+export const getSearchIndex = (userId: string, { refresh = false }: { refresh?: boolean } = {}): Promise<SearchItem[]> => {
+  if (!refresh && cachedIndex?.userId === userId && Date.now() - cachedIndex.builtAt < INDEX_MAX_AGE_MS) {
+    return cachedIndex.items;
+  }
+  cachedIndex = { userId, builtAt: Date.now(), items: buildSearchIndex(userId) };
+  return cachedIndex.items;
+};
+
+// --- Ranking ---
+// Every word of the query has to match the title or subtitle: as a prefix, a word start,
+// anywhere, or at least as a subsequence of letters in order. Better kinds of match, and
+// matches in the title, score higher.
+
+const SUBTITLE_WEIGHT = 0.5;
+
+// Letters of the term in order, rewarding runs of consecutive letters
+const subsequenceScore = (text: string, term: string): number => {
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of term) {
+    const found = text.indexOf(char, position);
+    if (found === -1) return 0;
+    run = found === position ? run + 1 : 1;
+    score += run;
+    position = found + 1;
+  }
+  return Math.min(30, (score / term.length) * 5);
+};
+
+const termScore = (text: string, term: string): number => {
+  if (!text) return 0;
+  if (text.startsWith(term)) return 100;
+  const index = text.indexOf(term);
+  if (index > 0 && /[\s\-_.@<(/]/.test(text[index - 1])) return 80;
+  if (index > 0) return 60 - Math.min(20, index / 4);
+  return term.length >= 2 ? subsequenceScore(text, term) : 0;
+};
+
+/** The items matching the query, best first; with an empty query, the first `limit` items. */
+export const rankSearchItems = (items: SearchItem[], query: string, limit: number): SearchItem[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return items.slice(0, limit);
+
+  const scored: { item: SearchItem; score: number }[] = [];
+  items.forEach(item => {
+    const title = item.title.toLowerCase();
+    const subtitle = item.subtitle.toLowerCase();
+    let score = 0;
+    for (const term of terms) {
+      const best = Math.max(termScore(title, term), termScore(subtitle, term) * SUBTITLE_WEIGHT);
+      if (best === 0) return;
+      score += best;
+    }
+    if (title === query.trim().toLowerCase()) score += 50;
+    scored.push({ item, score });
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit).map(({ item }) => item);
+};
@@ -0,0 +1,124 @@
+import { supabase } from './supabaseClient';
+import { GMAIL_API_URL, googleRequest } from './googleApiClient';
+import { htmlToPlainText, MessageSignature } from './mimeBuilder';
+
+// --- Email Signatures ---
+// Signatures are stored as plain text, with an HTML version only when they have
+// formatting (so far only ones imported from Gmail). Which one is filled in by
+// default lives in user_settings.
+
+export interface EmailSignature {
+  id: string;
+  name: string;
+  text_body: string;
+  html_body: string | null;
+  updated_at: string;
+}
+
+export type EmailSignatureInput = Pick<EmailSignature, 'name' | 'text_body' | 'html_body'>;
+
+const SIGNATURE_COLUMNS = 'id, name, text_body, html_body, updated_at';
+
+export const toMessageSignature = (signature: EmailSignature): MessageSignature => ({
+  text: signature.text_body,
+  html: signature.html_body,
+});
+
+/** The stored signature a message's signature came from, if it hasn't been edited since. */
+export const findMatchingSignature = (
+  signatures: EmailSignature[],
+  signature: MessageSignature
+): EmailSignature | undefined =>
+  signatures.find(s => s.text_body === signature.text && s.html_body === signature.html);
+
+// --- CRUD ---
+
+export const fetchEmailSignatures = async (userId: string): Promise<EmailSignature[]> => {
+  const { data, error } = await supabase
+    .from('email_signatures')
+    .select(SIGNATURE_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('Error fetching email signatures:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const createEmailSignature = async (userId: string, input: EmailSignatureInput): Promise<EmailSignature> => {
+  const { data, error } = await supabase
+    .from('email_signatures')
+    .insert({ user_id: userId, ...input })
+    .select(SIGNATURE_COLUMNS)
+    .single();
+  if (error) {
+    console.error('Error creating email signature:', error);
+    throw error;
+  }
+  return data;
+};
+
+export const updateEmailSignature = async (signatureId: string, input: EmailSignatureInput): Promise<EmailSignature> => {
+  const { data, error } = await supabase
+    .from('email_signatures')
+    .update(input)
+    .eq('id', signatureId)
+    .select(SIGNATURE_COLUMNS)
+    .single();
+  if (error) {
+    console.error(`Error updating email signature ${signatureId}:`, error);
+    throw error;
+  }
+  return data;
+};
+
+export const deleteEmailSignature = async (signatureId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('email_signatures')
+    .delete()
+    .eq('id', signatureId);
+  if (error) {
+    console.error(`Error deleting email signature ${signatureId}:`, error);
+    throw error;
+  }
+};
+
+// --- Import from Gmail ---
+
+interface GmailSendAs {
+  sendAsEmail: string;
+  displayName?: string;
+  isPrimary?: boolean;
+  signature?: string;
+}
+
+/**
+ * Copies the signatures set up in Gmail (one per send-as address) into the user's
+ * signatures. Ones that were imported before and haven't changed are skipped.
+ */
+export const importGmailSignatures = async (userId: string): Promise<EmailSignature[]> => {
+  try {
+    const [{ sendAs = [] }, existing] = await Promise.all([
+      googleRequest<{ sendAs?: GmailSendAs[] }>(`${GMAIL_API_URL}/settings/sendAs`),
+      fetchEmailSignatures(userId),
+    ]);
+    const toImport = sendAs.filter(alias =>
+      alias.signature?.trim() && !existing.some(s => s.html_body === alias.signature)
+    );
+
+    const imported: EmailSignature[] = [];
+    for (const alias of toImport) {
+      const html = alias.signature as string;
+      imported.push(await createEmailSignature(userId, {
+        name: alias.isPrimary ? 'Gmail signature' : `Gmail signature (${alias.sendAsEmail})`,
+        text_body: htmlToPlainText(html),
+        html_body: html,
+      }));
+    }
+    return imported;
+  } catch (error) {
+    console.error('Error importing Gmail signatures:', error);
+    throw error;
+  }
+};
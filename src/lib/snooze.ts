@@ -0,0 +1,169 @@
+import { GoogleNotFoundError } from './googleApiClient';
+import { modifyThreadLabels, supabase } from './supabaseClient';
+
+// --- Snooze ---
+// Snoozing takes a thread out of the inbox (removes INBOX) and records it in
+// snoozed_threads. When the time comes, resurfaceDueSnoozes puts INBOX and UNREAD
+// back and marks the row as resurfaced; the list pins resurfaced threads to the top
+// until they are opened (dismissResurfacedThread) or snoozed again.
+
+export interface SnoozedThread {
+  id: string;
+  thread_id: string;
+  snooze_until: string;
+  resurfaced_at: string | null;
+}
+
+export interface SnoozePreset {
+  label: string;
+  until: Date;
+}
+
+const MORNING_HOUR = 8;
+const EVENING_HOUR = 18;
+
+const atHour = (base: Date, daysAhead: number, hour: number): Date =>
+  new Date(base.getFullYear(), base.getMonth(), base.getDate() + daysAhead, hour, 0, 0, 0);
+
+/** Gmail-style presets; "Later today" and "This weekend" only when they are still ahead. */
+export const getSnoozePresets = (now: Date = new Date()): SnoozePreset[] => {
+  const presets: SnoozePreset[] = [];
+  const day = now.getDay(); // 0 = Sunday
+  if (now.getHours() < EVENING_HOUR - 1) {
+    presets.push({ label: 'Later today', until: atHour(now, 0, EVENING_HOUR) });
+  }
+  presets.push({ label: 'Tomorrow', until: atHour(now, 1, MORNING_HOUR) });
+  if (day >= 1 && day <= 5) {
+    presets.push({ label: 'This weekend', until: atHour(now, 6 - day, MORNING_HOUR) });
+  }
+  presets.push({ label: 'Next week', until: atHour(now, ((8 - day) % 7) || 7, MORNING_HOUR) });
+  return presets;
+};
+
+export const formatSnoozeTime = (date: Date): string =>
+  date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// --- Reading ---
+
+export const fetchSnoozedThreads = async (userId: string): Promise<SnoozedThread[]> => {
+  const { data, error } = await supabase
+    .from('snoozed_threads')
+    .select('id, thread_id, snooze_until, resurfaced_at')
+    .eq('user_id', userId)
+    .order('snooze_until', { ascending: true });
+  if (error) {
+    console.error('Error fetching snoozed threads:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const fetchThreadSnooze = async (userId: string, threadId: string): Promise<SnoozedThread | null> => {
+  const { data, error } = await supabase
+    .from('snoozed_threads')
+    .select('id, thread_id, snooze_until, resurfaced_at')
+    .eq('user_id', userId)
+    .eq('thread_id', threadId)
+    .maybeSingle();
+  if (error) {
+    console.error(`Error fetching snooze of thread ${threadId}:`, error);
+    throw error;
+  }
+  return data;
+};
+
+// --- Snoozing ---
+
+export const snoozeThread = async (userId: string, threadId: string, until: Date): Promise<void> => {
+  if (until.getTime() <= Date.now()) {
+    throw new Error('Snooze time must be in the future.');
+  }
+  const { error } = await supabase
+    .from('snoozed_threads')
+    .upsert(
+      { user_id: userId, thread_id: threadId, snooze_until: until.toISOString(), resurfaced_at: null },
+      { onConflict: 'user_id,thread_id' }
+    );
+  if (error) {
+    console.error(`Error snoozing thread ${threadId}:`, error);
+    throw error;
+  }
+
+  try {
+    await modifyThreadLabels(threadId, { removeLabelIds: ['INBOX'] });
+  } catch (gmailError) {
+    // Without the label change the snooze would resurface a thread that never left
+    await supabase.from('snoozed_threads').delete().eq('user_id', userId).eq('thread_id', threadId);
+    throw gmailError;
+  }
+};
+
+/** Ends a snooze early: the thread goes back to the inbox as it was (not marked unread). */
+export const unsnoozeThread = async (userId: string, threadId: string): Promise<void> => {
+  await modifyThreadLabels(threadId, { addLabelIds: ['INBOX'] });
+  await dismissResurfacedThread(userId, threadId);
+};
+
+/** Forgets the thread's snooze row, e.g. once a resurfaced thread has been opened. */
+export const dismissResurfacedThread = async (userId: string, threadId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('snoozed_threads')
+    .delete()
+    .eq('user_id', userId)
+    .eq('thread_id', threadId);
+  if (error) {
+    console.error(`Error clearing snooze of thread ${threadId}:`, error);
+    throw error;
+  }
+};
+
+// --- Resurfacing ---
+
+/**
+ * Brings back every thread whose snooze has expired. Each row is claimed before Gmail
+ * is touched, so two open tabs never resurface the same thread twice. Returns how
+ * many threads came back.
+ */
+export const resurfaceDueSnoozes = async (userId: string): Promise<number> => {
+  const now = new Date().toISOString();
+  const { data: due, error } = await supabase
+    .from('snoozed_threads')
+    .select('id, thread_id')
+    .eq('user_id', userId)
+    .is('resurfaced_at', null)
+    .lte('snooze_until', now);
+  if (error) {
+    console.error('Error fetching due snoozes:', error);
+    throw error;
+  }
+
+  let resurfaced = 0;
+  for (const row of due || []) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('snoozed_threads')
+      .update({ resurfaced_at: now })
+      .eq('id', row.id)
+      .is('resurfaced_at', null)
+      .select('id');
+    if (claimError) {
+      console.error(`Error claiming snooze ${row.id}:`, claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue; // Another tab got there first
+
+    try {
+      await modifyThreadLabels(row.thread_id, { addLabelIds: ['INBOX', 'UNREAD'] });
+      resurfaced++;
+    } catch (gmailError) {
+      if (gmailError instanceof GoogleNotFoundError) {
+        // The thread was deleted while snoozed
+        await supabase.from('snoozed_threads').delete().eq('id', row.id);
+      } else {
+        console.error(`Error resurfacing thread ${row.thread_id}:`, gmailError);
+        // Let the next run try again
+        await supabase.from('snoozed_threads').update({ resurfaced_at: null }).eq('id', row.id);
+      }
+    }
+  }
+  return resurfaced;
+};
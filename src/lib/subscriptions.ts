@@ -0,0 +1,199 @@
+import {
+  batchModifyMessages,
+  BulkActionOptions,
+  getHeaderValue,
+  listAllMessageIds,
+  sendNewGmailMessage,
+  supabase,
+} from './supabaseClient';
+import { parseSender } from './emailHelpers';
+import { applyLocalLabelChange, getMessageDetails } from './mailSync';
+
+// --- Subscriptions ---
+// Senders whose mail carries a List-Unsubscribe header (RFC 2369), grouped from the most
+// recent mail. Unsubscribing prefers the RFC 8058 one-click POST, then a mailto: link sent
+// through Gmail; a plain web link can only be opened for the user. What was unsubscribed
+// is kept in email_unsubscribes so the list can show it.
+
+export type UnsubscribeMethod = 'one_click' | 'mailto' | 'website';
+
+export interface UnsubscribeMethods {
+  /** https URL that accepts the RFC 8058 one-click POST. */
+  oneClickUrl?: string;
+  mailto?: string;
+  /** Page on the sender's website, for senders that offer nothing else. */
+  url?: string;
+}
+
+export interface Subscription {
+  /** Lowercased sender address; what messages are grouped and unsubscribes recorded by. */
+  address: string;
+  name: string;
+  messageCount: number;
+  lastSeen: Date;
+  methods: UnsubscribeMethods;
+  unsubscribedAt: Date | null;
+}
+
+// How much recent mail is looked through for list senders
+export const SUBSCRIPTION_SCAN_LIMIT = 1000;
+const SCAN_QUERY = '-in:sent -in:drafts';
+const FETCH_CHUNK_SIZE = 100;
+
+/**
+ * Reads the List-Unsubscribe header (a comma-separated list of <URI>s) and, with it,
+ * List-Unsubscribe-Post, which marks the https URI as accepting a one-click POST.
+ */
+export const parseListUnsubscribe = (header: string, postHeader: string): UnsubscribeMethods => {
+  const methods: UnsubscribeMethods = {};
+  const oneClick = /List-Unsubscribe=One-Click/i.test(postHeader);
+  for (const [, uri] of header.matchAll(/<([^>]+)>/g)) {
+    const value = uri.trim();
+    if (/^mailto:/i.test(value)) {
+      methods.mailto ??= value;
+    } else if (/^https:\/\//i.test(value)) {
+      if (oneClick) methods.oneClickUrl ??= value;
+      methods.url ??= value;
+    } else if (/^http:\/\//i.test(value)) {
+      methods.url ??= value;
+    }
+  }
+  return methods;
+};
+
+export const hasUnsubscribeMethod = (methods: UnsubscribeMethods): boolean =>
+  !!(methods.oneClickUrl || methods.mailto || methods.url);
+
+const fetchUnsubscribes = async (userId: string): Promise<Map<string, Date>> => {
+  const { data, error } = await supabase
+    .from('email_unsubscribes')
+    .select('sender_address, unsubscribed_at')
+    .eq('user_id', userId);
+  if (error) {
+    console.error('Error fetching unsubscribed senders:', error);
+    throw error;
+  }
+  return new Map((data || []).map(row => [row.sender_address, new Date(row.unsubscribed_at)]));
+};
+
+const recordUnsubscribe = async (userId: string, address: string, method: UnsubscribeMethod): Promise<Date> => {
+  const unsubscribedAt = new Date();
+  const { error } = await supabase
+    .from('email_unsubscribes')
+    .upsert(
+      { user_id: userId, sender_address: address, method, unsubscribed_at: unsubscribedAt.toISOString() },
+      { onConflict: 'user_id,sender_address' }
+    );
+  if (error) {
+    console.error(`Error recording unsubscribe from ${address}:`, error);
+    throw error;
+  }
+  return unsubscribedAt;
+};
+
+/**
+ * Groups recent mail by sender, keeping senders that offer a way to unsubscribe.
+ * The methods come from each sender's newest message. Sorted by most recently seen.
+ */
+export const findSubscriptions = async (
+  userId: string,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<Subscription[]> => {
+  try {
+    const [{ ids }, unsubscribes] = await Promise.all([
+      listAllMessageIds({ q: SCAN_QUERY }, { signal, limit: SUBSCRIPTION_SCAN_LIMIT }),
+      fetchUnsubscribes(userId),
+    ]);
+    const byAddress = new Map<string, Subscription>();
+    for (let i = 0; i < ids.length; i += FETCH_CHUNK_SIZE) {
+      const messages = await getMessageDetails(userId, ids.slice(i, i + FETCH_CHUNK_SIZE), signal);
+      for (const message of messages) {
+        const headers = message.payload?.headers || [];
+        const methods = parseListUnsubscribe(
+          getHeaderValue(headers, 'List-Unsubscribe'),
+          getHeaderValue(headers, 'List-Unsubscribe-Post')
+        );
+        const { name, address } = parseSender(getHeaderValue(headers, 'From'));
+        if (!address || !hasUnsubscribeMethod(methods)) continue;
+
+        const key = address.toLowerCase();
+        const seen = new Date(Number(message.internalDate || 0));
+        const existing = byAddress.get(key);
+        if (existing) {
+          existing.messageCount++;
+          if (seen > existing.lastSeen) Object.assign(existing, { name, lastSeen: seen, methods });
+        } else {
+          byAddress.set(key, {
+            address: key,
+            name,
+            messageCount: 1,
+            lastSeen: seen,
+            methods,
+            unsubscribedAt: unsubscribes.get(key) ?? null,
+          });
+        }
+      }
+      onProgress?.(Math.min(i + FETCH_CHUNK_SIZE, ids.length), ids.length);
+    }
+    return Array.from(byAddress.values()).sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+  } catch (error) {
+    console.error('Error looking for subscriptions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Unsubscribes through one-click or mailto and records it. Returns when it happened.
+ * Senders with only a web link have to be handled on their page; see recordWebsiteUnsubscribe.
+ */
+export const unsubscribe = async (userId: string, subscription: Subscription): Promise<Date> => {
+  const { oneClickUrl, mailto } = subscription.methods;
+  try {
+    if (oneClickUrl) {
+      // List servers don't send CORS headers, so the response can't be read; a form POST
+      // is a simple request, though, and goes out all the same.
+      await fetch(oneClickUrl, {
+        method: 'POST',
+        mode: 'no-cors',
+        body: new URLSearchParams({ 'List-Unsubscribe': 'One-Click' }),
+      });
+      return await recordUnsubscribe(userId, subscription.address, 'one_click');
+    }
+    if (mailto) {
+      const url = new URL(mailto);
+      await sendNewGmailMessage({
+        to: decodeURIComponent(url.pathname),
+        subject: url.searchParams.get('subject') || 'unsubscribe',
+        text: url.searchParams.get('body') || 'unsubscribe',
+      });
+      return await recordUnsubscribe(userId, subscription.address, 'mailto');
+    }
+    throw new Error(`${subscription.address} can only be unsubscribed from on their website.`);
+  } catch (error) {
+    console.error(`Error unsubscribing from ${subscription.address}:`, error);
+    throw error;
+  }
+};
+
+/** Marks a sender as unsubscribed after the user was sent to its unsubscribe page. */
+export const recordWebsiteUnsubscribe = (userId: string, address: string): Promise<Date> =>
+  recordUnsubscribe(userId, address, 'website');
+
+/** Moves everything from the sender out of the inbox; returns how many messages were archived. */
+export const archiveSenderMail = async (
+  userId: string,
+  address: string,
+  options: BulkActionOptions = {}
+): Promise<number> => {
+  try {
+    const { ids } = await listAllMessageIds({ q: `from:(${address}) in:inbox` }, { signal: options.signal });
+    if (ids.length === 0) return 0;
+    const change = { removeLabelIds: ['INBOX'] };
+    await batchModifyMessages(ids, change, options);
+    await applyLocalLabelChange(userId, ids, [], change.removeLabelIds);
+    return ids.length;
+  } catch (error) {
+    console.error(`Error archiving mail from ${address}:`, error);
+    throw error;
+  }
+};
@@ -1,4 +1,25 @@
 import { createClient } from '@supabase/supabase-js';
+import {
+  BatchOptions,
+  buildGoogleUrl,
+  GMAIL_API_PATH,
+  GMAIL_API_URL,
+  GMAIL_UPLOAD_URL,
+  GoogleApiError,
+  googleBatch,
+  googleRequest,
+  googleResumableUpload,
+  isFatalGoogleError,
+} from './googleApiClient';
+import {
+  buildMimeMessage,
+  encodeRawMessage,
+  formatDisplayAddress,
+  htmlToPlainText,
+  MailAddress,
+  MimeMessage,
+  parseAddressList,
+} from './mimeBuilder';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_KEY;
@@ -13,57 +34,20 @@ if (!supabaseKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
-// --- Helper Function to get Access Token ---
-const getGmailAccessToken = async (): Promise<string | null> => {
-  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-  if (sessionError) {
-    console.error('Error getting Supabase session:', sessionError);
-    return null;
-  }
-  console.log('Supabase session in getGmailAccessToken:', session);
-  if (!session?.provider_token) {
-    console.error('No provider_token found in session. User might need to re-authenticate with Gmail scope.');
-    throw new Error('Google API token expired'); // Throw the specific error message
-  }
-  // Log the provider token (Google Access Token) - be cautious with logging full tokens in production
-  console.log('Google Provider Token:', session.provider_token);
-  // Log the Supabase Access Token (JWT) - we can potentially inspect this, but it's not the Google token
-  console.log('Supabase Access Token:', session.access_token);
-  // Log the scopes associated with the Supabase session (if available)
-  return session.provider_token;
-};
+// All Gmail calls below go through googleRequest (see googleApiClient.ts), which
+// attaches the provider token, retries 429/5xx and throws typed GoogleApiErrors.
 
 // --- Function to Mark an Email as Starred/Unstarred ---
 export const markEmailStarred = async (userId: string, messageId: string, starred: boolean): Promise<boolean> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
-
-  const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${encodeURIComponent(messageId)}/modify`;
-
   try {
-    const response = await fetch(url, {
+    await googleRequest(`${GMAIL_API_URL}/messages/${encodeURIComponent(messageId)}/modify`, {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+      body: {
         addLabelIds: starred ? ['STARRED'] : [],
         removeLabelIds: starred ? [] : ['STARRED']
-      }),
+      },
     });
 
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-      console.error(`Failed to mark message ${messageId} as starred: ${response.status}`, errorBody);
-      return false;
-    }
-
     // Update Supabase to reflect the change
     const supabaseUpdateSuccess = await updateSupabaseEmail(userId, messageId, { is_starred: starred });
     if (!supabaseUpdateSuccess) {
@@ -93,51 +77,20 @@ interface FetchEmailMetadataResult {
 
 export const fetchEmailMetadataPage = async (
   pageToken?: string | null,
-  maxResults: number = 20
+  maxResults: number = 20,
+  signal?: AbortSignal
 ): Promise<FetchEmailMetadataResult> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
-
-  let url = `https://gmail.googleapis.com/gmail/v1/users/me/messages?maxResults=${maxResults}`;
-  if (pageToken) {
-    url += `&pageToken=${pageToken}`;
-  }
-
   try {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.text();
-      console.error('Failed to fetch email metadata. Status:', response.status, 'Body:', errorBody);
-      // Attempt to parse error for more details
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson?.error?.message) {
-          throw new Error(`Failed to fetch email metadata: ${errorJson.error.message} (Status: ${response.status})`);
-        }
-      } catch (parseError) {
-        // Ignore if parsing fails, use the original status
-      }
-      throw new Error(`Failed to fetch email metadata: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const data = await googleRequest<{ messages?: GmailMessageMetadata[]; nextPageToken?: string }>(
+      `${GMAIL_API_URL}/messages`,
+      { query: { maxResults, pageToken }, signal }
+    );
     return {
       messages: data.messages || [],
       nextPageToken: data.nextPageToken,
     };
   } catch (error) {
     console.error('Error fetching email metadata:', error);
-    // Re-throw or handle more gracefully depending on desired UX
     throw error; // Re-throwing allows the caller (EmailsList) to handle it
   }
 };
@@ -146,44 +99,14 @@ export const fetchEmailMetadataPage = async (
 // --- Function to Fetch Important Email Metadata ---
 export const fetchImportantEmailMetadataPage = async (
   pageToken?: string | null,
-  maxResults: number = 20
+  maxResults: number = 20,
+  signal?: AbortSignal
 ): Promise<FetchEmailMetadataResult> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
-
-  // Construct the URL with the IMPORTANT label filter
-  let url = `https://gmail.googleapis.com/gmail/v1/users/me/messages?maxResults=${maxResults}&labelIds=IMPORTANT`;
-  if (pageToken) {
-    url += `&pageToken=${pageToken}`;
-  }
-
   try {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.text();
-      console.error('Failed to fetch important email metadata. Status:', response.status, 'Body:', errorBody);
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson?.error?.message) {
-          throw new Error(`Failed to fetch important email metadata: ${errorJson.error.message} (Status: ${response.status})`);
-        }
-      } catch (parseError) {
-        // Ignore if parsing fails
-      }
-      throw new Error(`Failed to fetch important email metadata: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const data = await googleRequest<{ messages?: GmailMessageMetadata[]; nextPageToken?: string }>(
+      `${GMAIL_API_URL}/messages`,
+      { query: { maxResults, labelIds: 'IMPORTANT', pageToken }, signal }
+    );
     return {
       messages: data.messages || [],
       nextPageToken: data.nextPageToken,
@@ -203,41 +126,20 @@ export interface SearchResult {
 
 export const searchGmailMessages = async (
   query: string,
-  maxResults: number = 50 // Limit results for initial search display
+  pageToken?: string | null,
+  maxResults: number = 20,
+  signal?: AbortSignal
 ): Promise<SearchResult> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
   if (!query) {
       // Or return empty result: return { messages: [], resultSizeEstimate: 0 };
       throw new Error('Search query cannot be empty.');
   }
 
-  const params = new URLSearchParams({
-    q: query,
-    maxResults: maxResults.toString(),
-  });
-
-  const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages?${params.toString()}`;
-
   try {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
+    const data = await googleRequest<SearchResult>(`${GMAIL_API_URL}/messages`, {
+      query: { q: query, maxResults, pageToken },
+      signal,
     });
-
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-      console.error(`Failed to search messages: ${response.status}`, errorBody);
-      throw new Error(`Failed to search messages: ${errorBody?.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
     return {
       messages: data.messages || [], // Ensure messages is always an array
       nextPageToken: data.nextPageToken,
@@ -249,6 +151,33 @@ export const searchGmailMessages = async (
   }
 };
 
+// Gmail pages read per result page when the results are filtered on our side
+const MAX_FILTERED_SEARCH_PAGES = 5;
+
+/**
+ * One page of search results narrowed down by `keep` (e.g. a tag filter). Whole Gmail
+ * pages are read until `pageSize` matches are found, so pages may come out a bit longer
+ * or shorter, but `nextPageToken` never skips a result.
+ */
+export const searchFilteredMessages = async (
+  query: string,
+  keep: (messageId: string) => boolean,
+  pageToken?: string | null,
+  pageSize: number = 20,
+  signal?: AbortSignal
+): Promise<SearchResult> => {
+  const messages: GmailMessageMetadata[] = [];
+  let token = pageToken || undefined;
+  let pages = 0;
+  do {
+    const result = await searchGmailMessages(query, token, 100, signal);
+    messages.push(...result.messages.filter(m => keep(m.id)));
+    token = result.nextPageToken;
+    pages++;
+  } while (token && messages.length < pageSize && pages < MAX_FILTERED_SEARCH_PAGES);
+  return { messages, nextPageToken: token };
+};
+
 // --- New Function for Full Email Details ---
 export interface GmailFullMessage { // Added export keyword
   id: string;
@@ -259,51 +188,58 @@ export interface GmailFullMessage { // Added export keyword
   payload?: GmailMessagePayload;
 }
 
-export const fetchFullEmailDetails = async (messageIds: string[]): Promise<GmailFullMessage[]> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  if (messageIds.length === 0) { // Still need to check for empty messageIds
-    return [];
+// Headers requested with format=metadata. Anything that reads more headers
+// from GmailFullMessage.payload needs to be listed here (and the local mail
+// store's DB_VERSION bumped, so messages stored without them are fetched again).
+export const EMAIL_METADATA_HEADERS = ['Subject', 'From', 'Date', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
+
+export interface FetchEmailDetailsOptions extends Pick<BatchOptions, 'signal' | 'chunkSize' | 'concurrency'> {
+  metadataHeaders?: string[];
+}
+
+export interface FetchEmailDetailsResult {
+  messages: GmailFullMessage[];
+  failed: { id: string; error: GoogleApiError }[];
+}
+
+/**
+ * Fetches metadata (snippet, labels, selected headers) for many messages through
+ * Gmail's batch endpoint. Messages come back in the order of `messageIds`; ids that
+ * could not be fetched are listed in `failed` instead of failing the whole call.
+ */
+export const fetchEmailDetailsBatch = async (
+  messageIds: string[],
+  options: FetchEmailDetailsOptions = {}
+): Promise<FetchEmailDetailsResult> => {
+  if (messageIds.length === 0) {
+    return { messages: [], failed: [] };
   }
-  // The catch block in the calling component will handle the error from getGmailAccessToken.
-
-  const requests = messageIds.map(id => {
-    // Request snippet, specific headers, and labels (for read status)
-    // Using format=metadata returns requested headers within payload.headers.
-    const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${id}?format=metadata&metadataHeaders=Subject&metadataHeaders=From&metadataHeaders=Date`;
-    return fetch(url, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    }).then(async res => { // Make inner function async to await text() on error
-      if (!res.ok) {
-         if (res.status === 401 || res.status === 403) {
-            throw new Error('Google API token expired'); // Throw here to be caught by the outer catch
-        }
-        const errorBody = await res.text();
-        console.error(`Failed to fetch details for email ${id}: ${res.status}`, errorBody);
-        return null; // Handle individual failures gracefully
-      }
-      return res.json();
-    }).catch(fetchError => { // Catch network errors for individual fetches
-        console.error(`Network error fetching details for email ${id}:`, fetchError);
-        return null;
-    });
-  });
 
-  try {
-    const results = await Promise.all(requests);
-    console.log('Full email details results:', results);
-    // Filter out null results from failed requests
-    return results.filter((result): result is GmailFullMessage => result !== null);
-  } catch (error) {
-    // This catch might be less likely if individual fetches handle errors, but good practice
-    console.error('Error fetching full email details in Promise.all:', error);
-    return [];
+  const { metadataHeaders = EMAIL_METADATA_HEADERS, ...batchOptions } = options;
+  const query = buildGoogleUrl('', { format: 'metadata', metadataHeaders });
+
+  const { results, failures } = await googleBatch<GmailFullMessage>(
+    messageIds.map(id => ({ path: `${GMAIL_API_PATH}/messages/${encodeURIComponent(id)}${query}` })),
+    batchOptions
+  );
+
+  return {
+    messages: results.filter((result): result is GmailFullMessage => !!result),
+    failed: failures.map(({ index, error }) => ({ id: messageIds[index], error })),
+  };
+};
+
+export const fetchFullEmailDetails = async (messageIds: string[], signal?: AbortSignal): Promise<GmailFullMessage[]> => {
+  const { messages, failed } = await fetchEmailDetailsBatch(messageIds, { signal });
+  if (failed.length > 0) {
+    // Handle individual failures gracefully: the rest of the page still renders.
+    console.warn(`Failed to fetch details for ${failed.length} of ${messageIds.length} emails:`, failed);
   }
+  return messages;
 };
 
 // --- Interface for Gmail Message Payload (when format=full) ---
-interface GmailMessagePart {
+export interface GmailMessagePart {
   partId: string;
   mimeType: string;
   filename: string;
@@ -316,7 +252,7 @@ interface GmailMessagePart {
   parts?: GmailMessagePart[];
 }
 
-interface GmailMessagePayload {
+export interface GmailMessagePayload {
   partId: string;
   mimeType: string;
   filename: string;
@@ -343,37 +279,13 @@ export interface GmailThreadMessage extends Omit<GmailFullMessage, 'payload'> {
 
 
 // --- Function to Fetch a Full Email Thread ---
-export const fetchEmailThread = async (threadId: string): Promise<GmailThread | null> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
-
-  // Request full format to get bodies, attachments etc.
-  const url = `https://gmail.googleapis.com/gmail/v1/users/me/threads/${threadId}?format=full`;
-
+export const fetchEmailThread = async (threadId: string, signal?: AbortSignal): Promise<GmailThread | null> => {
   try {
-    const response = await fetch(url, {
-      headers: { Authorization: `Bearer ${accessToken}` },
+    // Request full format to get bodies, attachments etc.
+    const threadData = await googleRequest<GmailThread>(`${GMAIL_API_URL}/threads/${encodeURIComponent(threadId)}`, {
+      query: { format: 'full' },
+      signal,
     });
-
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.text();
-      console.error(`Failed to fetch thread ${threadId}: ${response.status}`, errorBody);
-      // Try to parse for a better error message
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson?.error?.message) {
-          throw new Error(`Failed to fetch thread: ${errorJson.error.message} (Status: ${response.status})`);
-        }
-      } catch (parseError) { /* Ignore */ }
-      throw new Error(`Failed to fetch thread: ${response.status}`);
-    }
-
-    const threadData: GmailThread = await response.json();
     // Sort messages by internalDate (oldest first)
     threadData.messages.sort((a, b) => parseInt(a.internalDate || '0') - parseInt(b.internalDate || '0'));
     return threadData;
@@ -385,220 +297,679 @@ export const fetchEmailThread = async (threadId: string): Promise<GmailThread |
 };
 
 
-// --- Function to Send a Reply ---
-// Base64url encoding function
-const base64UrlEncode = (str: string): string => {
-    return btoa(unescape(encodeURIComponent(str)))
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
-};
-
 // Helper to get specific header value (Exported)
 export const getHeaderValue = (headers: { name: string; value: string }[], name: string): string => {
     const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
     return header ? header.value : '';
 };
 
+// --- Conversations ---
+// Conversation mode lists threads.list results; each thread comes with its messages'
+// metadata so a row can show participants, counts and the latest snippet.
 
-export const sendReply = async (
-    threadId: string,
-    replyBody: string,
-    originalMessage: GmailThreadMessage // Need the last message for headers
-): Promise<GmailThreadMessage | null> => {
-    // getGmailAccessToken now throws an error if token is not available,
-    // so we don't need the explicit check here.
-    const accessToken = await getGmailAccessToken();
-    // The catch block in the calling component will handle the error.
+export interface GmailThreadMetadata {
+  id: string;
+  historyId: string;
+  messages: GmailFullMessage[];
+}
 
-    const originalHeaders = originalMessage.payload.headers;
-    const to = getHeaderValue(originalHeaders, 'Reply-To') || getHeaderValue(originalHeaders, 'From');
-    const subject = getHeaderValue(originalHeaders, 'Subject');
-    const messageId = getHeaderValue(originalHeaders, 'Message-ID');
-    const references = getHeaderValue(originalHeaders, 'References');
-
-    // Construct the raw email message
-    const emailLines = [
-        `To: ${to}`,
-        // Add CC/BCC if needed based on original message or UI input
-        `Subject: Re: ${subject}`, // Simple "Re:" prefix
-        `In-Reply-To: ${messageId}`,
-        `References: ${references ? references + ' ' + messageId : messageId}`, // Append original Message-ID
-        'Content-Type: text/plain; charset="UTF-8"', // Assuming plain text reply for simplicity
-        '', // Empty line before body
-        replyBody,
-    ];
-    const rawEmail = emailLines.join('\r\n');
-    const encodedEmail = base64UrlEncode(rawEmail);
-
-    const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages/send`;
+export interface ThreadSummary {
+  id: string;
+  /** Messages shown in the thread (drafts excluded), oldest first. */
+  messageIds: string[];
+  latestMessageId: string;
+  /** Senders in order of first appearance, with the user's own addresses shown as "me". */
+  participants: string[];
+  messageCount: number;
+  subject: string;
+  snippet: string;
+  date: Date;
+  /** Unread/starred when any message is. */
+  unread: boolean;
+  starred: boolean;
+}
 
-    try {
-        const response = await fetch(url, {
+const THREAD_METADATA_HEADERS = ['From', 'Subject', 'Date'];
+
+export const fetchThreadListPage = async (
+  query: MessageListQuery,
+  pageToken?: string | null,
+  maxResults: number = 20,
+  signal?: AbortSignal
+): Promise<{ threads: GmailThreadMetadata[]; nextPageToken?: string }> => {
+  try {
+    const page = await googleRequest<{ threads?: { id: string }[]; nextPageToken?: string }>(`${GMAIL_API_URL}/threads`, {
+      query: { q: query.q, labelIds: query.labelIds, maxResults, pageToken },
+      signal,
+    });
+    const threads = await fetchThreadsMetadata((page.threads || []).map(t => t.id), signal);
+    return { threads, nextPageToken: page.nextPageToken };
+  } catch (error) {
+    console.error('Error fetching thread list page:', error);
+    throw error;
+  }
+};
+
+/** Metadata of the given threads in one batch; threads that fail to load (e.g. deleted) are left out. */
+export const fetchThreadsMetadata = async (threadIds: string[], signal?: AbortSignal): Promise<GmailThreadMetadata[]> => {
+  if (threadIds.length === 0) return [];
+  const { results, failures } = await googleBatch<GmailThreadMetadata>(
+    threadIds.map(id => ({
+      path: buildGoogleUrl(`${GMAIL_API_PATH}/threads/${encodeURIComponent(id)}`, {
+        format: 'metadata',
+        metadataHeaders: THREAD_METADATA_HEADERS,
+      }),
+    })),
+    { signal }
+  );
+  if (failures.length > 0) {
+    console.warn(`Failed to fetch ${failures.length} of ${threadIds.length} threads:`, failures);
+  }
+  return results.filter((thread): thread is GmailThreadMetadata => !!thread?.messages?.length);
+};
+
+export const summarizeThread = (thread: GmailThreadMetadata, ownAddresses: string[] = []): ThreadSummary => {
+  const sorted = [...thread.messages].sort((a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0));
+  const visible = sorted.filter(m => !m.labelIds?.includes('DRAFT'));
+  // A thread holding nothing but a draft still gets a row
+  const messages = visible.length > 0 ? visible : sorted;
+  const latest = messages[messages.length - 1];
+  const own = new Set(ownAddresses);
+
+  const participants: string[] = [];
+  messages.forEach(message => {
+    const [sender] = parseAddressList(getHeaderValue(message.payload?.headers || [], 'From'));
+    if (!sender) return;
+    const name = own.has(sender.address.toLowerCase()) ? 'me' : (sender.name || sender.address);
+    if (!participants.includes(name)) participants.push(name);
+  });
+
+  const latestHeaders = latest.payload?.headers || [];
+  const dateHeader = getHeaderValue(latestHeaders, 'Date');
+  return {
+    id: thread.id,
+    messageIds: messages.map(m => m.id),
+    latestMessageId: latest.id,
+    participants,
+    messageCount: messages.length,
+    subject: getHeaderValue(messages[0].payload?.headers || [], 'Subject'),
+    snippet: latest.snippet || '',
+    date: dateHeader ? new Date(dateHeader) : new Date(Number(latest.internalDate || 0)),
+    unread: messages.some(m => m.labelIds?.includes('UNREAD')),
+    starred: messages.some(m => m.labelIds?.includes('STARRED')),
+  };
+};
+
+// --- Function to Send a Raw MIME Message ---
+// Above this size the message goes through the resumable upload endpoint instead of
+// the JSON `raw` field (which inflates it by a third and has a lower size limit).
+export const SIMPLE_UPLOAD_MAX_BYTES = 4 * 1024 * 1024;
+
+export interface SentGmailMessage {
+    id: string;
+    threadId: string;
+    labelIds?: string[];
+}
+
+export interface SendMessageOptions {
+    signal?: AbortSignal;
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+    /** Send through drafts.send so the saved draft is replaced by the sent message. */
+    draftId?: string | null;
+}
+
+export const sendMimeMessage = async (
+    mime: string,
+    threadId?: string,
+    options: SendMessageOptions = {}
+): Promise<SentGmailMessage> => {
+    const { draftId } = options;
+    const endpoint = draftId ? 'drafts/send' : 'messages/send';
+    // Sending is not idempotent: a retried 5xx could deliver the message twice.
+    if (mime.length <= SIMPLE_UPLOAD_MAX_BYTES) {
+        const message = { raw: encodeRawMessage(mime), threadId };
+        return googleRequest<SentGmailMessage>(`${GMAIL_API_URL}/${endpoint}`, {
             method: 'POST',
-            headers: {
-                Authorization: `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                raw: encodedEmail,
-                threadId: threadId, // Ensure it's part of the thread
-            }),
+            body: draftId ? { id: draftId, message } : message,
+            signal: options.signal,
+            maxRetries: 0,
         });
+    }
+    // Resumed chunks are safe to retry; the message is only sent once the upload completes.
+    const metadata = threadId ? { threadId } : {};
+    return googleResumableUpload<SentGmailMessage>(`${GMAIL_UPLOAD_URL}/${endpoint}`, new Blob([mime]), {
+        metadata: draftId ? { id: draftId, message: metadata } : metadata,
+        contentType: 'message/rfc822',
+        signal: options.signal,
+        onProgress: options.onProgress,
+    });
+};
 
-        if (!response.ok) {
-           if (response.status === 401 || response.status === 403) {
-            throw new Error('Google API token expired');
-          }
-            const errorBody = await response.text();
-            console.error(`Failed to send reply for thread ${threadId}: ${response.status}`, errorBody);
-             try {
-                const errorJson = JSON.parse(errorBody);
-                if (errorJson?.error?.message) {
-                throw new Error(`Failed to send reply: ${errorJson.error.message} (Status: ${response.status})`);
-                }
-            } catch (parseError) { /* Ignore */ }
-            throw new Error(`Failed to send reply: ${response.status}`);
-        }
+// --- Replying and Forwarding ---
+export type ReplyMode = 'reply' | 'replyAll' | 'forward';
 
-        const sentMessage: GmailThreadMessage = await response.json();
+// Prefixes other mail clients use as well (German AW/WG, Scandinavian SV, French TR, ...)
+const REPLY_PREFIX = /^\s*(re|aw|sv|antw)(\[\d+\])?\s*:\s*/i;
+const FORWARD_PREFIX = /^\s*(fwd?|wg|tr|vs)(\[\d+\])?\s*:\s*/i;
 
-        // Fetch the full message details to get the payload
-        const fullMessageUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${sentMessage.id}?format=full`;
-        const fullMessageResponse = await fetch(fullMessageUrl, {
-            headers: { Authorization: `Bearer ${accessToken}` },
-        });
+/** `Re: Subject` / `Fwd: Subject` without piling up prefixes like `Re: RE: Re:`. */
+export const normalizeSubject = (subject: string, mode: ReplyMode): string => {
+    const [prefix, pattern] = mode === 'forward' ? ['Fwd:', FORWARD_PREFIX] : ['Re:', REPLY_PREFIX];
+    let base = subject.trim();
+    while (pattern.test(base)) base = base.replace(pattern, '');
+    return base ? `${prefix} ${base}` : prefix;
+};
 
-        if (!fullMessageResponse.ok) {
-            const errorBody = await fullMessageResponse.text();
-            console.error(`Failed to fetch full message details for ${sentMessage.id}: ${fullMessageResponse.status}`, errorBody);
-            // Consider returning null or a partial message object here
-            return null;
-        }
+/** In-Reply-To/References for a message answering (or forwarding) `originalMessage` (RFC 5322 3.6.4). */
+export const buildThreadingHeaders = (
+    originalMessage: GmailThreadMessage
+): Pick<MimeMessage, 'inReplyTo' | 'references'> => {
+    const headers = originalMessage.payload.headers;
+    const messageId = getHeaderValue(headers, 'Message-ID');
+    const parentReferences = getHeaderValue(headers, 'References') || getHeaderValue(headers, 'In-Reply-To');
+    const references = [parentReferences, messageId].filter(Boolean).join(' ');
+    return {
+        inReplyTo: messageId || undefined,
+        references: references || undefined,
+    };
+};
 
-        const fullSentMessage: GmailThreadMessage = await fullMessageResponse.json();
-        return fullSentMessage; // Return the *full* message details
+const ownAddressesCache = new Map<string, Promise<string[]>>();
+
+/** The account's address plus its send-as aliases (lowercased), cached per user. */
+export const getOwnAddresses = (userId: string): Promise<string[]> => {
+    let addresses = ownAddressesCache.get(userId);
+    if (!addresses) {
+        addresses = (async () => {
+            const [profile, sendAs] = await Promise.all([
+                googleRequest<{ emailAddress: string }>(`${GMAIL_API_URL}/profile`),
+                googleRequest<{ sendAs?: { sendAsEmail: string }[] }>(`${GMAIL_API_URL}/settings/sendAs`),
+            ]);
+            return [profile.emailAddress, ...(sendAs.sendAs || []).map(alias => alias.sendAsEmail)]
+                .filter(Boolean)
+                .map(address => address.toLowerCase());
+        })();
+        ownAddressesCache.set(userId, addresses);
+        addresses.catch(error => {
+            console.error('Error fetching own addresses:', error);
+            ownAddressesCache.delete(userId);
+        });
+    }
+    return addresses;
+};
 
-    } catch (error) {
-        console.error(`Error sending reply for thread ${threadId}:`, error);
-        throw error; // Re-throw for the caller
+const dedupeAddresses = (addresses: MailAddress[], exclude: Set<string>): MailAddress[] => {
+    const seen = new Set(exclude);
+    return addresses.filter(({ address }) => {
+        const key = address.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * Recipients, subject and threading headers for a reply to `originalMessage`.
+ * Reply-all adds the original To/Cc recipients; the user's own addresses are left out
+ * (`ownAddresses` should be lowercased, see getOwnAddresses).
+ */
+export const buildReplyHeaders = (
+    originalMessage: GmailThreadMessage,
+    mode: Exclude<ReplyMode, 'forward'> = 'reply',
+    ownAddresses: string[] = []
+): Pick<MimeMessage, 'to' | 'cc' | 'subject' | 'inReplyTo' | 'references'> => {
+    const originalHeaders = originalMessage.payload.headers;
+    const own = new Set(ownAddresses);
+    const from = parseAddressList(getHeaderValue(originalHeaders, 'From'));
+    const originalTo = parseAddressList(getHeaderValue(originalHeaders, 'To'));
+    const originalCc = parseAddressList(getHeaderValue(originalHeaders, 'Cc'));
+    const sentByMe = from.some(({ address }) => own.has(address.toLowerCase()));
+
+    // Replying to one's own message goes to its original recipients, like Gmail does
+    const replyTarget = sentByMe
+        ? originalTo
+        : parseAddressList(getHeaderValue(originalHeaders, 'Reply-To') || getHeaderValue(originalHeaders, 'From'));
+    let to = replyTarget;
+    let cc: MailAddress[] = [];
+    if (mode === 'replyAll') {
+        to = dedupeAddresses(sentByMe ? replyTarget : [...replyTarget, ...originalTo], own);
+        cc = dedupeAddresses(originalCc, new Set([...own, ...to.map(({ address }) => address.toLowerCase())]));
     }
+    // A message the user sent to themselves still needs a recipient
+    if (to.length === 0) to = replyTarget.length > 0 ? replyTarget : from;
+
+    return {
+        to: to.map(formatDisplayAddress).join(', '),
+        cc: cc.map(formatDisplayAddress).join(', '),
+        subject: normalizeSubject(getHeaderValue(originalHeaders, 'Subject'), mode),
+        ...buildThreadingHeaders(originalMessage),
+    };
+};
+
+/** The line the forwarded message starts after, as Gmail writes it. */
+export const FORWARD_DIVIDER = '---------- Forwarded message ---------';
+
+/** Subject, threading headers and quoted body for forwarding `originalMessage`. */
+export const buildForwardContent = (
+    originalMessage: GmailThreadMessage
+): Pick<MimeMessage, 'subject' | 'text' | 'inReplyTo' | 'references'> => {
+    const headers = originalMessage.payload.headers;
+    const quotedHeaders = ['From', 'Date', 'Subject', 'To', 'Cc']
+        .map(name => [name, getHeaderValue(headers, name)])
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}: ${value}`);
+    return {
+        subject: normalizeSubject(getHeaderValue(headers, 'Subject'), 'forward'),
+        text: ['', '', FORWARD_DIVIDER, ...quotedHeaders, '', getMessagePlainText(originalMessage.payload)].join('\n'),
+        ...buildThreadingHeaders(originalMessage),
+    };
 };
 
 // --- Function to Send a New Email ---
 export const sendNewGmailMessage = async (
-    to: string, // Can be comma-separated for multiple recipients
-    subject: string,
-    body: string
+    message: MimeMessage,
+    options: SendMessageOptions = {}
 ): Promise<boolean> => { // Returns true on success, throws error on failure
-    // getGmailAccessToken now throws an error if token is not available,
-    // so we don't need the explicit check here.
-    const accessToken = await getGmailAccessToken();
-    // The catch block in the calling component will handle the error.
-
-    // Construct the raw email message
-    const emailLines = [
-        `To: ${to}`,
-        // Add CC/BCC headers here if needed in the future
-        `Subject: ${subject}`,
-        'Content-Type: text/plain; charset="UTF-8"', // Assuming plain text for simplicity
-        '', // Empty line before body
-        body,
-    ];
-    const rawEmail = emailLines.join('\r\n');
-
-    // Reuse the existing base64UrlEncode helper
-    const encodedEmail = base64UrlEncode(rawEmail);
-
-    const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages/send`;
+    try {
+        // Do not include threadId for new messages
+        await sendMimeMessage(buildMimeMessage(message), undefined, options);
 
+        console.log('New email sent successfully via Gmail API.');
+        return true;
+
+    } catch (error) {
+        console.error(`Error sending new email:`, error);
+        // Re-throw the error so the calling component (ComposeDialog) can handle it
+        throw error;
+    }
+};
+
+// --- Bulk Actions ---
+// Gmail takes up to 1000 ids per batchModify call. Moving to Trash is a label change
+// as well: batchDelete deletes permanently and needs the full https://mail.google.com/
+// scope, which the app does not request.
+const BATCH_MODIFY_MAX_IDS = 1000;
+// Keeps Supabase `in (...)` filters and upsert payloads at a reasonable size.
+const SUPABASE_BULK_CHUNK_SIZE = 500;
+// Upper bound for "select all matching"
+export const MAX_BULK_SELECTION = 10000;
+
+export interface LabelChange {
+    addLabelIds?: string[];
+    removeLabelIds?: string[];
+}
+
+export interface BulkActionOptions {
+    signal?: AbortSignal;
+    /** Called after each chunk with the number of emails processed so far. */
+    onProgress?: (done: number, total: number) => void;
+}
+
+const chunkIds = (ids: string[], size: number): string[][] => {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += size) chunks.push(ids.slice(i, i + size));
+    return chunks;
+};
+
+export const batchModifyMessages = async (
+    messageIds: string[],
+    { addLabelIds = [], removeLabelIds = [] }: LabelChange,
+    { signal, onProgress }: BulkActionOptions = {}
+): Promise<void> => {
+    let done = 0;
     try {
-        const response = await fetch(url, {
+        for (const ids of chunkIds(messageIds, BATCH_MODIFY_MAX_IDS)) {
+            await googleRequest(`${GMAIL_API_URL}/messages/batchModify`, {
+                method: 'POST',
+                body: { ids, addLabelIds, removeLabelIds },
+                signal,
+            });
+            done += ids.length;
+            onProgress?.(done, messageIds.length);
+        }
+    } catch (error) {
+        console.error(`Error modifying labels of ${messageIds.length} messages (${done} done):`, error);
+        throw error;
+    }
+};
+
+/** Changes labels on every message of a thread (users.threads.modify). */
+export const modifyThreadLabels = async (
+    threadId: string,
+    { addLabelIds = [], removeLabelIds = [] }: LabelChange,
+    signal?: AbortSignal
+): Promise<void> => {
+    try {
+        await googleRequest(`${GMAIL_API_URL}/threads/${encodeURIComponent(threadId)}/modify`, {
             method: 'POST',
-            headers: {
-                Authorization: `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                raw: encodedEmail,
-                // Do not include threadId for new messages
-            }),
+            body: { addLabelIds, removeLabelIds },
+            signal,
         });
+    } catch (error) {
+        console.error(`Error modifying labels of thread ${threadId}:`, error);
+        throw error;
+    }
+};
 
-        if (!response.ok) {
-           if (response.status === 401 || response.status === 403) {
-            throw new Error('Google API token expired');
-          }
-            const errorBody = await response.text();
-            console.error(`Failed to send new email: ${response.status}`, errorBody);
-             try {
-                const errorJson = JSON.parse(errorBody);
-                if (errorJson?.error?.message) {
-                throw new Error(`Failed to send email: ${errorJson.error.message} (Status: ${response.status})`);
-                }
-            } catch (parseError) { /* Ignore */ }
-            throw new Error(`Failed to send email: ${response.status}`);
+/** Stars or unstars many emails: the Gmail STARRED label plus the Supabase flag, like markEmailStarred. */
+export const setEmailsStarred = async (
+    userId: string,
+    emailIds: string[],
+    starred: boolean,
+    options: BulkActionOptions = {}
+): Promise<void> => {
+    await batchModifyMessages(emailIds, starred ? { addLabelIds: ['STARRED'] } : { removeLabelIds: ['STARRED'] }, options);
+    for (const ids of chunkIds(emailIds, SUPABASE_BULK_CHUNK_SIZE)) {
+        const { error } = await supabase
+            .from('emails')
+            .upsert(ids.map(id => ({ email_id: id, user_id: userId, is_starred: starred })), { onConflict: 'email_id' });
+        if (error) {
+            console.error('Error updating starred state in Supabase:', error);
+            throw error;
+        }
+    }
+};
+
+/** Adds email_tags rows only; Gmail labels are left alone (used when applying label changes from Gmail). */
+export const insertEmailTags = async (
+    userId: string,
+    emailIds: string[],
+    tagId: string,
+    { onProgress }: BulkActionOptions = {}
+): Promise<void> => {
+    let done = 0;
+    for (const ids of chunkIds(emailIds, SUPABASE_BULK_CHUNK_SIZE)) {
+        // email_tags references emails, so every email needs a row there first
+        const { error: emailsError } = await supabase
+            .from('emails')
+            .upsert(ids.map(id => ({ email_id: id, user_id: userId })), { onConflict: 'email_id', ignoreDuplicates: true });
+        if (emailsError) {
+            console.error('Error inserting emails for bulk tagging:', emailsError);
+            throw emailsError;
         }
 
-        // If response is ok, assume success
-        console.log('New email sent successfully via Gmail API.');
-        return true;
+        const { error } = await supabase
+            .from('email_tags')
+            .upsert(ids.map(id => ({ email_id: id, tag_id: tagId, user_id: userId })), {
+                onConflict: 'email_id,tag_id,user_id',
+                ignoreDuplicates: true,
+            });
+        if (error) {
+            console.error(`Error adding tag ${tagId} to ${ids.length} emails:`, error);
+            throw error;
+        }
+        done += ids.length;
+        onProgress?.(done, emailIds.length);
+    }
+};
+
+/** Deletes email_tags rows (and logs the removals) without touching Gmail labels. */
+export const deleteEmailTags = async (
+    userId: string,
+    emailIds: string[],
+    tagId: string,
+    { onProgress }: BulkActionOptions = {}
+): Promise<void> => {
+    let done = 0;
+    for (const ids of chunkIds(emailIds, SUPABASE_BULK_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+            .from('email_tags')
+            .delete()
+            .eq('user_id', userId)
+            .eq('tag_id', tagId)
+            .in('email_id', ids)
+            .select('email_id');
+        if (error) {
+            console.error(`Error removing tag ${tagId} from ${ids.length} emails:`, error);
+            throw error;
+        }
+
+        // Log only what was actually removed, as removeTagFromEmail does
+        if (data && data.length > 0) {
+            const { error: logError } = await supabase
+                .from('removed_email_tags_log')
+                .insert(data.map(row => ({ email_id: row.email_id, tag_id: tagId, user_id: userId })));
+            if (logError) {
+                console.error(`Failed to log bulk removal of tag ${tagId}:`, logError);
+            }
+        }
+        done += ids.length;
+        onProgress?.(done, emailIds.length);
+    }
+};
+
+export const addTagToEmails = async (
+    userId: string,
+    emailIds: string[],
+    tagId: string,
+    options: BulkActionOptions = {}
+): Promise<void> => {
+    await pushTagLabelChange(tagId, emailIds, true, { signal: options.signal });
+    await insertEmailTags(userId, emailIds, tagId, options);
+};
+
+export const removeTagFromEmails = async (
+    userId: string,
+    emailIds: string[],
+    tagId: string,
+    options: BulkActionOptions = {}
+): Promise<void> => {
+    await pushTagLabelChange(tagId, emailIds, false, { signal: options.signal });
+    await deleteEmailTags(userId, emailIds, tagId, options);
+};
 
+export interface MessageListQuery {
+    q?: string;
+    labelIds?: string[];
+}
+
+/** Gmail's (approximate) number of messages matching the query. */
+export const estimateMatchingMessages = async (query: MessageListQuery, signal?: AbortSignal): Promise<number> => {
+    try {
+        const data = await googleRequest<{ resultSizeEstimate?: number }>(`${GMAIL_API_URL}/messages`, {
+            query: { ...query, maxResults: 1 },
+            signal,
+        });
+        return data.resultSizeEstimate ?? 0;
     } catch (error) {
-        console.error(`Error sending new email:`, error);
-        // Re-throw the error so the calling component (ComposeDialog) can handle it
+        console.error('Error estimating matching messages:', error);
+        throw error;
+    }
+};
+
+/** Every message id matching the query, newest first, up to `limit`. */
+export const listAllMessageIds = async (
+    query: MessageListQuery,
+    { signal, limit = MAX_BULK_SELECTION }: { signal?: AbortSignal; limit?: number } = {}
+): Promise<{ ids: string[]; truncated: boolean }> => {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    try {
+        do {
+            const data = await googleRequest<{ messages?: GmailMessageMetadata[]; nextPageToken?: string }>(
+                `${GMAIL_API_URL}/messages`,
+                { query: { ...query, maxResults: 500, pageToken }, signal }
+            );
+            ids.push(...(data.messages || []).map(m => m.id));
+            pageToken = data.nextPageToken;
+        } while (pageToken && ids.length < limit);
+        return { ids: ids.slice(0, limit), truncated: !!pageToken || ids.length > limit };
+    } catch (error) {
+        console.error('Error listing matching message ids:', error);
+        throw error;
+    }
+};
+
+// --- Tag <-> Gmail Label Sync ---
+// A tag can be linked to one Gmail user label (tags.gmail_label_id). Tag changes made
+// here are written to Gmail first and to email_tags only once that succeeded, so Gmail's
+// history is the single ordered record of changes from both sides. The mail sync replays
+// label changes from that history onto email_tags (see mailSync.ts); per email and label
+// the latest event wins, and our own changes come back as harmless no-ops.
+
+export interface GmailUserLabel {
+    id: string;
+    name: string;
+}
+
+const getTagGmailLabelId = async (tagId: string): Promise<string | null> => {
+    const { data, error } = await supabase
+        .from('tags')
+        .select('gmail_label_id')
+        .eq('id', tagId)
+        .maybeSingle();
+    if (error) {
+        console.error(`Error reading Gmail label link of tag ${tagId}:`, error);
+        throw error;
+    }
+    return data?.gmail_label_id ?? null;
+};
+
+/** Adds or removes the tag's linked Gmail label on the given messages; a no-op for unlinked tags. */
+export const pushTagLabelChange = async (
+    tagId: string,
+    emailIds: string[],
+    add: boolean,
+    options: BulkActionOptions = {}
+): Promise<void> => {
+    const labelId = await getTagGmailLabelId(tagId);
+    if (!labelId || emailIds.length === 0) return;
+    await batchModifyMessages(emailIds, add ? { addLabelIds: [labelId] } : { removeLabelIds: [labelId] }, options);
+};
+
+/** Tags of the user that are linked to a Gmail label, keyed by label id. */
+export const fetchTagLabelLinks = async (userId: string): Promise<Map<string, string>> => {
+    const { data, error } = await supabase
+        .from('tags')
+        .select('id, gmail_label_id')
+        .eq('user_id', userId)
+        .not('gmail_label_id', 'is', null);
+    if (error) {
+        console.error('Error fetching tag label links:', error);
+        throw error;
+    }
+    return new Map((data || []).map(tag => [tag.gmail_label_id as string, tag.id as string]));
+};
+
+/** User labels (system labels like INBOX can't be linked). */
+export const fetchGmailUserLabels = async (signal?: AbortSignal): Promise<GmailUserLabel[]> => {
+    try {
+        const data = await googleRequest<{ labels?: (GmailUserLabel & { type?: string })[] }>(`${GMAIL_API_URL}/labels`, { signal });
+        return (data.labels || [])
+            .filter(label => label.type === 'user')
+            .map(({ id, name }) => ({ id, name }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error('Error fetching Gmail labels:', error);
+        throw error;
+    }
+};
+
+/** Creates a user label, or returns the existing one when the name is taken. */
+export const createGmailLabel = async (name: string): Promise<GmailUserLabel> => {
+    try {
+        return await googleRequest<GmailUserLabel>(`${GMAIL_API_URL}/labels`, {
+            method: 'POST',
+            body: { name, labelListVisibility: 'labelShow', messageListVisibility: 'show' },
+        });
+    } catch (error) {
+        if (error instanceof GoogleApiError && error.status === 409) {
+            const existing = (await fetchGmailUserLabels()).find(label => label.name.toLowerCase() === name.toLowerCase());
+            if (existing) return existing;
+        }
+        console.error(`Error creating Gmail label "${name}":`, error);
+        throw error;
+    }
+};
+
+/**
+ * Links a tag to a Gmail label (or unlinks it with `labelId = null`). On linking, both
+ * sides are merged: tagged emails get the label and labelled messages get the tag.
+ */
+export const linkTagToGmailLabel = async (
+    userId: string,
+    tagId: string,
+    labelId: string | null,
+    options: BulkActionOptions = {}
+): Promise<void> => {
+    const { error } = await supabase
+        .from('tags')
+        .update({ gmail_label_id: labelId })
+        .eq('id', tagId)
+        .eq('user_id', userId);
+    if (error) {
+        console.error(`Error linking tag ${tagId} to Gmail label ${labelId}:`, error);
+        throw error;
+    }
+    if (!labelId) return;
+
+    const { data: tagged, error: taggedError } = await supabase
+        .from('email_tags')
+        .select('email_id')
+        .eq('user_id', userId)
+        .eq('tag_id', tagId);
+    if (taggedError) {
+        console.error(`Error fetching emails tagged with ${tagId}:`, taggedError);
+        throw taggedError;
+    }
+    const taggedIds = (tagged || []).map(row => row.email_id as string);
+    const { ids: labelledIds } = await listAllMessageIds({ labelIds: [labelId] }, { signal: options.signal });
+
+    await batchModifyMessages(taggedIds, { addLabelIds: [labelId] }, { signal: options.signal });
+    const tagSet = new Set(taggedIds);
+    await insertEmailTags(userId, labelledIds.filter(id => !tagSet.has(id)), tagId, options);
+};
+
+/** Drops links to labels that no longer exist in Gmail (deleted there). */
+export const unlinkMissingGmailLabels = async (userId: string, existingLabelIds: string[]): Promise<void> => {
+    const links = await fetchTagLabelLinks(userId);
+    const existing = new Set(existingLabelIds);
+    const staleTagIds = Array.from(links.entries())
+        .filter(([labelId]) => !existing.has(labelId))
+        .map(([, tagId]) => tagId);
+    if (staleTagIds.length === 0) return;
+
+    const { error } = await supabase
+        .from('tags')
+        .update({ gmail_label_id: null })
+        .eq('user_id', userId)
+        .in('id', staleTagIds);
+    if (error) {
+        console.error('Error unlinking deleted Gmail labels:', error);
         throw error;
     }
 };
 
 // --- Function to Mark a Message as Read (Remove UNREAD label) ---
+/**
+ * Removes the UNREAD label. False when that failed; an expired token or a missing
+ * scope is thrown instead, since every later call would fail the same way.
+ */
 export const markMessageAsRead = async (messageId: string): Promise<boolean> => {
-  // getGmailAccessToken now throws an error if token is not available,
-  // so we don't need the explicit check here.
-  const accessToken = await getGmailAccessToken();
-  // The catch block in the calling component will handle the error.
-
   if (!messageId) {
     console.error('Cannot mark message as read: messageId is missing.');
     return false;
   }
 
-  const url = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${encodeURIComponent(messageId)}/modify`;
-
   try {
-    const response = await fetch(url, {
+    await googleRequest(`${GMAIL_API_URL}/messages/${encodeURIComponent(messageId)}/modify`, {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+      body: {
         removeLabelIds: ['UNREAD'] // Standard Gmail label for unread messages
-      }),
+      },
     });
 
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-        throw new Error('Google API token expired');
-      }
-      const errorBody = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
-      console.error(`Failed to mark message ${messageId} as read: ${response.status}`, errorBody);
-      // Optionally throw an error to be caught by the caller
-      // throw new Error(`Failed to mark as read: ${errorBody?.error?.message || response.statusText}`);
-      return false; // Indicate failure
-    }
-
     console.log(`Message ${messageId} marked as read.`);
     return true; // Indicate success
 
   } catch (error) {
     console.error(`Error marking message ${messageId} as read:`, error);
-    // Optionally re-throw
-    // throw error;
+    if (isFatalGoogleError(error)) throw error;
     return false; // Indicate failure
   }
 };
 
+
 // Function to add a tag to an email
 export const addTagToEmail = async (userId: string, emailId: string, tagId: string): Promise<boolean> => {
     if (!userId || !emailId || !tagId) return false;
@@ -629,7 +1000,10 @@ export const addTagToEmail = async (userId: string, emailId: string, tagId: stri
             }
         }
 
-        // 3. Add the tag to the email_tags table
+        // 3. Mirror the tag onto its Gmail label (if linked) before recording it
+        await pushTagLabelChange(tagId, [emailId], true);
+
+        // 4. Add the tag to the email_tags table
         const { error } = await supabase
             .from('email_tags')
             .insert([{ email_id: emailId, tag_id: tagId, user_id: userId }]);
@@ -652,6 +1026,9 @@ export const removeTagFromEmail = async (userId: string, emailId: string, tagId:
 
     let removalSuccess = false; // Track if the main deletion worked
     try {
+        // 0. Remove the linked Gmail label first (if any)
+        await pushTagLabelChange(tagId, [emailId], false);
+
         // 1. Delete the tag association
         const { error: deleteError } = await supabase
             .from('email_tags')
@@ -715,13 +1092,16 @@ export const fetchEmailTagIds = async (userId: string, emailId: string): Promise
 };
 
 // Function to fetch tags of a specific type for a user
-export const fetchTags = async (userId: string, type: 'pin' | 'priority'): Promise<{ id: string; name: string; type: string; color: string }[]> => {
+export const fetchTags = async (
+    userId: string,
+    type: 'pin' | 'priority'
+): Promise<{ id: string; name: string; type: string; color: string; gmail_label_id?: string | null }[]> => {
     if (!userId) return [];
 
     try {
         const { data, error } = await supabase
             .from('tags')
-            .select('id, name, type, color')
+            .select('id, name, type, color, gmail_label_id')
             .eq('user_id', userId)
             .eq('type', type);
 
@@ -878,6 +1258,25 @@ export const findBestBodyPart = (payload: GmailMessagePayload | undefined): Gmai
   return htmlPart || textPart || null;
 };
 
+// First body (non-attachment) part of the given type, depth first
+export const findPartByMimeType = (part: GmailMessagePayload | GmailMessagePart, mimeType: string): GmailMessagePart | null => {
+  if (part.mimeType === mimeType && part.body?.data && !part.filename) return part as GmailMessagePart;
+  for (const child of part.parts ?? []) {
+    const found = findPartByMimeType(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Plain-text body, converted from the HTML part when there is no text/plain part
+export const getMessagePlainText = (payload: GmailMessagePayload | undefined): string => {
+  if (!payload) return '';
+  const textPart = findPartByMimeType(payload, 'text/plain');
+  if (textPart) return decodeBase64Body(textPart.body.data);
+  const htmlPart = findPartByMimeType(payload, 'text/html');
+  return htmlPart ? htmlToPlainText(decodeBase64Body(htmlPart.body.data)) : '';
+};
+
 // --- New Function for Supabase Data ---
 export interface SupabaseEmailData {
   email_id: string;
@@ -1034,6 +1433,52 @@ export const updateSupabaseEmail = async (
 };
 
 
+// --- User Settings ---
+// One row per user in user_settings; a missing row means every setting is at its default.
+
+export type MailListMode = 'messages' | 'conversations';
+
+export interface UserSettings {
+  mail_list_mode: MailListMode;
+  /** How long Send can be undone, 5 to 30 seconds. */
+  undo_send_seconds: number;
+  /** Signatures filled in for new messages and for replies/forwards (email_signatures ids). */
+  new_message_signature_id: string | null;
+  reply_signature_id: string | null;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  mail_list_mode: 'messages',
+  undo_send_seconds: 10,
+  new_message_signature_id: null,
+  reply_signature_id: null,
+};
+
+export const UNDO_SEND_OPTIONS = [5, 10, 20, 30];
+
+export const fetchUserSettings = async (userId: string): Promise<UserSettings> => {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('mail_list_mode, undo_send_seconds, new_message_signature_id, reply_signature_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching user settings:', error);
+    throw error;
+  }
+  return { ...DEFAULT_USER_SETTINGS, ...(data || {}) };
+};
+
+export const updateUserSettings = async (userId: string, changes: Partial<UserSettings>): Promise<void> => {
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({ user_id: userId, ...changes }, { onConflict: 'user_id' });
+  if (error) {
+    console.error('Error updating user settings:', error);
+    throw error;
+  }
+};
+
 // --- Timeline Functions --- (Moved to top level)
 
 // Export the interface
@@ -1,7 +1,8 @@
 import { supabase } from './supabaseClient';
 import { CardTag } from './cardApi';
 import { fetchCalendarEvents, GoogleCalendarEvent } from './googleCalendarClient';
-import { fetchFullEmailDetails, GmailFullMessage, getHeaderValue } from './supabaseClient'; // Import email detail fetching
+import { GmailFullMessage, getHeaderValue } from './supabaseClient';
+import { getMessageDetails } from './mailSync'; // Email details, served from the local mail store when possible
 
 // Define placeholder types - these should ideally be imported from actual type definition files
 // For now, defining basic structures based on schema and common patterns.
@@ -123,7 +124,7 @@ export const fetchEmailsByTags = async (tagIds: string[], mode: FilterMode): Pro
         if (matchingEmailIds.length === 0) return [];
 
         // Step 3: Fetch full details from Gmail API for the matching IDs
-        const emailDetailsList = await fetchFullEmailDetails(matchingEmailIds);
+        const emailDetailsList = await getMessageDetails(user.id, matchingEmailIds);
 
         // Step 4: Create a map of details for easy lookup
         const detailsMap = emailDetailsList.reduce((acc, detail) => {
@@ -157,6 +158,44 @@ export const fetchEmailsByTags = async (tagIds: string[], mode: FilterMode): Pro
     }
 };
 
+/**
+ * Fetches only the IDs of the emails matching the given tags, e.g. to narrow down Gmail
+ * search results without loading the emails themselves.
+ * @param tagIds - An array of tag IDs to filter by.
+ * @param mode - 'any' or 'all'.
+ * @returns A promise that resolves to the set of matching email IDs.
+ */
+export const fetchEmailIdsByTags = async (tagIds: string[], mode: FilterMode): Promise<Set<string>> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    if (tagIds.length === 0) return new Set();
+
+    try {
+        const { data, error } = await supabase
+            .from('email_tags')
+            .select('email_id, tag_id')
+            .eq('user_id', user.id)
+            .in('tag_id', tagIds);
+
+        if (error) throw error;
+
+        const tagsByEmail = new Map<string, Set<string>>();
+        (data || []).forEach(row => {
+            if (!tagsByEmail.has(row.email_id)) tagsByEmail.set(row.email_id, new Set());
+            tagsByEmail.get(row.email_id)!.add(row.tag_id);
+        });
+
+        const matching = Array.from(tagsByEmail.entries())
+            .filter(([, emailTagIds]) => mode === 'any' || tagIds.every(tagId => emailTagIds.has(tagId)))
+            .map(([emailId]) => emailId);
+        return new Set(matching);
+
+    } catch (error) {
+        console.error('Error fetching email IDs by tags:', error);
+        throw error;
+    }
+};
+
 /**
  * Fetches calendar events associated with the given tags based on the filter mode.
  * NOTE: Calendar events likely come from an external source (e.g., Google Calendar).
@@ -16,6 +16,13 @@ export interface TimelineCardInput {
   description?: string;
   start_date: string; // Expecting YYYY-MM-DD format
   end_date?: string | null; // Expecting YYYY-MM-DD format or null
+  email_thread_id?: string | null; // Gmail thread the card was created from
+  email_subject?: string | null; // That thread's subject, for showing the link
+}
+
+// Values to start a new card with, e.g. when creating one from an email thread
+export interface TimelineCardDraft extends TimelineCardInput {
+  tagIds: string[];
 }
 
 // Interface for the full card data, including generated fields and tags
@@ -50,6 +57,8 @@ export const fetchTimelineCardsWithTags = async (userId: string): Promise<Timeli
         description,
         start_date,
         end_date,
+        email_thread_id,
+        email_subject,
         created_at,
         timeline_card_tags (
           tags ( id, name, color, type )
@@ -76,6 +85,8 @@ export const fetchTimelineCardsWithTags = async (userId: string): Promise<Timeli
         description: card.description,
         start_date: card.start_date,
         end_date: card.end_date,
+        email_thread_id: card.email_thread_id,
+        email_subject: card.email_subject,
         created_at: card.created_at,
         tags: tags as Tag[], // Assert the type after filtering
       };
@@ -89,6 +100,27 @@ export const fetchTimelineCardsWithTags = async (userId: string): Promise<Timeli
   }
 };
 
+/**
+ * Fetches the timeline cards created from a Gmail thread (without tags).
+ * @param userId The ID of the user.
+ * @param threadId The Gmail thread ID.
+ * @returns Promise resolving to the linked cards, earliest first.
+ */
+export const fetchTimelineCardsForThread = async (userId: string, threadId: string): Promise<Omit<TimelineCard, 'tags'>[]> => {
+  const { data, error } = await supabase
+    .from('timeline_custom_cards')
+    .select('id, user_id, title, description, start_date, end_date, email_thread_id, email_subject, created_at')
+    .eq('user_id', userId)
+    .eq('email_thread_id', threadId)
+    .order('start_date', { ascending: true });
+
+  if (error) {
+    console.error(`Error fetching timeline cards for thread ${threadId}:`, error);
+    throw error;
+  }
+  return data || [];
+};
+
 /**
  * Creates a new custom timeline card.
  * @param userId The ID of the user creating the card.
@@ -108,7 +140,7 @@ export const createTimelineCard = async (userId: string, cardData: TimelineCardI
       .from('timeline_custom_cards')
       .insert([{ ...cardData, user_id: userId }])
       // Explicitly select columns from the main table only
-      .select('id, user_id, title, description, start_date, end_date, created_at')
+      .select('id, user_id, title, description, start_date, end_date, email_thread_id, email_subject, created_at')
       .select()
       .single();
 
@@ -147,7 +179,7 @@ export const updateTimelineCard = async (userId: string, cardId: string, cardDat
       .eq('id', cardId)
       .eq('user_id', userId) // Ensure user owns the card
       // Explicitly select columns from the main table only
-      .select('id, user_id, title, description, start_date, end_date, created_at')
+      .select('id, user_id, title, description, start_date, end_date, email_thread_id, email_subject, created_at')
       .select()
       .single();
 
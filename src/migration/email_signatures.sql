@@ -0,0 +1,68 @@
+-- Named email signatures (see src/lib/signatures.ts), plus the user's default signature
+-- for new messages and for replies. "html_body" is only set for signatures that have
+-- formatting, such as ones imported from Gmail.
+
+
+CREATE TABLE IF NOT EXISTS "public"."email_signatures" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "text_body" "text" DEFAULT ''::"text" NOT NULL,
+    "html_body" "text",
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"()
+);
+
+
+ALTER TABLE "public"."email_signatures" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."email_signatures" IS 'Named email signatures with a plain-text and an optional HTML version, per user.';
+
+
+
+ALTER TABLE ONLY "public"."email_signatures"
+    ADD CONSTRAINT "email_signatures_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE INDEX "idx_email_signatures_user_id" ON "public"."email_signatures" USING "btree" ("user_id");
+
+
+
+ALTER TABLE ONLY "public"."email_signatures"
+    ADD CONSTRAINT "email_signatures_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE OR REPLACE TRIGGER "trigger_update_updated_at" BEFORE UPDATE ON "public"."email_signatures" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE POLICY "Allow access to user's own email signatures" ON "public"."email_signatures" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."email_signatures" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."email_signatures" TO "anon";
+GRANT ALL ON TABLE "public"."email_signatures" TO "authenticated";
+GRANT ALL ON TABLE "public"."email_signatures" TO "service_role";
+
+
+
+ALTER TABLE "public"."user_settings"
+    ADD COLUMN IF NOT EXISTS "new_message_signature_id" "uuid",
+    ADD COLUMN IF NOT EXISTS "reply_signature_id" "uuid";
+
+
+
+ALTER TABLE ONLY "public"."user_settings"
+    ADD CONSTRAINT "user_settings_new_message_signature_id_fkey" FOREIGN KEY ("new_message_signature_id") REFERENCES "public"."email_signatures"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."user_settings"
+    ADD CONSTRAINT "user_settings_reply_signature_id_fkey" FOREIGN KEY ("reply_signature_id") REFERENCES "public"."email_signatures"("id") ON DELETE SET NULL;
@@ -0,0 +1,51 @@
+-- Reusable email templates (see src/lib/emailTemplates.ts). "subject" and "body" may contain
+-- {{variables}}, which are filled in when the template is inserted.
+
+
+CREATE TABLE IF NOT EXISTS "public"."email_templates" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "subject" "text" DEFAULT ''::"text" NOT NULL,
+    "body" "text" DEFAULT ''::"text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"()
+);
+
+
+ALTER TABLE "public"."email_templates" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."email_templates" IS 'Reusable email subjects and bodies with {{variables}}, per user.';
+
+
+
+ALTER TABLE ONLY "public"."email_templates"
+    ADD CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE INDEX "idx_email_templates_user_id" ON "public"."email_templates" USING "btree" ("user_id");
+
+
+
+ALTER TABLE ONLY "public"."email_templates"
+    ADD CONSTRAINT "email_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE OR REPLACE TRIGGER "trigger_update_updated_at" BEFORE UPDATE ON "public"."email_templates" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE POLICY "Allow access to user's own email templates" ON "public"."email_templates" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."email_templates" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."email_templates" TO "anon";
+GRANT ALL ON TABLE "public"."email_templates" TO "authenticated";
+GRANT ALL ON TABLE "public"."email_templates" TO "service_role";
@@ -0,0 +1,41 @@
+-- Senders the user unsubscribed from in the Subscriptions view (see src/lib/subscriptions.ts),
+-- so the view can show them as done. One row per user and sender address.
+
+
+CREATE TABLE IF NOT EXISTS "public"."email_unsubscribes" (
+    "user_id" "uuid" NOT NULL,
+    "sender_address" "text" NOT NULL,
+    "method" "text" NOT NULL,
+    "unsubscribed_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "email_unsubscribes_method_check" CHECK (("method" = ANY (ARRAY['one_click'::"text", 'mailto'::"text", 'website'::"text"])))
+);
+
+
+ALTER TABLE "public"."email_unsubscribes" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."email_unsubscribes" IS 'Mailing-list senders a user unsubscribed from, and how (RFC 8058 one-click POST, mailto or the sender''s website).';
+
+
+
+ALTER TABLE ONLY "public"."email_unsubscribes"
+    ADD CONSTRAINT "email_unsubscribes_pkey" PRIMARY KEY ("user_id", "sender_address");
+
+
+
+ALTER TABLE ONLY "public"."email_unsubscribes"
+    ADD CONSTRAINT "email_unsubscribes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE POLICY "Allow access to user's own unsubscribes" ON "public"."email_unsubscribes" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."email_unsubscribes" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."email_unsubscribes" TO "anon";
+GRANT ALL ON TABLE "public"."email_unsubscribes" TO "authenticated";
+GRANT ALL ON TABLE "public"."email_unsubscribes" TO "service_role";
@@ -0,0 +1,115 @@
+-- User-defined rules that act on incoming mail (see src/lib/mailRules.ts), and the log
+-- of which messages each rule acted on. A rule acts on a message at most once: the
+-- (rule_id, email_id) key is claimed before the actions run.
+
+
+CREATE TABLE IF NOT EXISTS "public"."mail_rules" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "enabled" boolean DEFAULT true NOT NULL,
+    "match_mode" "text" DEFAULT 'all'::"text" NOT NULL,
+    "conditions" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "actions" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "position" integer DEFAULT 0 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "mail_rules_match_mode_check" CHECK (("match_mode" = ANY (ARRAY['all'::"text", 'any'::"text"])))
+);
+
+
+ALTER TABLE "public"."mail_rules" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."mail_rules" IS 'Per-user rules: conditions on incoming messages and the actions (tag, star, archive, mark read) to take.';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."mail_rule_hits" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "rule_id" "uuid" NOT NULL,
+    "email_id" "text" NOT NULL,
+    "thread_id" "text",
+    "sender" "text",
+    "subject" "text",
+    "source" "text" DEFAULT 'new_mail'::"text" NOT NULL,
+    "error" "text",
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "mail_rule_hits_source_check" CHECK (("source" = ANY (ARRAY['new_mail'::"text", 'backfill'::"text"])))
+);
+
+
+ALTER TABLE "public"."mail_rule_hits" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."mail_rule_hits" IS 'Messages a mail rule acted on, with the error if its actions failed.';
+
+
+
+ALTER TABLE ONLY "public"."mail_rules"
+    ADD CONSTRAINT "mail_rules_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."mail_rule_hits"
+    ADD CONSTRAINT "mail_rule_hits_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."mail_rule_hits"
+    ADD CONSTRAINT "mail_rule_hits_rule_id_email_id_key" UNIQUE ("rule_id", "email_id");
+
+
+
+CREATE INDEX "idx_mail_rules_user_id" ON "public"."mail_rules" USING "btree" ("user_id", "position");
+
+
+
+CREATE INDEX "idx_mail_rule_hits_rule_created" ON "public"."mail_rule_hits" USING "btree" ("rule_id", "created_at" DESC);
+
+
+
+ALTER TABLE ONLY "public"."mail_rules"
+    ADD CONSTRAINT "mail_rules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."mail_rule_hits"
+    ADD CONSTRAINT "mail_rule_hits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."mail_rule_hits"
+    ADD CONSTRAINT "mail_rule_hits_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "public"."mail_rules"("id") ON DELETE CASCADE;
+
+
+
+CREATE OR REPLACE TRIGGER "trigger_update_updated_at" BEFORE UPDATE ON "public"."mail_rules" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE POLICY "Allow access to user's own mail rules" ON "public"."mail_rules" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Allow access to user's own mail rule hits" ON "public"."mail_rule_hits" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."mail_rules" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."mail_rule_hits" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."mail_rules" TO "anon";
+GRANT ALL ON TABLE "public"."mail_rules" TO "authenticated";
+GRANT ALL ON TABLE "public"."mail_rules" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."mail_rule_hits" TO "anon";
+GRANT ALL ON TABLE "public"."mail_rule_hits" TO "authenticated";
+GRANT ALL ON TABLE "public"."mail_rule_hits" TO "service_role";
@@ -0,0 +1,41 @@
+-- Messages and senders whose remote images the user chose to show (see src/lib/remoteContent.ts).
+-- Remote content is blocked in every other message. One row per user, scope and value.
+
+
+CREATE TABLE IF NOT EXISTS "public"."remote_content_allowlist" (
+    "user_id" "uuid" NOT NULL,
+    "scope" "text" NOT NULL,
+    "value" "text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "remote_content_allowlist_scope_check" CHECK (("scope" = ANY (ARRAY['message'::"text", 'sender'::"text"])))
+);
+
+
+ALTER TABLE "public"."remote_content_allowlist" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."remote_content_allowlist" IS 'Where a user allowed remote images: a Gmail message id (scope message) or a lowercased sender address (scope sender).';
+
+
+
+ALTER TABLE ONLY "public"."remote_content_allowlist"
+    ADD CONSTRAINT "remote_content_allowlist_pkey" PRIMARY KEY ("user_id", "scope", "value");
+
+
+
+ALTER TABLE ONLY "public"."remote_content_allowlist"
+    ADD CONSTRAINT "remote_content_allowlist_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE POLICY "Allow access to user's own remote content allowlist" ON "public"."remote_content_allowlist" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."remote_content_allowlist" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."remote_content_allowlist" TO "anon";
+GRANT ALL ON TABLE "public"."remote_content_allowlist" TO "authenticated";
+GRANT ALL ON TABLE "public"."remote_content_allowlist" TO "service_role";
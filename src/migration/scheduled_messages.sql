@@ -0,0 +1,66 @@
+-- Outbox for scheduled send (see src/lib/outbox.ts). The message itself is a Gmail draft ("draft_id");
+-- the row only says when to send it. "recipients" and "subject" are a snapshot for the Scheduled view.
+-- "next_attempt_at" starts at "send_at" and moves forward when a failed send is retried.
+
+
+CREATE TABLE IF NOT EXISTS "public"."scheduled_messages" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "draft_id" "text" NOT NULL,
+    "thread_id" "text",
+    "recipients" "text" DEFAULT ''::"text" NOT NULL,
+    "subject" "text" DEFAULT ''::"text" NOT NULL,
+    "send_at" timestamp with time zone NOT NULL,
+    "status" "text" DEFAULT 'scheduled'::"text" NOT NULL,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "next_attempt_at" timestamp with time zone NOT NULL,
+    "last_error" "text",
+    "sent_message_id" "text",
+    "sent_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "scheduled_messages_status_check" CHECK (("status" = ANY (ARRAY['scheduled'::"text", 'sending'::"text", 'sent'::"text", 'failed'::"text"])))
+);
+
+
+ALTER TABLE "public"."scheduled_messages" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."scheduled_messages" IS 'Outbox of Gmail drafts scheduled to be sent later, with their delivery status.';
+
+
+
+ALTER TABLE ONLY "public"."scheduled_messages"
+    ADD CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."scheduled_messages"
+    ADD CONSTRAINT "scheduled_messages_user_draft_key" UNIQUE ("user_id", "draft_id");
+
+
+
+CREATE INDEX "idx_scheduled_messages_due" ON "public"."scheduled_messages" USING "btree" ("user_id", "next_attempt_at") WHERE ("status" = 'scheduled'::"text");
+
+
+
+ALTER TABLE ONLY "public"."scheduled_messages"
+    ADD CONSTRAINT "scheduled_messages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE OR REPLACE TRIGGER "trigger_update_updated_at" BEFORE UPDATE ON "public"."scheduled_messages" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE POLICY "Allow access to user's own scheduled messages" ON "public"."scheduled_messages" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."scheduled_messages" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."scheduled_messages" TO "anon";
+GRANT ALL ON TABLE "public"."scheduled_messages" TO "authenticated";
+GRANT ALL ON TABLE "public"."scheduled_messages" TO "service_role";
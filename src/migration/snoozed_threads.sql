@@ -0,0 +1,51 @@
+-- Threads snoozed out of the inbox until "snooze_until" (see src/lib/snooze.ts).
+-- "resurfaced_at" is set once the thread is back in the inbox; the row is removed when it is opened.
+
+
+CREATE TABLE IF NOT EXISTS "public"."snoozed_threads" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "thread_id" "text" NOT NULL,
+    "snooze_until" timestamp with time zone NOT NULL,
+    "resurfaced_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"()
+);
+
+
+ALTER TABLE "public"."snoozed_threads" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."snoozed_threads" IS 'Gmail threads snoozed out of the inbox and when they come back.';
+
+
+
+ALTER TABLE ONLY "public"."snoozed_threads"
+    ADD CONSTRAINT "snoozed_threads_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."snoozed_threads"
+    ADD CONSTRAINT "snoozed_threads_user_thread_key" UNIQUE ("user_id", "thread_id");
+
+
+
+CREATE INDEX "idx_snoozed_threads_due" ON "public"."snoozed_threads" USING "btree" ("user_id", "snooze_until") WHERE ("resurfaced_at" IS NULL);
+
+
+
+ALTER TABLE ONLY "public"."snoozed_threads"
+    ADD CONSTRAINT "snoozed_threads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE POLICY "Allow access to user's own snoozed threads" ON "public"."snoozed_threads" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."snoozed_threads" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."snoozed_threads" TO "anon";
+GRANT ALL ON TABLE "public"."snoozed_threads" TO "authenticated";
+GRANT ALL ON TABLE "public"."snoozed_threads" TO "service_role";
@@ -0,0 +1,12 @@
+-- Optional link between a tag and a Gmail user label (two-way sync, see supabaseClient.ts).
+
+
+ALTER TABLE "public"."tags" ADD COLUMN IF NOT EXISTS "gmail_label_id" "text";
+
+
+COMMENT ON COLUMN "public"."tags"."gmail_label_id" IS 'Gmail user label kept in sync with this tag, if any.';
+
+
+
+-- A Gmail label can back at most one of a user's tags.
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_tags_user_gmail_label" ON "public"."tags" USING "btree" ("user_id", "gmail_label_id") WHERE ("gmail_label_id" IS NOT NULL);
@@ -0,0 +1,19 @@
+-- Links a project card back to the Gmail thread it was created from (see EmailView's "Create timeline card").
+-- The subject is kept with the link so the card can name the thread without asking Gmail.
+
+
+ALTER TABLE "public"."timeline_custom_cards"
+    ADD COLUMN IF NOT EXISTS "email_thread_id" "text",
+    ADD COLUMN IF NOT EXISTS "email_subject" "text";
+
+
+
+COMMENT ON COLUMN "public"."timeline_custom_cards"."email_thread_id" IS 'Optional Gmail thread the card was created from.';
+
+
+
+COMMENT ON COLUMN "public"."timeline_custom_cards"."email_subject" IS 'Subject of the linked Gmail thread when the card was created.';
+
+
+
+CREATE INDEX "idx_timeline_custom_cards_email_thread" ON "public"."timeline_custom_cards" USING "btree" ("user_id", "email_thread_id") WHERE ("email_thread_id" IS NOT NULL);
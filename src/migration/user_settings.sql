@@ -0,0 +1,44 @@
+-- Per-user preferences. A user without a row gets the defaults (see fetchUserSettings in supabaseClient.ts).
+
+
+CREATE TABLE IF NOT EXISTS "public"."user_settings" (
+    "user_id" "uuid" NOT NULL,
+    "mail_list_mode" "text" DEFAULT 'messages'::"text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "user_settings_mail_list_mode_check" CHECK (("mail_list_mode" = ANY (ARRAY['messages'::"text", 'conversations'::"text"])))
+);
+
+
+ALTER TABLE "public"."user_settings" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."user_settings" IS 'Per-user app preferences, such as message or conversation mode for the email list.';
+
+
+
+ALTER TABLE ONLY "public"."user_settings"
+    ADD CONSTRAINT "user_settings_pkey" PRIMARY KEY ("user_id");
+
+
+
+ALTER TABLE ONLY "public"."user_settings"
+    ADD CONSTRAINT "user_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+CREATE OR REPLACE TRIGGER "trigger_update_updated_at" BEFORE UPDATE ON "public"."user_settings" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE POLICY "Allow access to user's own settings" ON "public"."user_settings" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."user_settings" ENABLE ROW LEVEL SECURITY;
+
+
+
+GRANT ALL ON TABLE "public"."user_settings" TO "anon";
+GRANT ALL ON TABLE "public"."user_settings" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_settings" TO "service_role";
@@ -0,0 +1,10 @@
+-- How long Send waits before a message actually goes out, so it can be undone (see holdMessage in src/lib/outbox.ts).
+
+
+ALTER TABLE "public"."user_settings"
+    ADD COLUMN IF NOT EXISTS "undo_send_seconds" integer DEFAULT 10 NOT NULL;
+
+
+
+ALTER TABLE ONLY "public"."user_settings"
+    ADD CONSTRAINT "user_settings_undo_send_seconds_check" CHECK ((("undo_send_seconds" >= 5) AND ("undo_send_seconds" <= 30)));
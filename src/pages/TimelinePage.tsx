@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback, useMemo } from "react" // Added useMemo
-import { useNavigate } from 'react-router-dom'; // Import useNavigate
+import { useNavigate, useSearchParams } from 'react-router-dom'; // Import useNavigate
 import { useAuth } from "@/components/providers/AuthProvider"
 import { useTheme } from 'next-themes';
 import { cn } from '@/lib/utils';
 import { fetchRecentEmailTagActivity, type TimelineEvent, fetchTags } from "@/lib/supabaseClient" // Added fetchTags
 import { fetchRecentCardActivity, type CardTag } from "@/lib/cardApi" // Added CardTag
 import { fetchRecentCalendarActivity } from "@/lib/googleCalendarClient"
+import { isTokenExpiredError } from "@/lib/googleApiClient"
 import { fetchTimelineCardsWithTags, type TimelineCard, deleteTimelineCard } from "@/lib/timelineClient"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -53,6 +54,7 @@ const formatTimelineDateRange = (startDateStr: string, endDateStr?: string | nul
 const TimelinePage = () => {
   const { user, isAuthenticated } = useAuth()
   const navigate = useNavigate(); // Get the navigate function
+  const [searchParams, setSearchParams] = useSearchParams()
   const { theme: currentTheme } = useTheme();
   const darkMode = currentTheme === 'dark';
   const { toast } = useToast()
@@ -119,7 +121,7 @@ const TimelinePage = () => {
       setCustomTimelineCards([])
 
       // Check for the specific token expiration error and redirect
-      if (errorMessage === 'Google API token expired') {
+      if (isTokenExpiredError(err)) {
         navigate('/auth');
       }
 
@@ -194,6 +196,18 @@ const TimelinePage = () => {
     setIsDialogOpen(true)
   }
 
+  // ?new opens the add dialog, e.g. from the command palette
+  useEffect(() => {
+    if (!searchParams.has("new")) return
+    setCardToEdit(null)
+    setIsDialogOpen(true)
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      next.delete("new")
+      return next
+    }, { replace: true })
+  }, [searchParams, setSearchParams])
+
   const handleEditClick = (card: TimelineCard) => {
     setCardToEdit(card)
     setIsDialogOpen(true)